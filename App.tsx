@@ -1,17 +1,60 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { TextGenerator } from './components/TextGenerator';
-import { Banana, Languages } from 'lucide-react';
+import { WorkflowEditor } from './components/WorkflowEditor';
+import { JobQueuePanel } from './components/JobQueuePanel';
+import { Banana, Languages, Cloud, FlaskConical, Sparkles, Workflow } from 'lucide-react';
 import { LanguageProvider, useLanguage } from './components/LanguageContext';
 import { Button } from './components/ui/Button';
+import { getActiveProviderId, setActiveProviderId } from './services/imageService';
+import { ImageProviderId } from './services/imageProvider';
+import { resumeStoredJobs } from './services/jobQueue';
+import { cn } from './lib/utils';
+
+type AppMode = 'simple' | 'workflow';
+
+const MODE_STORAGE_KEY = 'appMode';
+
+const getSavedMode = (): AppMode => {
+  try {
+    return localStorage.getItem(MODE_STORAGE_KEY) === 'workflow' ? 'workflow' : 'simple';
+  } catch (e) {
+    return 'simple';
+  }
+};
 
 const AppContent: React.FC = () => {
   const { t, language, setLanguage } = useLanguage();
+  const [providerId, setProviderId] = useState<ImageProviderId>(getActiveProviderId);
+  const [mode, setMode] = useState<AppMode>(getSavedMode);
+
+  // Pick up generations that were still queued when the page was closed
+  useEffect(() => {
+    resumeStoredJobs();
+  }, []);
 
   const toggleLanguage = () => {
     setLanguage(language === 'zh' ? 'en' : 'zh');
   };
 
+  const changeMode = (next: AppMode) => {
+    setMode(next);
+    try {
+      localStorage.setItem(MODE_STORAGE_KEY, next);
+    } catch (e) {}
+  };
+
+  const modes: { value: AppMode; label: string; icon: React.ElementType }[] = [
+    { value: 'simple', label: t('modeSimple'), icon: Sparkles },
+    { value: 'workflow', label: t('modeWorkflow'), icon: Workflow },
+  ];
+
+  const toggleProvider = () => {
+    const next: ImageProviderId = providerId === 'gemini' ? 'mock' : 'gemini';
+    setActiveProviderId(next);
+    setProviderId(next);
+  };
+
   return (
     <div className="min-h-screen bg-zinc-950 text-zinc-50 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-indigo-950/20 via-zinc-950 to-zinc-950">
       {/* Navbar */}
@@ -22,11 +65,46 @@ const AppContent: React.FC = () => {
               <div className="w-8 h-8 bg-gradient-to-br from-yellow-400 to-orange-500 rounded-lg flex items-center justify-center shadow-lg shadow-orange-500/20">
                 <Banana className="text-white w-5 h-5" />
               </div>
-              <span className="text-lg font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-zinc-400">
+              <span className="text-lg font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-zinc-400 hidden sm:inline">
                 {t('navTitle')}
               </span>
             </div>
+            <div className="flex items-center gap-1 p-1 rounded-lg bg-zinc-900 border border-zinc-800">
+              {modes.map(({ value, label, icon: Icon }) => (
+                <button
+                  key={value}
+                  onClick={() => changeMode(value)}
+                  className={cn(
+                    "flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-colors",
+                    mode === value
+                      ? "bg-zinc-800 text-white shadow-sm"
+                      : "text-zinc-500 hover:text-zinc-300"
+                  )}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                  {label}
+                </button>
+              ))}
+            </div>
             <div className="flex items-center gap-4">
+              <JobQueuePanel />
+              <Button 
+                variant="ghost" 
+                size="sm" 
+                onClick={toggleProvider}
+                title={t('providerTitle')}
+                className={cn(
+                  "hover:text-white",
+                  providerId === 'mock' ? "text-amber-400" : "text-zinc-400"
+                )}
+              >
+                {providerId === 'mock' ? (
+                  <FlaskConical className="w-4 h-4 mr-2" />
+                ) : (
+                  <Cloud className="w-4 h-4 mr-2" />
+                )}
+                {providerId === 'mock' ? t('providerMock') : t('providerGemini')}
+              </Button>
               <Button 
                 variant="ghost" 
                 size="sm" 
@@ -57,9 +135,12 @@ const AppContent: React.FC = () => {
           </p>
         </div>
 
-        {/* View Container */}
-        <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
-             <TextGenerator />
+        {/* View Container - both modes stay mounted so their state survives switching */}
+        <div className={cn("animate-in fade-in slide-in-from-bottom-4 duration-500", mode !== 'simple' && "hidden")}>
+             <TextGenerator isVisible={mode === 'simple'} />
+        </div>
+        <div className={cn("animate-in fade-in slide-in-from-bottom-4 duration-500", mode !== 'workflow' && "hidden")}>
+             <WorkflowEditor isVisible={mode === 'workflow'} />
         </div>
       </main>
 
@@ -0,0 +1,177 @@
+import React, { useRef, useState } from 'react';
+import { Archive, Download, Upload, X } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { BackupImportReport, exportBackup, importBackup } from '../services/backupService';
+
+interface BackupDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Called after an import added anything, so views can reload. */
+  onImported: () => void;
+}
+
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/** Exports the whole history as a ZIP and restores such archives. */
+export const BackupDialog: React.FC<BackupDialogProps> = ({ open, onClose, onImported }) => {
+  const { t } = useLanguage();
+  const [busy, setBusy] = useState<'export' | 'import' | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [report, setReport] = useState<BackupImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  if (!open) return null;
+
+  const onProgress = (done: number, total: number) => setProgress({ done, total });
+
+  const handleExport = async () => {
+    setBusy('export');
+    setError(null);
+    setReport(null);
+    try {
+      const archive = await exportBackup(onProgress);
+      saveBlob(archive, `nano-banana-backup-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (e) {
+      console.warn("Backup Export Failed", e);
+      setError(t('backupExportFailed'));
+    } finally {
+      setBusy(null);
+      setProgress(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (importInputRef.current) importInputRef.current.value = '';
+    if (!file) return;
+
+    setBusy('import');
+    setError(null);
+    setReport(null);
+    try {
+      const result = await importBackup(file, onProgress);
+      setReport(result);
+      if (result.imported + result.uploads + result.collections > 0) onImported();
+    } catch (err: any) {
+      setError(`${t('backupImportFailed')}: ${err.message}`);
+    } finally {
+      setBusy(null);
+      setProgress(null);
+    }
+  };
+
+  const close = () => {
+    if (busy) return;
+    setReport(null);
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[260] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm" onClick={close}>
+      <div
+        className="w-full max-w-lg max-h-[80vh] flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <h3 className="text-sm font-bold text-zinc-200 flex items-center gap-2">
+            <Archive className="w-4 h-4 text-zinc-400" />
+            {t('backupTitle')}
+          </h3>
+          <button onClick={close} disabled={!!busy} className="p-1.5 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 text-xs">
+          <p className="text-zinc-400">{t('backupDesc')}</p>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={handleExport}
+              disabled={!!busy}
+              className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-zinc-800 text-zinc-200 hover:bg-zinc-900 disabled:opacity-40 transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              {t('backupExport')}
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={!!busy}
+              className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-zinc-800 text-zinc-200 hover:bg-zinc-900 disabled:opacity-40 transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              {t('backupImport')}
+            </button>
+            <input ref={importInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleImport} />
+          </div>
+
+          {busy && (
+            <div className="space-y-1">
+              <p className="text-zinc-400">
+                {t(busy === 'export' ? 'backupExporting' : 'backupImporting')}
+                {progress && ` ${progress.done}/${progress.total}`}
+              </p>
+              <div className="h-1 rounded-full bg-zinc-800 overflow-hidden">
+                <div
+                  className="h-full bg-primary transition-[width] duration-200"
+                  style={{ width: progress && progress.total > 0 ? `${(progress.done / progress.total) * 100}%` : '0%' }}
+                />
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-red-400">{error}</p>}
+
+          {report && (
+            <div className="p-3 rounded-lg border border-zinc-800 bg-zinc-900/50 space-y-2">
+              <p className="font-medium text-zinc-200">{t('backupReportTitle')}</p>
+              <ul className="space-y-0.5 text-zinc-400">
+                <li>{t('backupImported').replace('{count}', String(report.imported))}</li>
+                <li>{t('backupDuplicates').replace('{count}', String(report.duplicates))}</li>
+                {report.uploads > 0 && <li>{t('backupUploads').replace('{count}', String(report.uploads))}</li>}
+                {report.collections > 0 && <li>{t('backupCollections').replace('{count}', String(report.collections))}</li>}
+              </ul>
+
+              {report.conflicts.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-amber-400">{t('backupConflicts').replace('{count}', String(report.conflicts.length))}</p>
+                  <ul className="max-h-32 overflow-y-auto space-y-0.5 text-zinc-500">
+                    {report.conflicts.map(conflict => (
+                      <li key={conflict.id} className="truncate">
+                        <span className="font-mono">{conflict.id} → {conflict.newId}</span> · {conflict.prompt}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {report.skipped.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-red-400">{t('backupSkipped').replace('{count}', String(report.skipped.length))}</p>
+                  <ul className="max-h-32 overflow-y-auto space-y-0.5 text-zinc-500">
+                    {report.skipped.map((item, i) => (
+                      <li key={`${item.id}-${i}`} className="truncate">
+                        <span className="font-mono">{item.id}</span> · {t(`backupSkip_${item.reason}`)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { memo } from 'react';
+import { AlertCircle, Check, Heart, Trash2, ZoomIn } from 'lucide-react';
+import { CardContent } from './ui/Card';
+import { GeneratedImage } from '../types';
+import { cn } from '../lib/utils';
+
+export interface BatchCandidate {
+  id: string;
+  status: 'pending' | 'done' | 'failed';
+  image?: GeneratedImage;
+  error?: string;
+  selected: boolean;
+}
+
+interface BatchGridProps {
+  candidates: BatchCandidate[];
+  t: (k: string) => string;
+  onToggle: (id: string) => void;
+  onPreview: (img: GeneratedImage) => void;
+  onKeep: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Result card body for a batch: candidates fill in as their jobs finish
+ * and nothing reaches the history until the user keeps a selection.
+ */
+export const BatchGrid = memo(({ candidates, t, onToggle, onPreview, onKeep, onDiscard }: BatchGridProps) => {
+  const doneCount = candidates.filter(c => c.status === 'done').length;
+  const failedCount = candidates.filter(c => c.status === 'failed').length;
+  const selectedCount = candidates.filter(c => c.selected).length;
+
+  return (
+    <CardContent className="flex-1 flex flex-col gap-4 p-6">
+      <div className="flex items-center justify-between text-xs text-zinc-400">
+        <span>
+          {t('batchProgress')
+            .replace('{done}', String(doneCount))
+            .replace('{total}', String(candidates.length))}
+          {failedCount > 0 && (
+            <span className="text-red-400"> · {t('batchFailed').replace('{count}', String(failedCount))}</span>
+          )}
+        </span>
+        <span>{t('batchSelectHint')}</span>
+      </div>
+
+      <div className={cn("grid gap-3", candidates.length > 4 ? "grid-cols-3 sm:grid-cols-4" : "grid-cols-2")}>
+        {candidates.map(candidate => {
+          if (candidate.status === 'pending') {
+            return (
+              <div key={candidate.id} className="aspect-square rounded-lg border border-zinc-800 bg-zinc-950 flex items-center justify-center">
+                <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              </div>
+            );
+          }
+
+          if (candidate.status === 'failed' || !candidate.image) {
+            return (
+              <div
+                key={candidate.id}
+                className="aspect-square rounded-lg border border-red-900/50 bg-red-950/20 p-3 flex flex-col items-center justify-center gap-2 text-center"
+              >
+                <AlertCircle className="w-6 h-6 text-red-400 shrink-0" />
+                <p className="text-[10px] text-red-300 line-clamp-4 break-words">{candidate.error || t('errorGen')}</p>
+              </div>
+            );
+          }
+
+          const image = candidate.image;
+          return (
+            <div
+              key={candidate.id}
+              onClick={() => onToggle(candidate.id)}
+              className={cn(
+                "group relative aspect-square rounded-lg overflow-hidden border-2 cursor-pointer transition-all",
+                candidate.selected ? "border-primary ring-2 ring-primary/40" : "border-zinc-800 hover:border-zinc-600"
+              )}
+            >
+              <img src={image.url} alt={image.prompt} decoding="async" className="w-full h-full object-cover" />
+              <div
+                className={cn(
+                  "absolute top-2 left-2 w-6 h-6 rounded-full flex items-center justify-center border transition-colors",
+                  candidate.selected ? "bg-primary border-primary text-white" : "bg-black/50 border-white/30 text-transparent"
+                )}
+              >
+                <Check className="w-3.5 h-3.5" />
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); onPreview(image); }}
+                className="absolute top-2 right-2 p-1.5 rounded-full bg-black/50 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                title={t('batchPreview')}
+              >
+                <ZoomIn className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 mt-auto">
+        <button
+          onClick={onKeep}
+          disabled={selectedCount === 0}
+          className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-primary hover:bg-primary/90 disabled:opacity-40 disabled:hover:bg-primary text-sm text-white font-medium transition-colors"
+        >
+          <Heart className="w-4 h-4" />
+          {t('batchKeep').replace('{count}', String(selectedCount))}
+        </button>
+        <button
+          onClick={onDiscard}
+          className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-sm text-zinc-300 transition-colors"
+        >
+          <Trash2 className="w-4 h-4" />
+          {t('batchDiscard')}
+        </button>
+      </div>
+    </CardContent>
+  );
+});
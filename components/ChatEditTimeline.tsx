@@ -0,0 +1,84 @@
+import React, { useEffect, useRef } from 'react';
+import { Bot, ImageOff, MessagesSquare, User } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { cn } from '../lib/utils';
+import { EditSessionTurn } from '../types';
+
+interface ChatEditTimelineProps {
+  turns: EditSessionTurn[];
+  /** Image currently used as the edit base, highlighted in the thread. */
+  currentId: string;
+  /** Instruction of the turn in flight, shown as a pending message. */
+  pendingText?: string;
+  onSelectImage: (imageId: string) => void;
+}
+
+/** The conversation of a chat edit session, oldest message first. */
+export const ChatEditTimeline: React.FC<ChatEditTimelineProps> = ({ turns, currentId, pendingText, onSelectImage }) => {
+  const { t } = useLanguage();
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [turns.length, pendingText]);
+
+  if (turns.length === 0 && !pendingText) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-6 text-center text-xs text-zinc-500 border border-dashed border-zinc-800 rounded-lg">
+        <MessagesSquare className="w-5 h-5" />
+        {t('chatEmpty')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 max-h-80 overflow-y-auto pr-1">
+      {turns.map((turn, i) => turn.role === 'user' ? (
+        <div key={i} className="flex justify-end gap-2">
+          <p className="max-w-[80%] px-3 py-2 rounded-lg rounded-tr-none bg-purple-600/20 border border-purple-500/30 text-sm text-zinc-200 whitespace-pre-wrap break-words">
+            {turn.text}
+          </p>
+          <User className="w-4 h-4 mt-2 shrink-0 text-zinc-500" />
+        </div>
+      ) : (
+        <div key={i} className="flex gap-2">
+          <Bot className="w-4 h-4 mt-2 shrink-0 text-purple-400" />
+          <div className="max-w-[80%] space-y-1.5">
+            {turn.imageId && (
+              <button
+                onClick={() => onSelectImage(turn.imageId!)}
+                className={cn(
+                  "block w-24 h-24 rounded-lg overflow-hidden border-2 transition-colors",
+                  turn.imageId === currentId ? "border-purple-500" : "border-zinc-800 hover:border-zinc-600"
+                )}
+                title={t('chatUseAsBase')}
+              >
+                {turn.thumbnail ? (
+                  <img src={turn.thumbnail} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <span className="w-full h-full flex items-center justify-center bg-zinc-900 text-zinc-600">
+                    <ImageOff className="w-5 h-5" />
+                  </span>
+                )}
+              </button>
+            )}
+            {turn.text && (
+              <p className="px-3 py-2 rounded-lg rounded-tl-none bg-zinc-900 border border-zinc-800 text-xs text-zinc-400 whitespace-pre-wrap break-words">
+                {turn.text}
+              </p>
+            )}
+          </div>
+        </div>
+      ))}
+      {pendingText && (
+        <div className="flex justify-end gap-2 opacity-60">
+          <p className="max-w-[80%] px-3 py-2 rounded-lg rounded-tr-none bg-purple-600/20 border border-purple-500/30 text-sm text-zinc-200 whitespace-pre-wrap break-words animate-pulse">
+            {pendingText}
+          </p>
+          <User className="w-4 h-4 mt-2 shrink-0 text-zinc-500" />
+        </div>
+      )}
+      <div ref={endRef} />
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { GitBranch, Columns2, Trash2, X, Sparkles, Pencil, Wand2, Grid3x3, SlidersHorizontal } from 'lucide-react';
+import { GeneratedImage } from '../types';
+import { useLanguage } from './LanguageContext';
+import { AlertDialog } from './ui/AlertDialog';
+import { cn } from '../lib/utils';
+import { LineageNode, collectBranchIds, getLineage, releaseImageUrl } from '../services/historyStore';
+
+interface EditLineageTreeProps {
+  /** Image currently used as the edit base. */
+  currentId: string;
+  /** Change to force a reload, e.g. after an edit finished. */
+  refreshKey: number;
+  onSelectBase: (image: GeneratedImage) => void;
+  /** `ids` is the branch root followed by all its descendants. */
+  onDeleteBranch: (ids: string[], branchRoot: GeneratedImage) => void;
+}
+
+const OPERATION_ICONS = {
+  generate: Sparkles,
+  edit: Pencil,
+  refine: Wand2,
+  matrix: Grid3x3,
+  postprocess: SlidersHorizontal,
+};
+
+const flatten = (node: LineageNode): GeneratedImage[] => [node.image, ...node.children.flatMap(flatten)];
+
+// --- Before/after slider for two versions ---
+const CompareView: React.FC<{ left: GeneratedImage; right: GeneratedImage; onClose: () => void }> = ({ left, right, onClose }) => {
+  const { t } = useLanguage();
+  const [split, setSplit] = useState(50);
+
+  return (
+    <div className="fixed inset-0 z-[250] bg-black/95 flex flex-col items-center justify-center p-4 gap-4 animate-in fade-in duration-150" onClick={onClose}>
+      <div className="relative max-w-full max-h-[75vh] select-none" onClick={(e) => e.stopPropagation()}>
+        <img src={right.url} alt={right.prompt} className="max-w-full max-h-[75vh] object-contain rounded-lg" />
+        <img
+          src={left.url}
+          alt={left.prompt}
+          className="absolute inset-0 w-full h-full object-contain rounded-lg"
+          style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+        />
+        <div className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${split}%` }} />
+      </div>
+      <div className="w-full max-w-md space-y-2" onClick={(e) => e.stopPropagation()}>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={split}
+          onChange={(e) => setSplit(Number(e.target.value))}
+          className="w-full accent-purple-500"
+        />
+        <div className="flex justify-between gap-4 text-xs text-zinc-400">
+          <span className="truncate">{left.prompt}</span>
+          <span className="truncate text-right">{right.prompt}</span>
+        </div>
+      </div>
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 text-zinc-400 hover:text-white bg-black/50 hover:bg-black/80 border border-white/5 p-2.5 rounded-full transition-colors"
+        aria-label={t('cancel')}
+      >
+        <X className="w-6 h-6" />
+      </button>
+    </div>
+  );
+};
+
+export const EditLineageTree: React.FC<EditLineageTreeProps> = ({ currentId, refreshKey, onSelectBase, onDeleteBranch }) => {
+  const { t } = useLanguage();
+  const [tree, setTree] = useState<LineageNode | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [branchToDelete, setBranchToDelete] = useState<LineageNode | null>(null);
+
+  // Picking another version of the same tree must not reload it, otherwise
+  // the thumbnails would flicker while their object URLs are replaced
+  const isInTree = !!tree && flatten(tree).some(img => img.id === currentId);
+  const lineageKey = isInTree ? tree!.image.id : currentId;
+
+  useEffect(() => {
+    let cancelled = false;
+    getLineage(currentId)
+      .then((result) => {
+        if (cancelled) {
+          if (result) flatten(result).forEach(releaseImageUrl);
+        } else {
+          setTree(result);
+        }
+      })
+      .catch((e) => console.warn("Failed to load edit lineage", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [lineageKey, refreshKey]);
+
+  // A tree's object URLs stay valid while it is shown: they are released
+  // once a reload has replaced it, or on unmount
+  useEffect(() => {
+    if (!tree) return;
+    return () => flatten(tree).forEach(releaseImageUrl);
+  }, [tree]);
+
+  if (!tree) return null;
+
+  const all = flatten(tree);
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id)
+      ? prev.filter(x => x !== id)
+      : [...prev, id].slice(-2));
+  };
+
+  const compareImages = compareIds
+    .map(id => all.find(img => img.id === id))
+    .filter((img): img is GeneratedImage => !!img);
+
+  const renderNode = (node: LineageNode, depth: number): React.ReactNode => {
+    const { image } = node;
+    const Icon = OPERATION_ICONS[image.operation || 'generate'];
+    const isCurrent = image.id === currentId;
+    const isCompared = compareIds.includes(image.id);
+
+    return (
+      <React.Fragment key={image.id}>
+        <div
+          className={cn(
+            "group flex items-center gap-2 p-1.5 rounded-md cursor-pointer transition-colors",
+            isCurrent ? "bg-purple-900/30 ring-1 ring-purple-500/50" : "hover:bg-zinc-900"
+          )}
+          style={{ marginLeft: depth * 14 }}
+          onClick={() => onSelectBase(image)}
+          title={t('lineageSelectBase')}
+        >
+          <img src={image.thumbnailUrl || image.url} alt={image.prompt} className="w-9 h-9 rounded object-cover border border-zinc-800 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-xs text-zinc-200 truncate flex items-center gap-1">
+              <Icon className="w-3 h-3 text-zinc-500 shrink-0" />
+              {image.prompt}
+            </p>
+            <p className="text-[10px] text-zinc-500 font-mono">{new Date(image.timestamp).toLocaleTimeString()}</p>
+          </div>
+          <button
+            onClick={(e) => { e.stopPropagation(); toggleCompare(image.id); }}
+            className={cn(
+              "p-1 rounded transition-colors",
+              isCompared ? "text-purple-300 bg-purple-900/40" : "text-zinc-500 hover:text-white opacity-0 group-hover:opacity-100"
+            )}
+            title={t('lineageCompare')}
+          >
+            <Columns2 className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); setBranchToDelete(node); }}
+            className="p-1 rounded text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-colors"
+            title={t('lineageDeleteBranch')}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        {node.children.map(child => renderNode(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <AlertDialog
+        open={!!branchToDelete}
+        onOpenChange={(o) => !o && setBranchToDelete(null)}
+        onConfirm={() => {
+          if (!branchToDelete) return;
+          onDeleteBranch(collectBranchIds(branchToDelete), branchToDelete.image);
+          setCompareIds([]);
+          setBranchToDelete(null);
+        }}
+        title={t('lineageDeleteBranch')}
+        description={t('lineageConfirmDelete').replace('{count}', String(branchToDelete ? collectBranchIds(branchToDelete).length : 0))}
+        cancelText={t('cancel')}
+        confirmText={t('confirm')}
+      />
+
+      {isComparing && compareImages.length === 2 && (
+        <CompareView left={compareImages[0]} right={compareImages[1]} onClose={() => setIsComparing(false)} />
+      )}
+
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-zinc-300 flex items-center gap-2">
+          <GitBranch className="w-4 h-4 text-zinc-500" />
+          {t('lineageTitle')}
+          <span className="text-xs text-zinc-500 font-normal">({all.length})</span>
+        </label>
+        <button
+          onClick={() => setIsComparing(true)}
+          disabled={compareImages.length !== 2}
+          className="text-xs text-zinc-400 hover:text-white disabled:opacity-40 disabled:hover:text-zinc-400 flex items-center gap-1 transition-colors"
+          title={t('lineageCompareHint')}
+        >
+          <Columns2 className="w-3.5 h-3.5" />
+          {t('lineageCompare')} {compareImages.length}/2
+        </button>
+      </div>
+
+      <div className="max-h-56 overflow-y-auto rounded-lg border border-zinc-800 bg-zinc-950/50 p-1">
+        {renderNode(tree, 0)}
+      </div>
+    </div>
+  );
+};
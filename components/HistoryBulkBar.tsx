@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { CheckSquare, Download, FolderInput, Star, Tag, Trash2, X } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { cn } from '../lib/utils';
+import { Collection } from '../types';
+import { parseTags } from '../lib/promptPack';
+
+interface HistoryBulkBarProps {
+  selectedCount: number;
+  collections: Collection[];
+  /** Board being viewed; moving takes records off it. */
+  activeCollectionId: string | null;
+  onSelectAll: () => void;
+  onDone: () => void;
+  onAddTags: (tags: string[]) => void;
+  onRemoveTags: (tags: string[]) => void;
+  onFavorite: (favorite: boolean) => void;
+  /** `null` only takes the records off the active board. */
+  onMove: (collectionId: string | null) => void;
+  onDownload: () => void;
+  onDelete: () => void;
+}
+
+const actionClass = "flex items-center gap-1.5 px-2 py-1 rounded text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-zinc-400 transition-colors";
+
+/** Actions for the records selected in the history grid. */
+export const HistoryBulkBar: React.FC<HistoryBulkBarProps> = ({
+  selectedCount,
+  collections,
+  activeCollectionId,
+  onSelectAll,
+  onDone,
+  onAddTags,
+  onRemoveTags,
+  onFavorite,
+  onMove,
+  onDownload,
+  onDelete,
+}) => {
+  const { t } = useLanguage();
+  const [tagText, setTagText] = useState<string | null>(null);
+  const none = selectedCount === 0;
+
+  const applyTags = (apply: (tags: string[]) => void) => {
+    const tags = parseTags(tagText || '');
+    if (tags.length > 0) apply(tags);
+    setTagText(null);
+  };
+
+  return (
+    <div className="sticky top-2 z-30 mb-4 p-2 rounded-lg border border-primary/40 bg-zinc-950/90 backdrop-blur flex flex-wrap items-center gap-1 animate-in fade-in duration-200">
+      <span className="px-2 text-xs font-medium text-zinc-200">
+        {t('historySelected').replace('{count}', String(selectedCount))}
+      </span>
+      <button onClick={onSelectAll} className={actionClass}>
+        <CheckSquare className="w-3.5 h-3.5" />
+        {t('historySelectAll')}
+      </button>
+
+      <div className="w-px h-4 bg-zinc-800 mx-1" />
+
+      {tagText === null ? (
+        <button onClick={() => setTagText('')} disabled={none} className={actionClass}>
+          <Tag className="w-3.5 h-3.5" />
+          {t('historyTags')}
+        </button>
+      ) : (
+        <div className="flex items-center gap-1">
+          <input
+            autoFocus
+            value={tagText}
+            onChange={(e) => setTagText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') applyTags(onAddTags);
+              if (e.key === 'Escape') setTagText(null);
+            }}
+            placeholder={t('historyTagsPlaceholder')}
+            className="w-40 bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-zinc-600"
+          />
+          <button onClick={() => applyTags(onAddTags)} className={actionClass}>{t('historyAddTags')}</button>
+          <button onClick={() => applyTags(onRemoveTags)} className={actionClass}>{t('historyRemoveTags')}</button>
+        </div>
+      )}
+
+      <button onClick={() => onFavorite(true)} disabled={none} className={actionClass}>
+        <Star className="w-3.5 h-3.5" />
+        {t('historyFavorite')}
+      </button>
+      <button onClick={() => onFavorite(false)} disabled={none} className={actionClass}>
+        {t('historyUnfavorite')}
+      </button>
+
+      {(collections.length > 0 || activeCollectionId) && (
+        <label className="flex items-center gap-1.5 px-2 py-1 text-xs text-zinc-400">
+          <FolderInput className="w-3.5 h-3.5" />
+          <select
+            value=""
+            disabled={none}
+            onChange={(e) => onMove(e.target.value === '-' ? null : e.target.value)}
+            className="bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-xs text-zinc-200 outline-none disabled:opacity-40"
+          >
+            <option value="" disabled>{activeCollectionId ? t('historyMoveTo') : t('historyAddTo')}</option>
+            {collections.filter(c => c.id !== activeCollectionId).map(c => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+            {activeCollectionId && <option value="-">{t('historyRemoveFromBoard')}</option>}
+          </select>
+        </label>
+      )}
+
+      <button onClick={onDownload} disabled={none} className={actionClass}>
+        <Download className="w-3.5 h-3.5" />
+        {t('download')}
+      </button>
+      <button onClick={onDelete} disabled={none} className={cn(actionClass, "hover:text-red-400")}>
+        <Trash2 className="w-3.5 h-3.5" />
+        {t('historyDeleteSelected')}
+      </button>
+
+      <button onClick={onDone} className="ml-auto p-1.5 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors" title={t('historyDone')}>
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { Filter, FolderPlus, Search, Star, X } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { AlertDialog } from './ui/AlertDialog';
+import { cn } from '../lib/utils';
+import { AspectRatio, Collection, ImageOperation, Resolution } from '../types';
+import { EMPTY_HISTORY_FILTER, HistoryFilter, isHistoryFiltered, toggleFilterValue } from '../lib/historyFilter';
+
+const OPERATIONS: ImageOperation[] = ['generate', 'edit', 'refine', 'matrix', 'postprocess'];
+
+interface HistoryToolbarProps {
+  filter: HistoryFilter;
+  onFilterChange: (filter: HistoryFilter) => void;
+  collections: Collection[];
+  onCreateCollection: (name: string) => void;
+  onDeleteCollection: (collection: Collection) => void;
+  resolutions: Resolution[];
+  aspectRatios: AspectRatio[];
+}
+
+/** `yyyy-mm-dd` in local time, as date inputs expect. */
+const toDateInput = (timestamp: number | null) => {
+  if (timestamp === null) return '';
+  const date = new Date(timestamp);
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+};
+
+/** Start of the day, or its last millisecond for an inclusive upper bound. */
+const fromDateInput = (value: string, endOfDay: boolean): number | null => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  return endOfDay
+    ? new Date(year, month - 1, day + 1).getTime() - 1
+    : new Date(year, month - 1, day).getTime();
+};
+
+const chipClass = (active: boolean) => cn(
+  "px-2 py-0.5 rounded-full text-[11px] border transition-colors",
+  active ? "border-primary bg-zinc-800 text-white" : "border-zinc-800 text-zinc-500 hover:bg-zinc-900"
+);
+
+/** Search, filters and boards above the history grid. */
+export const HistoryToolbar: React.FC<HistoryToolbarProps> = ({
+  filter,
+  onFilterChange,
+  collections,
+  onCreateCollection,
+  onDeleteCollection,
+  resolutions,
+  aspectRatios,
+}) => {
+  const { t } = useLanguage();
+  const [showFilters, setShowFilters] = useState(false);
+  const [newBoardName, setNewBoardName] = useState<string | null>(null);
+  const [boardToDelete, setBoardToDelete] = useState<Collection | null>(null);
+  // Typing updates the field at once; the search itself waits for a pause
+  const [query, setQuery] = useState(filter.query);
+
+  useEffect(() => {
+    setQuery(filter.query);
+  }, [filter.query]);
+
+  useEffect(() => {
+    if (query === filter.query) return;
+    const timer = setTimeout(() => onFilterChange({ ...filter, query }), 250);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const update = (patch: Partial<HistoryFilter>) => onFilterChange({ ...filter, ...patch });
+
+  const submitBoard = () => {
+    const name = newBoardName?.trim();
+    if (name) onCreateCollection(name);
+    setNewBoardName(null);
+  };
+
+  // Board and search stay; these are the criteria behind the filter button
+  const detailCount = (filter.from !== null ? 1 : 0) + (filter.to !== null ? 1 : 0)
+    + filter.resolutions.length + filter.aspectRatios.length + filter.operations.length;
+
+  return (
+    <div className="space-y-2 mb-4">
+      <AlertDialog
+        open={!!boardToDelete}
+        onOpenChange={(o) => !o && setBoardToDelete(null)}
+        onConfirm={() => {
+          if (boardToDelete) onDeleteCollection(boardToDelete);
+          setBoardToDelete(null);
+        }}
+        title={t('historyDeleteBoardTitle')}
+        description={t('historyConfirmDeleteBoard').replace('{name}', boardToDelete?.name || '')}
+        cancelText={t('cancel')}
+        confirmText={t('confirm')}
+      />
+
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-zinc-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('historySearchPlaceholder')}
+            className="w-full bg-zinc-900 border border-zinc-800 rounded-lg pl-9 pr-3 py-2 text-sm text-zinc-200 focus:outline-none focus:ring-1 focus:ring-zinc-600"
+          />
+        </div>
+        <button
+          onClick={() => update({ favoritesOnly: !filter.favoritesOnly })}
+          className={cn(
+            "p-2 rounded-lg border transition-colors",
+            filter.favoritesOnly ? "border-yellow-500/50 bg-yellow-500/10 text-yellow-400" : "border-zinc-800 text-zinc-500 hover:text-zinc-300"
+          )}
+          title={t('historyFavoritesOnly')}
+        >
+          <Star className={cn("w-4 h-4", filter.favoritesOnly && "fill-current")} />
+        </button>
+        <button
+          onClick={() => setShowFilters(v => !v)}
+          className={cn(
+            "relative p-2 rounded-lg border transition-colors",
+            showFilters || detailCount > 0 ? "border-primary/60 bg-zinc-800 text-white" : "border-zinc-800 text-zinc-500 hover:text-zinc-300"
+          )}
+          title={t('historyFilters')}
+        >
+          <Filter className="w-4 h-4" />
+          {detailCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-4 h-4 px-1 rounded-full bg-primary text-[9px] leading-4 text-white">{detailCount}</span>
+          )}
+        </button>
+        {isHistoryFiltered({ ...filter, collectionId: null }) && (
+          <button
+            onClick={() => onFilterChange({ ...EMPTY_HISTORY_FILTER, collectionId: filter.collectionId })}
+            className="p-2 rounded-lg text-zinc-500 hover:text-zinc-300 transition-colors"
+            title={t('historyClearFilters')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {showFilters && (
+        <div className="p-3 rounded-lg border border-zinc-800 bg-zinc-950/60 space-y-3 text-xs animate-in fade-in duration-200">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="w-20 text-zinc-500">{t('historyDateRange')}</span>
+            <input
+              type="date"
+              value={toDateInput(filter.from)}
+              onChange={(e) => update({ from: fromDateInput(e.target.value, false) })}
+              className="bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-zinc-200 [color-scheme:dark]"
+            />
+            <span className="text-zinc-600">–</span>
+            <input
+              type="date"
+              value={toDateInput(filter.to)}
+              onChange={(e) => update({ to: fromDateInput(e.target.value, true) })}
+              className="bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-zinc-200 [color-scheme:dark]"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="w-20 text-zinc-500">{t('historyResolution')}</span>
+            {resolutions.map(res => (
+              <button key={res} onClick={() => update({ resolutions: toggleFilterValue(filter.resolutions, res) })} className={chipClass(filter.resolutions.includes(res))}>
+                {res}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="w-20 text-zinc-500">{t('historyAspectRatio')}</span>
+            {aspectRatios.map(ratio => (
+              <button key={ratio} onClick={() => update({ aspectRatios: toggleFilterValue(filter.aspectRatios, ratio) })} className={chipClass(filter.aspectRatios.includes(ratio))}>
+                {ratio}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="w-20 text-zinc-500">{t('historyOperation')}</span>
+            {OPERATIONS.map(op => (
+              <button key={op} onClick={() => update({ operations: toggleFilterValue(filter.operations, op) })} className={chipClass(filter.operations.includes(op))}>
+                {t(`operation_${op}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1">
+        <button onClick={() => update({ collectionId: null })} className={chipClass(filter.collectionId === null)}>
+          {t('historyAllBoards')}
+        </button>
+        {collections.map(collection => {
+          const active = filter.collectionId === collection.id;
+          return (
+            <span key={collection.id} className={cn(chipClass(active), "flex items-center gap-1 pr-1")}>
+              <button onClick={() => update({ collectionId: collection.id })}>{collection.name}</button>
+              {active && (
+                <button
+                  onClick={() => setBoardToDelete(collection)}
+                  className="text-zinc-500 hover:text-red-400 transition-colors"
+                  title={t('historyDeleteBoardTitle')}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          );
+        })}
+        {newBoardName === null ? (
+          <button
+            onClick={() => setNewBoardName('')}
+            className="flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] text-zinc-500 hover:text-zinc-300 transition-colors"
+          >
+            <FolderPlus className="w-3 h-3" />
+            {t('historyNewBoard')}
+          </button>
+        ) : (
+          <input
+            autoFocus
+            value={newBoardName}
+            onChange={(e) => setNewBoardName(e.target.value)}
+            onBlur={submitBoard}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitBoard();
+              if (e.key === 'Escape') setNewBoardName(null);
+            }}
+            placeholder={t('historyBoardNamePlaceholder')}
+            className="w-32 bg-zinc-900 border border-zinc-800 rounded-full px-2 py-0.5 text-[11px] text-zinc-200 focus:outline-none focus:ring-1 focus:ring-zinc-600"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React from 'react';
+import { Info, RotateCcw, X } from 'lucide-react';
+import { GeneratedImage } from '../types';
+import { useLanguage } from './LanguageContext';
+
+interface ImageDetailsProps {
+  image: GeneratedImage;
+  onReuse: (image: GeneratedImage) => void;
+  /** Opens a linked record (parent, matrix cell) in the preview. */
+  onOpenRecord: (id: string) => void;
+  onClose: () => void;
+}
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="space-y-1">
+    <dt className="text-[10px] uppercase tracking-wider text-zinc-500">{label}</dt>
+    <dd className="text-sm text-zinc-200 break-words">{children}</dd>
+  </div>
+);
+
+export const ImageDetails: React.FC<ImageDetailsProps> = ({ image, onReuse, onOpenRecord, onClose }) => {
+  const { t } = useLanguage();
+  const unknown = <span className="text-zinc-600">—</span>;
+
+  return (
+    <div
+      className="w-full sm:w-80 max-h-[85vh] flex flex-col bg-zinc-950/95 border border-zinc-800 rounded-xl shadow-2xl animate-in fade-in slide-in-from-right-4 duration-200"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+        <h3 className="text-sm font-bold text-zinc-200 flex items-center gap-2">
+          <Info className="w-4 h-4 text-zinc-400" />
+          {t('detailsTitle')}
+        </h3>
+        <button onClick={onClose} className="p-1.5 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <dl className="flex-1 overflow-y-auto p-4 space-y-4">
+        <Row label={t('detailsPrompt')}>
+          <span className="whitespace-pre-wrap">{image.prompt}</span>
+        </Row>
+        {image.template && image.template !== image.prompt && (
+          <Row label={t('detailsTemplate')}>
+            <span className="whitespace-pre-wrap font-mono text-xs text-zinc-400">{image.template}</span>
+          </Row>
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          <Row label={t('detailsOperation')}>
+            {image.operation ? t(`operation_${image.operation}`) : unknown}
+          </Row>
+          <Row label={t('detailsModel')}>
+            <span className="font-mono text-xs">{image.model || unknown}</span>
+          </Row>
+          <Row label={t('resolutionTitle')}>{image.resolution || unknown}</Row>
+          <Row label={t('aspectRatioTitle')}>{image.aspectRatio || unknown}</Row>
+          <Row label={t('detailsDuration')}>
+            {image.durationMs !== undefined ? `${(image.durationMs / 1000).toFixed(1)}s` : unknown}
+          </Row>
+          <Row label={t('detailsCreated')}>
+            <span className="text-xs">{new Date(image.timestamp).toLocaleString()}</span>
+          </Row>
+        </div>
+
+        {image.parentId && (
+          <Row label={t('detailsParent')}>
+            <button
+              onClick={() => onOpenRecord(image.parentId!)}
+              className="font-mono text-xs text-zinc-400 hover:text-white underline decoration-zinc-700 underline-offset-4 transition-colors"
+            >
+              {image.parentId}
+            </button>
+          </Row>
+        )}
+
+        {image.gridId && (
+          <Row label={t('detailsGrid')}>
+            <button
+              onClick={() => onOpenRecord(image.gridId!)}
+              className="font-mono text-xs text-zinc-400 hover:text-white underline decoration-zinc-700 underline-offset-4 transition-colors"
+            >
+              {image.gridId}
+            </button>
+          </Row>
+        )}
+
+        {image.cellIds && image.cellIds.length > 0 && (
+          <Row label={`${t('detailsCells')} (${image.cellIds.length})`}>
+            <div className="flex flex-wrap gap-1 mt-1">
+              {image.cellIds.map((id, i) => (
+                <button
+                  key={id}
+                  onClick={() => onOpenRecord(id)}
+                  className="min-w-[2rem] px-1.5 py-1 rounded bg-zinc-900 border border-zinc-800 text-xs text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors"
+                  title={id}
+                >
+                  {i + 1}
+                </button>
+              ))}
+            </div>
+          </Row>
+        )}
+
+        {image.references && image.references.length > 0 && (
+          <Row label={t('detailsReferences')}>
+            <div className="flex gap-2 flex-wrap mt-1">
+              {image.references.map((ref, i) => (
+                <figure key={`${ref.hash}-${i}`} className="space-y-0.5">
+                  <img
+                    src={ref.thumbnail}
+                    alt={ref.hash}
+                    title={`SHA-256 ${ref.hash}`}
+                    className="w-14 h-14 object-cover rounded border border-zinc-800"
+                  />
+                  {ref.role && (
+                    <figcaption className="text-[10px] text-zinc-500 text-center">{t(`referenceRole_${ref.role}`)}</figcaption>
+                  )}
+                </figure>
+              ))}
+            </div>
+          </Row>
+        )}
+
+        {image.tags && image.tags.length > 0 && (
+          <Row label={t('detailsTags')}>
+            <span className="text-xs text-zinc-400">{image.tags.map(tag => `#${tag}`).join(' ')}</span>
+          </Row>
+        )}
+
+        {image.modelText && (
+          <Row label={t('detailsModelText')}>
+            <span className="text-xs text-zinc-400 whitespace-pre-wrap">{image.modelText}</span>
+          </Row>
+        )}
+      </dl>
+
+      <div className="p-4 border-t border-zinc-800">
+        <button
+          onClick={() => onReuse(image)}
+          className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-sm text-white transition-colors"
+        >
+          <RotateCcw className="w-4 h-4" />
+          {t('reuseSettings')}
+        </button>
+      </div>
+    </div>
+  );
+};
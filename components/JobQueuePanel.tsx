@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ListOrdered, X, Loader2, CheckCircle2, AlertCircle, Ban, Clock, Sparkles, Workflow } from 'lucide-react';
+import { GenerationJob, JobStatus } from '../types';
+import { useLanguage } from './LanguageContext';
+import { Button } from './ui/Button';
+import { cn } from '../lib/utils';
+import { describeError } from '../services/imageErrors';
+import {
+  MAX_CONCURRENCY,
+  cancelJob,
+  clearFinishedJobs,
+  getJobConcurrency,
+  setJobConcurrency,
+  subscribeJobs,
+} from '../services/jobQueue';
+
+const STATUS_ICONS: Record<JobStatus, { icon: React.ElementType; className: string }> = {
+  queued: { icon: Clock, className: 'text-zinc-400' },
+  running: { icon: Loader2, className: 'text-purple-400 animate-spin' },
+  succeeded: { icon: CheckCircle2, className: 'text-green-400' },
+  failed: { icon: AlertCircle, className: 'text-red-400' },
+  cancelled: { icon: Ban, className: 'text-zinc-500' },
+};
+
+const isActive = (job: GenerationJob) => job.status === 'queued' || job.status === 'running';
+
+const formatElapsed = (job: GenerationJob, now: number) => {
+  if (!job.startedAt) return '';
+  return `${(((job.finishedAt || now) - job.startedAt) / 1000).toFixed(0)}s`;
+};
+
+const JobRow: React.FC<{ job: GenerationJob; now: number }> = ({ job, now }) => {
+  const { t } = useLanguage();
+  const { icon: StatusIcon, className } = STATUS_ICONS[job.status];
+  const SourceIcon = job.source === 'workflow' ? Workflow : Sparkles;
+
+  return (
+    <div className="p-2.5 rounded-lg bg-zinc-900/60 border border-zinc-800 space-y-1.5">
+      <div className="flex items-center gap-2">
+        <StatusIcon className={cn("w-4 h-4 shrink-0", className)} />
+        <p className="flex-1 min-w-0 text-xs text-zinc-200 truncate" title={job.prompt}>{job.prompt}</p>
+        {isActive(job) && (
+          <button
+            onClick={() => cancelJob(job.id)}
+            className="p-1 rounded text-zinc-500 hover:text-red-400 hover:bg-zinc-800 transition-colors"
+            title={t('jobCancel')}
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+      <div className="flex items-center gap-2 text-[10px] text-zinc-500">
+        <SourceIcon className="w-3 h-3" />
+        <span>{t(`job_${job.input.operation}`)}</span>
+        <span>·</span>
+        <span>{t(`jobStatus_${job.status}`)}</span>
+        <span className="ml-auto font-mono">{formatElapsed(job, now)}</span>
+      </div>
+      {job.status === 'running' && (
+        <div className="h-1 rounded-full bg-zinc-800 overflow-hidden">
+          <div className="h-full w-1/3 bg-purple-500 rounded-full animate-pulse" />
+        </div>
+      )}
+      {job.status === 'failed' && (
+        <p className="text-[10px] text-red-400 break-words">{describeError(job.error, t)}</p>
+      )}
+    </div>
+  );
+};
+
+export const JobQueuePanel: React.FC = () => {
+  const { t } = useLanguage();
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [concurrency, setConcurrency] = useState(getJobConcurrency);
+  const [now, setNow] = useState(Date.now());
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => subscribeJobs(setJobs), []);
+
+  const activeCount = jobs.filter(isActive).length;
+  const hasRunning = jobs.some(job => job.status === 'running');
+
+  // Ticks the elapsed timers only while something is running
+  useEffect(() => {
+    if (!isOpen || !hasRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isOpen, hasRunning]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const changeConcurrency = (value: number) => {
+    setConcurrency(value);
+    setJobConcurrency(value);
+  };
+
+  const finishedCount = jobs.length - activeCount;
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => {
+          setIsOpen(o => !o);
+          setNow(Date.now());
+        }}
+        title={t('jobQueue')}
+        className={cn("hover:text-white", activeCount > 0 ? "text-purple-300" : "text-zinc-400")}
+      >
+        <ListOrdered className="w-4 h-4 sm:mr-2" />
+        <span className="hidden sm:inline">{t('jobQueue')}</span>
+        {activeCount > 0 && (
+          <span className="ml-1.5 min-w-[1.25rem] px-1 rounded-full bg-purple-600 text-white text-[10px] leading-5 text-center">
+            {activeCount}
+          </span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-h-[70vh] flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl z-[60] animate-in fade-in slide-in-from-top-2 duration-150">
+          <div className="flex items-center justify-between p-3 border-b border-zinc-800">
+            <h3 className="text-sm font-bold text-zinc-200">{t('jobQueue')}</h3>
+            <label className="flex items-center gap-2 text-xs text-zinc-400">
+              {t('jobConcurrency')}
+              <select
+                value={concurrency}
+                onChange={(e) => changeConcurrency(Number(e.target.value))}
+                className="bg-zinc-900 border border-zinc-800 rounded px-1.5 py-0.5 text-zinc-200"
+              >
+                {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-3 space-y-2">
+            {jobs.length === 0 ? (
+              <p className="text-center text-xs text-zinc-500 py-6">{t('jobQueueEmpty')}</p>
+            ) : (
+              [...jobs].reverse().map(job => <JobRow key={job.id} job={job} now={now} />)
+            )}
+          </div>
+
+          {finishedCount > 0 && (
+            <div className="p-3 border-t border-zinc-800">
+              <button
+                onClick={clearFinishedJobs}
+                className="w-full text-xs text-zinc-400 hover:text-white transition-colors"
+              >
+                {t('jobClearFinished')} ({finishedCount})
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -20,6 +20,9 @@ const translations: Record<Language, Record<string, string>> = {
     footer: "Nano Banana Studio.",
     authorBy: "Power by",
     lastUpdated: "最近更新：",
+    providerTitle: "切换生成后端",
+    providerGemini: "Gemini",
+    providerMock: "离线模拟",
     
     // Text Generator
     promptTitle: "提示词输入",
@@ -34,9 +37,33 @@ const translations: Record<Language, Record<string, string>> = {
     genSuccess: "图像生成成功！",
     editSuccess: "修改成功！",
     errorGen: "生成失败，请重试。",
+    errQuota: "请求过于频繁或配额已用尽，已自动重试。请稍后再试，或检查 API 配额。",
+    errSafety: "内容被安全过滤器拦截（{reason}）。请调整提示词或参考图片后重试。",
+    errInvalidArgument: "请求参数无效：{detail}。请检查提示词、图片和设置。",
+    errNetwork: "网络连接失败，已自动重试。请检查网络后再试。",
+    errTimeout: "请求超时。可尝试降低分辨率或稍后再试。",
+    errNoImage: "模型没有返回图片。请换一种描述方式再试。",
+    errNoImageWithText: "模型没有返回图片，而是回复：“{text}”。请根据提示调整后重试。",
     genErrorToast: "出错啦，请尝试重新生成。",
     fileTooLarge: "图片大小不能超过 10MB",
-    uploadTitle: "参考图片 (最多2张)",
+    uploadTitle: "参考图片 (最多{max}张)",
+    referenceRole: "参考用途",
+    referenceRole_none: "参考",
+    referenceRole_subject: "主体",
+    referenceRole_style: "风格",
+    referenceRole_composition: "构图",
+    capTooManyReferences: "{model} 最多支持 {max} 张参考图，当前为 {count} 张。请移除多余的图片。",
+    capReferencesAt4K: "{model} 在 4K 下不支持参考图，请改用 2K 或移除参考图。",
+    capResolution: "{model} 不支持 {resolution} 分辨率。",
+    capReferencesSkipped: "{model} 最多支持 {max} 张参考图，已跳过 {count} 张。",
+    capAspectRatio: "{model} 不支持 {ratio} 比例。可选择裁剪或填充，以最接近的 {nearest} 生成后再调整。",
+    ratioUnsupportedTitle: "{model} 不直接支持此比例",
+    ratioFitOffHint: "{model} 不直接支持所选比例。选择裁剪或填充后即可生成。",
+    ratioFitHint_crop: "将以 {model} 支持的最接近比例生成，再居中裁剪到所选比例。",
+    ratioFitHint_pad: "将以 {model} 支持的最接近比例生成，再用模糊背景填充到所选比例。",
+    ratioFit_off: "不调整",
+    ratioFit_crop: "裁剪",
+    ratioFit_pad: "填充",
     uploadPlaceholder: "点击或拖拽上传图片",
     uploadLimitText: "最大 10MB",
     wfUpload: "上传",
@@ -60,20 +87,317 @@ const translations: Record<Language, Record<string, string>> = {
     editing: "修改中...",
     originalImage: "原图",
     waitEditCompletion: "请等待修改图片完成。",
+    lineageTitle: "版本树",
+    lineageSelectBase: "以此版本为基础继续修改",
+    lineageCompare: "对比",
+    lineageCompareHint: "选择两个版本进行对比",
+    lineageDeleteBranch: "删除分支",
+    lineageConfirmDelete: "将删除此版本及其所有后续修改（共 {count} 张图片），此操作无法撤销。",
+    maskToggle: "仅修改选定区域",
+    maskToggleDesc: "在图片上涂抹蒙版，未选中的像素保持不变",
+    maskEmptyHint: "请先在图片上涂抹要修改的区域，否则将修改整张图片",
+    singleEditMode: "单次修改",
+    chatMode: "对话修改",
+    chatTitle: "对话记录",
+    chatNew: "新对话",
+    chatEmpty: "发送第一条指令开始对话，后续指令会基于之前的修改继续",
+    chatUseAsBase: "以此版本为修改基础",
+    chatBranchHint: "当前图片不是对话的最新结果，发送后将从此图片开始新的对话",
+    chatFollowUpPlaceholder: "继续描述修改，例如：再暖一点",
+    maskBrush: "画笔",
+    maskLasso: "套索",
+    maskRect: "矩形",
+    maskBrushSize: "笔刷大小",
+    maskUndo: "撤销",
+    maskInvert: "反选",
+    maskClear: "清除蒙版",
+
+    // Image Details
+    detailsTitle: "生成详情",
+    ppTitle: "后期处理",
+    ppReset: "重置",
+    ppTransform: "旋转与翻转",
+    ppRotateLeft: "向左旋转",
+    ppRotateRight: "向右旋转",
+    ppFlipH: "水平翻转",
+    ppFlipV: "垂直翻转",
+    ppCrop: "裁剪",
+    ppCropNone: "原图",
+    ppCropZoom: "裁剪范围",
+    ppCropX: "水平位置",
+    ppCropY: "垂直位置",
+    ppResize: "尺寸",
+    ppScale: "缩放",
+    ppAdjust: "调整",
+    ppBrightness: "亮度",
+    ppContrast: "对比度",
+    ppExport: "导出格式",
+    ppQuality: "质量",
+    ppSave: "保存为新图片",
+    ppSaveHint: "保存到历史记录，并关联到原图",
+    ppSaved: "处理后的图片已保存",
+    detailsPrompt: "提示词",
+    detailsOperation: "操作类型",
+    detailsModel: "模型",
+    detailsDuration: "耗时",
+    detailsCreated: "创建时间",
+    detailsParent: "来源记录",
+    detailsReferences: "参考图片",
+    detailsModelText: "模型返回文本",
+    operation_generate: "生成",
+    operation_edit: "修改",
+    operation_refine: "微调",
+    operation_matrix: "提示词矩阵",
+    operation_postprocess: "后期处理",
+    detailsGrid: "所属矩阵",
+    detailsTemplate: "模板",
+    detailsCells: "矩阵单元",
+    recordMissing: "该记录已不存在。",
+    reuseSettings: "复用这些设置",
     
     // History
     historyTitle: "最近生成记录",
-    historyDesc: "保留最近 10 张生成结果",
+    historyDesc: "全部生成结果均保存在本地浏览器中",
+    loadMore: "加载更多",
+    loadingMore: "加载中...",
     viewHistory: "查看",
     clearHistory: "清除记录",
     confirmClear: "确定要清除所有历史记录吗？",
     historyCleared: "历史记录已清除",
     deleteRecordTitle: "删除记录",
     confirmDeleteRecord: "确定要删除此历史记录吗？",
+
+    // History Organization
+    historySearchPlaceholder: "搜索提示词，#标签 精确匹配",
+    historyFavoritesOnly: "只看收藏",
+    historyToggleFavorite: "收藏 / 取消收藏",
+    historyFilters: "筛选",
+    historyClearFilters: "清除筛选",
+    historyDateRange: "日期",
+    historyResolution: "分辨率",
+    historyAspectRatio: "比例",
+    historyOperation: "类型",
+    historyNoMatches: "没有符合条件的记录",
+    historyAllBoards: "全部",
+    historyNewBoard: "新建画板",
+    historyBoardNamePlaceholder: "画板名称",
+    historyDeleteBoardTitle: "删除画板",
+    historyConfirmDeleteBoard: "确定要删除画板“{name}”吗？其中的图片仍保留在历史记录中。",
+    historySelect: "多选",
+    historySelected: "已选 {count} 项",
+    historySelectAll: "全选",
+    historyTags: "标签",
+    historyTagsPlaceholder: "标签，用逗号或空格分隔",
+    historyAddTags: "添加",
+    historyRemoveTags: "移除",
+    historyFavorite: "收藏",
+    historyUnfavorite: "取消收藏",
+    historyAddTo: "加入画板…",
+    historyMoveTo: "移动到…",
+    historyRemoveFromBoard: "移出当前画板",
+    historyDeleteSelected: "删除所选",
+    historyConfirmDeleteSelected: "确定要删除所选的 {count} 条记录吗？",
+    historyDone: "退出多选",
+    detailsTags: "标签",
+    backupTitle: "备份",
+    backupDesc: "将全部历史、参考图和画板导出为 ZIP，或从备份恢复。已存在的图片会被跳过，不会覆盖。",
+    backupExport: "导出备份",
+    backupImport: "导入备份",
+    backupExporting: "正在导出…",
+    backupImporting: "正在导入…",
+    backupExportFailed: "导出失败",
+    backupImportFailed: "导入失败",
+    backupReportTitle: "导入结果",
+    backupImported: "已导入 {count} 条记录",
+    backupDuplicates: "跳过 {count} 条重复记录",
+    backupUploads: "已恢复 {count} 张参考图",
+    backupCollections: "已恢复 {count} 个画板",
+    backupConflicts: "{count} 条记录 ID 冲突，已使用新 ID 导入：",
+    backupSkipped: "{count} 条记录未能导入：",
+    backupSkip_invalid: "记录无效",
+    backupSkip_missingFile: "缺少图片文件",
+    backupSkip_corrupt: "图片文件已损坏",
+    storageTitle: "存储空间",
+    storageLoading: "正在统计…",
+    storageUsed: "已使用 {used}",
+    storageUsedOf: "已使用 {used} / {quota}",
+    storageCategory_images: "历史图片",
+    storageCategory_thumbnails: "缩略图",
+    storageCategory_workflows: "工作流",
+    storageCategory_uploads: "参考图",
+    storageCategoryOther: "其他",
+    storagePersisted: "持久存储已开启",
+    storageNotPersisted: "空间不足时浏览器可能清除数据",
+    storagePersistDenied: "浏览器未授予持久存储",
+    storagePersist: "申请持久存储",
+    storageRetention: "保留策略",
+    storageRetentionDesc: "超出限制时从最早的记录开始删除。留空表示不限制。",
+    storageMaxCount: "最多条数",
+    storageMaxSize: "最大容量 (MB)",
+    storageMaxAge: "最长天数",
+    storageNoLimit: "不限",
+    storageKeepFavorites: "始终保留收藏",
+    storageAuto: "每次保存后自动清理",
+    storagePreviewEmpty: "当前没有需要删除的记录",
+    storagePreview: "将删除 {count} 条记录（{size}）：",
+    storagePruneNow: "立即清理",
+    storagePruneTitle: "清理历史记录？",
+    storagePruneDesc: "将永久删除 {count} 条最早的记录，此操作无法撤销。",
+    storageFull: "存储空间已满，图片未能保存。请在存储空间中清理。",
     
     // Dialog
     cancel: "取消",
     confirm: "确认",
+
+    // App Modes
+    modeSimple: "简易模式",
+    modeWorkflow: "工作流模式",
+
+    // Workflow Editor
+    wfModeTitle: "工作流编辑器",
+    wfModeDesc: "连接节点以构建你的生成流程",
+    wfPromptNode: "提示词",
+    wfPromptPlaceholder: "描述你想生成的画面...",
+    wfImageNode: "参考图片",
+    wfEngineNode: "生成引擎",
+    wfModelLabel: "Nano Banana Pro",
+    wfRefineNode: "二次微调",
+    wfEnhanceNode: "提示词优化",
+    wfRefinePlaceholder: "描述如何在此结果上继续调整...",
+    wfOutputNode: "输出结果",
+    wfWaiting: "等待生成...",
+    wfRun: "运行",
+    wfRunAll: "全部运行",
+    wfRunFromHere: "从此节点开始运行",
+    wfAddNode: "添加节点",
+    wfErrCycle: "工作流存在循环连接",
+    wfUntitled: "未命名工作流",
+    wfNew: "新建工作流",
+    wfSave: "保存到工作流库",
+    wfSaved: "工作流已保存",
+    wfSaveFailed: "工作流保存失败",
+    wfLibrary: "工作流库",
+    wfLibraryEmpty: "还没有保存的工作流",
+    wfOpen: "打开",
+    wfDuplicate: "复制",
+    wfCopySuffix: "(副本)",
+    wfDeleteTitle: "删除工作流",
+    wfConfirmDelete: "确定要从工作流库中删除此工作流吗？",
+    wfNodesCount: "个节点",
+    wfImport: "导入 JSON",
+    wfExport: "导出 JSON",
+    wfImported: "工作流已导入",
+    wfImportFailed: "导入失败",
+    wfEmbedImages: "导出时包含参考图片",
+    wfErrUpstreamFailed: "上游节点运行失败",
+    wfErrNoPrompt: "未连接提示词",
+    wfErrPromptRequired: "请输入提示词",
+    wfErrNoInputImage: "未连接输入图片",
+    wfErrSourceMissing: "找不到来源节点",
+    wfErrNoSourceImage: "来源没有图片数据，请先运行生成引擎。",
+    wfErrGenFailed: "生成失败",
+
+    // Job Queue
+    jobQueue: "任务队列",
+    jobQueueEmpty: "暂无任务",
+    jobConcurrency: "并发数",
+    jobCancel: "取消任务",
+    jobCancelled: "任务已取消",
+    jobClearFinished: "清除已结束的任务",
+    job_generate: "生成",
+    job_edit: "修改",
+    job_chat: "对话修改",
+    jobStatus_queued: "排队中",
+    jobStatus_running: "运行中",
+    jobStatus_succeeded: "已完成",
+    jobStatus_failed: "失败",
+    jobStatus_cancelled: "已取消",
+    addToQueue: "加入队列",
+
+    // Batch
+    batchCountTitle: "生成数量",
+    batchProgress: "已完成 {done}/{total}",
+    batchFailed: "{count} 张失败",
+    batchSelectHint: "点击选择要保留的图片",
+    batchPreview: "预览",
+    batchKeep: "保留所选 ({count})",
+    batchDiscard: "全部丢弃",
+
+    // Prompt Matrix
+    matrixToggle: "提示词矩阵",
+    matrixTitle: "矩阵",
+    matrixCells: "{count} 个组合",
+    matrixHint: "在提示词中使用 {红色|蓝色|绿色} 定义一个轴，每个组合都会单独生成。",
+    matrixVaryResolution: "对比分辨率（选择两个以上）",
+    matrixVaryRatio: "对比宽高比（选择两个以上）",
+    matrixTooMany: "组合过多，最多 {max} 个。请减少轴的取值。",
+    matrixNoAxes: "请在提示词中添加 {a|b} 形式的轴，或选择多个分辨率/宽高比。",
+    matrixAllFailed: "矩阵中的所有组合均生成失败。",
+
+    // Prompt Templates & Wildcards
+    wildcardLibrary: "通配符库",
+    wildcardNew: "新建",
+    wildcardImport: "导入",
+    wildcardImportHint: "导入 .txt 文件，每行一个词条，文件名即通配符名称",
+    wildcardEmpty: "还没有通配符",
+    wildcardIntro: "在提示词中写 __名称__ 会从对应列表中选取一个词条，写 ${变量} 则会在生成前填写。",
+    wildcardNamePlaceholder: "名称，例如 color",
+    wildcardValuesPlaceholder: "每行一个词条，# 开头的行会被忽略",
+    wildcardTermCount: "{count} 个词条",
+    wildcardSave: "保存",
+    wildcardDelete: "删除",
+    wildcardDeleteTitle: "删除通配符",
+    wildcardConfirmDelete: "确定要删除通配符 __{name}__ 吗？",
+    wildcardNameTaken: "已存在名为 {name} 的通配符",
+    wildcardSaveFailed: "通配符保存失败",
+    templateVariablePlaceholder: "填写变量",
+    templateModeRandom: "随机",
+    templateModeSequential: "顺序",
+    templateReroll: "重新抽取",
+    templateNext: "下一个",
+    templatePreview: "将发送的提示词",
+    templateMissing: "未填写或未定义：{names}",
+    templateHint: "管理提示词中 __通配符__ 使用的词条列表",
+
+    // Prompt Library
+    promptLibrary: "提示词库",
+    promptLibraryEmpty: "提示词库为空，可从输入框或历史记录保存提示词",
+    promptNoMatches: "没有匹配的提示词",
+    promptSearchPlaceholder: "搜索标题、内容或 #标签",
+    promptFavorite: "收藏",
+    promptFavoritesOnly: "只看收藏",
+    promptSaveTitle: "保存到提示词库",
+    promptEditTitle: "编辑提示词",
+    promptTitlePlaceholder: "标题",
+    promptTagsPlaceholder: "标签，用逗号分隔",
+    promptIncludeImages: "包含参考图 ({count})",
+    promptSave: "保存",
+    promptSaved: "已保存到提示词库",
+    promptSaveFailed: "提示词保存失败",
+    promptDeleteTitle: "删除提示词",
+    promptConfirmDelete: "确定要从提示词库中删除「{title}」吗？",
+    promptImport: "导入提示词包 (JSON)",
+    promptExport: "导出当前列表 (JSON)",
+    promptImported: "已导入 {count} 条提示词",
+    promptImportFailed: "导入失败",
+    promptExportFailed: "导出失败",
+
+    // Prompt Rewrite
+    rewriteEnhance: "优化",
+    rewriteToEnglish: "译为英文",
+    rewriteToChinese: "译为中文",
+    rewriteTitle_enhance: "优化后的提示词",
+    rewriteTitle_toEnglish: "英文翻译",
+    rewriteTitle_toChinese: "中文翻译",
+    rewriteAccept: "采用",
+    rewriteReject: "放弃",
+
+    // Image Metadata
+    metadataLoad: "从图片载入设置",
+    metadataDrop: "松开以读取设置",
+    metadataLoadHint: "拖入或选择从这里下载的 PNG/JPEG，恢复其提示词、分辨率和比例",
+    metadataLoaded: "已从图片载入设置",
+    metadataMissing: "这张图片没有可读取的生成信息",
   },
   en: {
     appTitle: "Nano Banana Studio",
@@ -85,6 +409,9 @@ const translations: Record<Language, Record<string, string>> = {
     footer: "Nano Banana Studio.",
     authorBy: "Power by",
     lastUpdated: "Last Updated: ",
+    providerTitle: "Switch generation backend",
+    providerGemini: "Gemini",
+    providerMock: "Offline Mock",
     
     // Text Generator
     promptTitle: "Prompt Input",
@@ -99,9 +426,33 @@ const translations: Record<Language, Record<string, string>> = {
     genSuccess: "Image generated successfully!",
     editSuccess: "Modification Successful!",
     errorGen: "Failed to generate image. Please try again.",
+    errQuota: "Rate limit or quota reached, even after automatic retries. Wait a moment or check your API quota.",
+    errSafety: "Blocked by the safety filter ({reason}). Adjust the prompt or reference images and try again.",
+    errInvalidArgument: "Invalid request: {detail}. Check the prompt, images and settings.",
+    errNetwork: "Network error, even after automatic retries. Check your connection and try again.",
+    errTimeout: "The request timed out. Try a lower resolution or try again later.",
+    errNoImage: "The model returned no image. Try rephrasing the prompt.",
+    errNoImageWithText: "The model returned no image and replied: \"{text}\". Adjust the prompt accordingly and try again.",
     genErrorToast: "Something went wrong. Please try again.",
     fileTooLarge: "Image size cannot exceed 10MB",
-    uploadTitle: "Reference Images (Max 2)",
+    uploadTitle: "Reference Images (Max {max})",
+    referenceRole: "Reference role",
+    referenceRole_none: "Reference",
+    referenceRole_subject: "Subject",
+    referenceRole_style: "Style",
+    referenceRole_composition: "Composition",
+    capTooManyReferences: "{model} accepts up to {max} reference images, you have {count}. Remove the extra ones.",
+    capReferencesAt4K: "{model} doesn't support reference images at 4K. Switch to 2K or remove the references.",
+    capResolution: "{model} doesn't support {resolution} output.",
+    capReferencesSkipped: "{model} accepts up to {max} reference images; {count} were left out.",
+    capAspectRatio: "{model} doesn't support {ratio}. Choose crop or pad to generate at the nearest ratio ({nearest}) and adjust it locally.",
+    ratioUnsupportedTitle: "Not natively supported by {model}",
+    ratioFitOffHint: "{model} doesn't support the selected ratio natively. Choose crop or pad to generate it anyway.",
+    ratioFitHint_crop: "Generates at the nearest ratio {model} supports, then crops the center to the selected ratio.",
+    ratioFitHint_pad: "Generates at the nearest ratio {model} supports, then pads it to the selected ratio over a blurred background.",
+    ratioFit_off: "Off",
+    ratioFit_crop: "Crop",
+    ratioFit_pad: "Pad",
     uploadPlaceholder: "Click or drag to upload image",
     uploadLimitText: "Max 10MB",
     wfUpload: "Upload",
@@ -125,10 +476,79 @@ const translations: Record<Language, Record<string, string>> = {
     editing: "Modifying...",
     originalImage: "Original",
     waitEditCompletion: "Please wait for the image modification to complete.",
+    lineageTitle: "Version Tree",
+    lineageSelectBase: "Continue editing from this version",
+    lineageCompare: "Compare",
+    lineageCompareHint: "Select two versions to compare",
+    lineageDeleteBranch: "Delete Branch",
+    lineageConfirmDelete: "This version and all edits derived from it ({count} images) will be deleted. This cannot be undone.",
+    maskToggle: "Only modify a selected area",
+    maskToggleDesc: "Paint a mask over the image; unselected pixels stay untouched",
+    maskEmptyHint: "Paint the area to change first, otherwise the whole image is modified",
+    singleEditMode: "Single edit",
+    chatMode: "Conversation",
+    chatTitle: "Conversation",
+    chatNew: "New conversation",
+    chatEmpty: "Send a first instruction to start; follow-ups build on the earlier edits",
+    chatUseAsBase: "Use this version as the edit base",
+    chatBranchHint: "This image isn't the latest result of the conversation; sending starts a new conversation from it",
+    chatFollowUpPlaceholder: "Describe the next change, e.g. make it a bit warmer",
+    maskBrush: "Brush",
+    maskLasso: "Lasso",
+    maskRect: "Rectangle",
+    maskBrushSize: "Brush size",
+    maskUndo: "Undo",
+    maskInvert: "Invert",
+    maskClear: "Clear mask",
+
+    // Image Details
+    detailsTitle: "Generation Details",
+    ppTitle: "Post-processing",
+    ppReset: "Reset",
+    ppTransform: "Rotate & flip",
+    ppRotateLeft: "Rotate left",
+    ppRotateRight: "Rotate right",
+    ppFlipH: "Flip horizontally",
+    ppFlipV: "Flip vertically",
+    ppCrop: "Crop",
+    ppCropNone: "Original",
+    ppCropZoom: "Crop size",
+    ppCropX: "Horizontal position",
+    ppCropY: "Vertical position",
+    ppResize: "Size",
+    ppScale: "Scale",
+    ppAdjust: "Adjust",
+    ppBrightness: "Brightness",
+    ppContrast: "Contrast",
+    ppExport: "Export format",
+    ppQuality: "Quality",
+    ppSave: "Save as new",
+    ppSaveHint: "Save to history, linked to the original",
+    ppSaved: "Processed image saved",
+    detailsPrompt: "Prompt",
+    detailsOperation: "Operation",
+    detailsModel: "Model",
+    detailsDuration: "Duration",
+    detailsCreated: "Created",
+    detailsParent: "Derived from",
+    detailsReferences: "Reference Images",
+    detailsModelText: "Model Response Text",
+    operation_generate: "Generate",
+    operation_edit: "Edit",
+    operation_refine: "Refine",
+    operation_matrix: "Prompt Matrix",
+    operation_postprocess: "Post-processing",
+    detailsGrid: "Matrix Grid",
+    detailsTemplate: "Template",
+    detailsCells: "Matrix Cells",
+    recordMissing: "This record no longer exists.",
+    reuseSettings: "Reuse settings",
     
     // History
     historyTitle: "Recent History",
-    historyDesc: "Last 10 generations kept locally",
+    historyDesc: "All generations are stored locally in your browser",
+    loadMore: "Load more",
+    loadingMore: "Loading...",
     viewHistory: "View",
     clearHistory: "Clear History",
     confirmClear: "Are you sure you want to clear all history?",
@@ -136,9 +556,237 @@ const translations: Record<Language, Record<string, string>> = {
     deleteRecordTitle: "Delete Record",
     confirmDeleteRecord: "Are you sure you want to delete this history record?",
 
+    // History Organization
+    historySearchPlaceholder: "Search prompts, #tag for exact tags",
+    historyFavoritesOnly: "Favorites only",
+    historyToggleFavorite: "Favorite / unfavorite",
+    historyFilters: "Filters",
+    historyClearFilters: "Clear filters",
+    historyDateRange: "Date",
+    historyResolution: "Resolution",
+    historyAspectRatio: "Ratio",
+    historyOperation: "Type",
+    historyNoMatches: "No records match these filters",
+    historyAllBoards: "All",
+    historyNewBoard: "New board",
+    historyBoardNamePlaceholder: "Board name",
+    historyDeleteBoardTitle: "Delete Board",
+    historyConfirmDeleteBoard: "Delete the board \"{name}\"? Its images stay in your history.",
+    historySelect: "Select",
+    historySelected: "{count} selected",
+    historySelectAll: "Select all",
+    historyTags: "Tags",
+    historyTagsPlaceholder: "Tags, comma or space separated",
+    historyAddTags: "Add",
+    historyRemoveTags: "Remove",
+    historyFavorite: "Favorite",
+    historyUnfavorite: "Unfavorite",
+    historyAddTo: "Add to board…",
+    historyMoveTo: "Move to…",
+    historyRemoveFromBoard: "Remove from this board",
+    historyDeleteSelected: "Delete selected",
+    historyConfirmDeleteSelected: "Delete the {count} selected records?",
+    historyDone: "Exit selection",
+    detailsTags: "Tags",
+    backupTitle: "Backup",
+    backupDesc: "Export all history, reference images and boards as a ZIP, or restore from a backup. Images already stored are skipped, never overwritten.",
+    backupExport: "Export backup",
+    backupImport: "Import backup",
+    backupExporting: "Exporting…",
+    backupImporting: "Importing…",
+    backupExportFailed: "Export failed",
+    backupImportFailed: "Import failed",
+    backupReportTitle: "Import results",
+    backupImported: "{count} records imported",
+    backupDuplicates: "{count} duplicates skipped",
+    backupUploads: "{count} reference images restored",
+    backupCollections: "{count} boards restored",
+    backupConflicts: "{count} records had conflicting IDs and were imported under new IDs:",
+    backupSkipped: "{count} records could not be imported:",
+    backupSkip_invalid: "Invalid record",
+    backupSkip_missingFile: "Image file missing",
+    backupSkip_corrupt: "Image file corrupt",
+    storageTitle: "Storage",
+    storageLoading: "Measuring…",
+    storageUsed: "{used} used",
+    storageUsedOf: "{used} of {quota} used",
+    storageCategory_images: "History images",
+    storageCategory_thumbnails: "Thumbnails",
+    storageCategory_workflows: "Workflows",
+    storageCategory_uploads: "Reference images",
+    storageCategoryOther: "Other",
+    storagePersisted: "Persistent storage is on",
+    storageNotPersisted: "The browser may clear data when space runs low",
+    storagePersistDenied: "The browser did not grant persistent storage",
+    storagePersist: "Request persistent storage",
+    storageRetention: "Retention",
+    storageRetentionDesc: "Past a limit, the oldest records are deleted first. Leave a field empty for no limit.",
+    storageMaxCount: "Max records",
+    storageMaxSize: "Max size (MB)",
+    storageMaxAge: "Max age (days)",
+    storageNoLimit: "No limit",
+    storageKeepFavorites: "Always keep favorites",
+    storageAuto: "Clean up automatically after each save",
+    storagePreviewEmpty: "Nothing to delete right now",
+    storagePreview: "{count} records ({size}) will be deleted:",
+    storagePruneNow: "Clean up now",
+    storagePruneTitle: "Clean up history?",
+    storagePruneDesc: "The {count} oldest records will be permanently deleted. This cannot be undone.",
+    storageFull: "Storage is full, so the image wasn't saved. Free up space under Storage.",
+
     // Dialog
     cancel: "Cancel",
     confirm: "Confirm",
+
+    // App Modes
+    modeSimple: "Simple",
+    modeWorkflow: "Workflow",
+
+    // Workflow Editor
+    wfModeTitle: "Workflow Editor",
+    wfModeDesc: "Connect nodes to build your generation pipeline",
+    wfPromptNode: "Prompt",
+    wfPromptPlaceholder: "Describe the image you want...",
+    wfImageNode: "Reference Image",
+    wfEngineNode: "Generator",
+    wfModelLabel: "Nano Banana Pro",
+    wfRefineNode: "Refine",
+    wfEnhanceNode: "Enhance Prompt",
+    wfRefinePlaceholder: "Describe how to refine this result...",
+    wfOutputNode: "Output",
+    wfWaiting: "Waiting for generation...",
+    wfRun: "Run",
+    wfRunAll: "Run all",
+    wfRunFromHere: "Run from this node",
+    wfAddNode: "Add node",
+    wfErrCycle: "Workflow contains a cycle",
+    wfUntitled: "Untitled workflow",
+    wfNew: "New workflow",
+    wfSave: "Save to library",
+    wfSaved: "Workflow saved",
+    wfSaveFailed: "Failed to save workflow",
+    wfLibrary: "Workflow library",
+    wfLibraryEmpty: "No saved workflows yet",
+    wfOpen: "Open",
+    wfDuplicate: "Duplicate",
+    wfCopySuffix: "(copy)",
+    wfDeleteTitle: "Delete workflow",
+    wfConfirmDelete: "Are you sure you want to delete this workflow from the library?",
+    wfNodesCount: "nodes",
+    wfImport: "Import JSON",
+    wfExport: "Export JSON",
+    wfImported: "Workflow imported",
+    wfImportFailed: "Import failed",
+    wfEmbedImages: "Embed reference images on export",
+    wfErrUpstreamFailed: "An upstream node failed",
+    wfErrNoPrompt: "No prompt provided",
+    wfErrPromptRequired: "Prompt required",
+    wfErrNoInputImage: "No input image connected",
+    wfErrSourceMissing: "Source node not found",
+    wfErrNoSourceImage: "No image data from source. Run generator first.",
+    wfErrGenFailed: "Generation failed",
+
+    // Job Queue
+    jobQueue: "Queue",
+    jobQueueEmpty: "No jobs yet",
+    jobConcurrency: "Concurrency",
+    jobCancel: "Cancel job",
+    jobCancelled: "Job cancelled",
+    jobClearFinished: "Clear finished jobs",
+    job_generate: "Generate",
+    job_edit: "Edit",
+    job_chat: "Chat edit",
+    jobStatus_queued: "Queued",
+    jobStatus_running: "Running",
+    jobStatus_succeeded: "Done",
+    jobStatus_failed: "Failed",
+    jobStatus_cancelled: "Cancelled",
+    addToQueue: "Add to Queue",
+
+    // Batch
+    batchCountTitle: "Count",
+    batchProgress: "{done}/{total} done",
+    batchFailed: "{count} failed",
+    batchSelectHint: "Click images to select the ones to keep",
+    batchPreview: "Preview",
+    batchKeep: "Keep Selected ({count})",
+    batchDiscard: "Discard All",
+
+    // Prompt Matrix
+    matrixToggle: "Prompt matrix",
+    matrixTitle: "Matrix",
+    matrixCells: "{count} combinations",
+    matrixHint: "Use {red|blue|green} in the prompt to define an axis; every combination is generated.",
+    matrixVaryResolution: "Compare resolutions (pick two or more)",
+    matrixVaryRatio: "Compare aspect ratios (pick two or more)",
+    matrixTooMany: "Too many combinations, the maximum is {max}. Reduce the axis values.",
+    matrixNoAxes: "Add an axis like {a|b} to the prompt, or pick several resolutions or aspect ratios.",
+    matrixAllFailed: "Every combination in the matrix failed.",
+
+    // Prompt Templates & Wildcards
+    wildcardLibrary: "Wildcards",
+    wildcardNew: "New",
+    wildcardImport: "Import",
+    wildcardImportHint: "Import .txt files with one term per line; the file name becomes the wildcard name",
+    wildcardEmpty: "No wildcards yet",
+    wildcardIntro: "Write __name__ in a prompt to pick a term from that list, and ${variable} for a value you fill in before generating.",
+    wildcardNamePlaceholder: "Name, e.g. color",
+    wildcardValuesPlaceholder: "One term per line; lines starting with # are ignored",
+    wildcardTermCount: "{count} terms",
+    wildcardSave: "Save",
+    wildcardDelete: "Delete",
+    wildcardDeleteTitle: "Delete wildcard",
+    wildcardConfirmDelete: "Are you sure you want to delete the wildcard __{name}__?",
+    wildcardNameTaken: "A wildcard named {name} already exists",
+    wildcardSaveFailed: "Failed to save wildcard",
+    templateVariablePlaceholder: "Value",
+    templateModeRandom: "Random",
+    templateModeSequential: "Sequential",
+    templateReroll: "Reroll",
+    templateNext: "Next",
+    templatePreview: "Prompt to be sent",
+    templateMissing: "Not filled in or not defined: {names}",
+    templateHint: "Manage the term lists used by __wildcards__ in prompts",
+
+    // Prompt Library
+    promptLibrary: "Prompt Library",
+    promptLibraryEmpty: "No saved prompts yet. Save one from the prompt input or any history item.",
+    promptNoMatches: "No matching prompts",
+    promptSearchPlaceholder: "Search title, text or #tag",
+    promptFavorite: "Favorite",
+    promptFavoritesOnly: "Favorites only",
+    promptSaveTitle: "Save to prompt library",
+    promptEditTitle: "Edit prompt",
+    promptTitlePlaceholder: "Title",
+    promptTagsPlaceholder: "Tags, comma separated",
+    promptIncludeImages: "Include reference images ({count})",
+    promptSave: "Save",
+    promptSaved: "Saved to prompt library",
+    promptSaveFailed: "Failed to save prompt",
+    promptDeleteTitle: "Delete prompt",
+    promptConfirmDelete: "Are you sure you want to delete \"{title}\" from the prompt library?",
+    promptImport: "Import prompt pack (JSON)",
+    promptExport: "Export current list (JSON)",
+    promptImported: "Imported {count} prompts",
+    promptImportFailed: "Import failed",
+    promptExportFailed: "Export failed",
+
+    // Prompt Rewrite
+    rewriteEnhance: "Enhance",
+    rewriteToEnglish: "To English",
+    rewriteToChinese: "To Chinese",
+    rewriteTitle_enhance: "Enhanced prompt",
+    rewriteTitle_toEnglish: "English translation",
+    rewriteTitle_toChinese: "Chinese translation",
+    rewriteAccept: "Accept",
+    rewriteReject: "Reject",
+
+    // Image Metadata
+    metadataLoad: "Load from image",
+    metadataDrop: "Drop to read settings",
+    metadataLoadHint: "Drop or pick a PNG/JPEG downloaded from here to restore its prompt, resolution and aspect ratio",
+    metadataLoaded: "Settings loaded from image",
+    metadataMissing: "This image has no readable generation metadata",
   }
 };
 
@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Brush, Lasso, Square, Undo2, FlipHorizontal2, Eraser } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { cn } from '../lib/utils';
+import { exportMask, isMaskEmpty } from '../lib/mask';
+
+type MaskTool = 'brush' | 'lasso' | 'rect';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  /** Called after every change with the exported mask, or null when nothing is painted. */
+  onChange: (mask: string | null) => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MASK_COLOR = 'rgb(168, 85, 247)';
+const MAX_UNDO = 10;
+
+const TOOLS: { id: MaskTool; icon: React.ElementType; labelKey: string }[] = [
+  { id: 'brush', icon: Brush, labelKey: 'maskBrush' },
+  { id: 'lasso', icon: Lasso, labelKey: 'maskLasso' },
+  { id: 'rect', icon: Square, labelKey: 'maskRect' },
+];
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, onChange }) => {
+  const { t } = useLanguage();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [canUndo, setCanUndo] = useState(false);
+
+  const undoStack = useRef<ImageData[]>([]);
+  // Snapshot taken on pointer down; rect/lasso previews redraw from it
+  const stroke = useRef<{ snapshot: ImageData; points: Point[] } | null>(null);
+
+  const getCtx = () => canvasRef.current?.getContext('2d') || null;
+
+  const emitChange = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    onChange(isMaskEmpty(canvas) ? null : exportMask(canvas));
+  };
+
+  // Mask resolution follows the image, not the on-screen size
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      undoStack.current = [];
+      setCanUndo(false);
+      onChange(null);
+    };
+    img.src = imageUrl;
+  }, [imageUrl]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  // Brush size is given in on-screen pixels so it feels the same at any resolution
+  const scaledBrush = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return brushSize;
+    return brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+  };
+
+  const pushUndo = (snapshot: ImageData) => {
+    undoStack.current = [...undoStack.current, snapshot].slice(-MAX_UNDO);
+    setCanUndo(true);
+  };
+
+  const drawShape = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+    const [start] = points;
+    const end = points[points.length - 1];
+    ctx.fillStyle = MASK_COLOR;
+    ctx.strokeStyle = MASK_COLOR;
+
+    if (tool === 'rect') {
+      ctx.fillRect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+    } else if (tool === 'lasso') {
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.fill();
+    } else {
+      ctx.lineWidth = scaledBrush();
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      // A single click still leaves a dot
+      (points.length > 1 ? points.slice(1) : points).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.stroke();
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = getCtx();
+    const canvas = canvasRef.current;
+    if (!ctx || !canvas || !canvas.width) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const snapshot = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    stroke.current = { snapshot, points: [toCanvasPoint(e)] };
+    drawShape(ctx, stroke.current.points);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = getCtx();
+    if (!ctx || !stroke.current) return;
+    stroke.current.points.push(toCanvasPoint(e));
+    ctx.putImageData(stroke.current.snapshot, 0, 0);
+    drawShape(ctx, stroke.current.points);
+  };
+
+  const handlePointerUp = () => {
+    if (!stroke.current) return;
+    pushUndo(stroke.current.snapshot);
+    stroke.current = null;
+    emitChange();
+  };
+
+  const handleUndo = () => {
+    const ctx = getCtx();
+    const previous = undoStack.current.pop();
+    if (!ctx || !previous) return;
+    ctx.putImageData(previous, 0, 0);
+    setCanUndo(undoStack.current.length > 0);
+    emitChange();
+  };
+
+  const handleInvert = () => {
+    const ctx = getCtx();
+    const canvas = canvasRef.current;
+    if (!ctx || !canvas) return;
+    pushUndo(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    ctx.save();
+    // Painted pixels turn transparent, empty ones get painted
+    ctx.globalCompositeOperation = 'xor';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+    emitChange();
+  };
+
+  const handleClear = () => {
+    const ctx = getCtx();
+    const canvas = canvasRef.current;
+    if (!ctx || !canvas) return;
+    pushUndo(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    emitChange();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative w-full rounded-lg overflow-hidden border border-zinc-800 bg-zinc-900">
+        <img src={imageUrl} alt="Target" className="w-full h-auto block select-none" draggable={false} />
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+
+      <div className="flex items-center gap-1">
+        {TOOLS.map(({ id, icon: Icon, labelKey }) => (
+          <button
+            key={id}
+            onClick={() => setTool(id)}
+            className={cn(
+              "p-2 rounded-md transition-colors",
+              tool === id ? "bg-purple-900/40 text-purple-300" : "text-zinc-400 hover:text-white hover:bg-zinc-800"
+            )}
+            title={t(labelKey)}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+        <div className="w-px h-5 bg-zinc-800 mx-1" />
+        <button
+          onClick={handleUndo}
+          disabled={!canUndo}
+          className="p-2 rounded-md text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+          title={t('maskUndo')}
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleInvert}
+          className="p-2 rounded-md text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+          title={t('maskInvert')}
+        >
+          <FlipHorizontal2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleClear}
+          className="p-2 rounded-md text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+          title={t('maskClear')}
+        >
+          <Eraser className="w-4 h-4" />
+        </button>
+      </div>
+
+      {tool === 'brush' && (
+        <label className="flex items-center gap-3 text-xs text-zinc-400">
+          {t('maskBrushSize')}
+          <input
+            type="range"
+            min={5}
+            max={120}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="flex-1 accent-purple-500"
+          />
+          <span className="w-8 text-right font-mono">{brushSize}</span>
+        </label>
+      )}
+    </div>
+  );
+};
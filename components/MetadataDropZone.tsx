@@ -0,0 +1,77 @@
+import React, { useRef, useState } from 'react';
+import { FileImage } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { cn } from '../lib/utils';
+import { ImageMetadata, readImageMetadata } from '../lib/imageMetadata';
+
+interface MetadataDropZoneProps {
+  onLoad: (metadata: ImageMetadata) => void;
+  /** The file had no readable metadata, e.g. it wasn't downloaded from here. */
+  onMissing: () => void;
+}
+
+/**
+ * "Load from image": accepts a dropped or picked file and hands back the
+ * generation settings a previous download embedded in it.
+ */
+export const MetadataDropZone: React.FC<MetadataDropZoneProps> = ({ onLoad, onMissing }) => {
+  const { t } = useLanguage();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const readFile = async (file?: File) => {
+    if (!file) return;
+    const metadata = await readImageMetadata(file).catch(e => {
+      console.warn("Metadata Read Failed", e);
+      return null;
+    });
+    if (metadata) {
+      onLoad(metadata);
+    } else {
+      onMissing();
+    }
+  };
+
+  return (
+    <>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') inputRef.current?.click();
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          readFile(e.dataTransfer.files[0]);
+        }}
+        className={cn(
+          "flex items-center justify-center gap-2 px-3 py-2 rounded-md border border-dashed text-xs cursor-pointer transition-colors",
+          isDragging
+            ? "border-primary bg-primary/10 text-white"
+            : "border-zinc-800 text-zinc-500 hover:border-zinc-600 hover:text-zinc-300"
+        )}
+        title={t('metadataLoadHint')}
+      >
+        <FileImage className="w-3.5 h-3.5" />
+        {isDragging ? t('metadataDrop') : t('metadataLoad')}
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/png,image/jpeg"
+        className="hidden"
+        onChange={(e) => {
+          readFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+    </>
+  );
+};
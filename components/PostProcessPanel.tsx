@@ -0,0 +1,355 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FlipHorizontal2, FlipVertical2, RotateCcw, RotateCw, Save, SlidersHorizontal, X } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { cn } from '../lib/utils';
+import { GeneratedImage } from '../types';
+import { downloadImage, loadImageElement } from '../lib/image';
+import { ImageMetadata, buildImageMetadata } from '../lib/imageMetadata';
+import { getImageMetadata } from '../services/historyStore';
+import {
+  CropPreset,
+  DEFAULT_POST_PROCESS,
+  EXPORT_FORMATS,
+  ExportFormat,
+  PostProcessSettings,
+  Rotation,
+  exportCanvas,
+  isUnchanged,
+  outputSize,
+  renderPostProcess,
+} from '../lib/postProcess';
+
+interface PostProcessPanelProps {
+  image: GeneratedImage;
+  onClose: () => void;
+  /** Receives the processed image as a data URL. */
+  onSave: (url: string) => void;
+}
+
+const CROP_PRESETS: { label: string; value: CropPreset }[] = [
+  { label: '1:1', value: [1, 1] },
+  { label: '4:3', value: [4, 3] },
+  { label: '3:4', value: [3, 4] },
+  { label: '3:2', value: [3, 2] },
+  { label: '2:3', value: [2, 3] },
+  { label: '16:9', value: [16, 9] },
+  { label: '9:16', value: [9, 16] },
+];
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WebP',
+};
+
+// Live preview works on a downscaled copy; the export uses the full image
+const PREVIEW_SIZE = 640;
+
+const Slider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  display: string;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step = 1, display, onChange }) => (
+  <label className="block space-y-1">
+    <span className="flex justify-between text-[11px] text-zinc-400">
+      {label}
+      <span className="font-mono text-zinc-500">{display}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full accent-purple-500"
+    />
+  </label>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-2">
+    <h4 className="text-[10px] uppercase tracking-wider text-zinc-500">{title}</h4>
+    {children}
+  </section>
+);
+
+export const PostProcessPanel: React.FC<PostProcessPanelProps> = ({ image, onClose, onSave }) => {
+  const { t } = useLanguage();
+  const [settings, setSettings] = useState<PostProcessSettings>(DEFAULT_POST_PROCESS);
+  const [format, setFormat] = useState<ExportFormat>('image/png');
+  const [quality, setQuality] = useState(0.9);
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const previewSourceRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSettings(DEFAULT_POST_PROCESS);
+    loadImageElement(image.url)
+      .then(img => {
+        if (cancelled) return;
+        const scale = Math.min(1, PREVIEW_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+        canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+        canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        previewSourceRef.current = canvas;
+        setSource(img);
+      })
+      .catch(e => console.warn("Post-process Load Failed", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [image.url]);
+
+  useEffect(() => {
+    const preview = previewSourceRef.current;
+    if (!source || !preview) return;
+    // Keep the preview cheap: render at preview size whatever the output scale is
+    const rendered = renderPostProcess(preview, preview.width, preview.height, { ...settings, scale: 100 });
+    setPreviewUrl(rendered.toDataURL('image/jpeg', 0.85));
+  }, [source, settings]);
+
+  const update = (patch: Partial<PostProcessSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+  const rotate = (delta: number) => update({ rotation: (((settings.rotation + delta) % 360 + 360) % 360) as Rotation });
+
+  const renderFull = (): string | null => {
+    if (!source) return null;
+    const canvas = renderPostProcess(source, source.naturalWidth, source.naturalHeight, settings);
+    return exportCanvas(canvas, format, quality);
+  };
+
+  // The export is a new, unsaved step on top of the source image's lineage
+  const processedMetadata = async (): Promise<ImageMetadata> => {
+    const parent = await getImageMetadata(image.id).catch(() => null) || buildImageMetadata(image);
+    return {
+      ...parent,
+      id: undefined,
+      operation: 'postprocess',
+      timestamp: Date.now(),
+      lineage: [...parent.lineage, { id: image.id, operation: parent.operation, prompt: parent.prompt, timestamp: parent.timestamp }],
+    };
+  };
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    try {
+      const url = renderFull();
+      if (url) await downloadImage(url, `nano-banana-${Date.now()}`, await processedMetadata());
+    } catch (e) {
+      console.warn("Post-process Export Failed", e);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleSave = () => {
+    try {
+      const url = renderFull();
+      if (url) onSave(url);
+    } catch (e) {
+      console.warn("Post-process Export Failed", e);
+    }
+  };
+
+  const size = source ? outputSize(source.naturalWidth, source.naturalHeight, settings) : null;
+  const isCropped = settings.crop !== null || settings.cropZoom < 1;
+
+  return (
+    <div
+      className="w-full sm:w-80 max-h-[85vh] flex flex-col bg-zinc-950/95 border border-zinc-800 rounded-xl shadow-2xl animate-in fade-in slide-in-from-right-4 duration-200"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+        <h3 className="text-sm font-bold text-zinc-200 flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-zinc-400" />
+          {t('ppTitle')}
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setSettings(DEFAULT_POST_PROCESS)}
+            disabled={isUnchanged(settings)}
+            className="px-2 py-1 rounded text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40 transition-colors"
+          >
+            {t('ppReset')}
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5">
+        <div className="flex items-center justify-center h-40 rounded-lg bg-[repeating-conic-gradient(#27272a_0%_25%,#18181b_0%_50%)] bg-[length:16px_16px] overflow-hidden">
+          {previewUrl && <img src={previewUrl} alt={t('ppTitle')} className="max-w-full max-h-full object-contain" />}
+        </div>
+        {size && (
+          <p className="text-center text-[11px] font-mono text-zinc-500">{size.width}×{size.height}</p>
+        )}
+
+        <Section title={t('ppTransform')}>
+          <div className="grid grid-cols-4 gap-1">
+            {[
+              { icon: RotateCcw, title: t('ppRotateLeft'), onClick: () => rotate(-90), active: false },
+              { icon: RotateCw, title: t('ppRotateRight'), onClick: () => rotate(90), active: false },
+              { icon: FlipHorizontal2, title: t('ppFlipH'), onClick: () => update({ flipH: !settings.flipH }), active: settings.flipH },
+              { icon: FlipVertical2, title: t('ppFlipV'), onClick: () => update({ flipV: !settings.flipV }), active: settings.flipV },
+            ].map(({ icon: Icon, title, onClick, active }) => (
+              <button
+                key={title}
+                onClick={onClick}
+                title={title}
+                className={cn(
+                  "flex items-center justify-center py-2 rounded border transition-colors",
+                  active ? "bg-zinc-800 border-primary text-white" : "bg-zinc-950 border-zinc-800 text-zinc-400 hover:bg-zinc-900"
+                )}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+          </div>
+        </Section>
+
+        <Section title={t('ppCrop')}>
+          <div className="flex flex-wrap gap-1">
+            <button
+              onClick={() => update({ crop: null, cropZoom: 1, cropX: 0.5, cropY: 0.5 })}
+              className={cn(
+                "px-2 py-1 rounded border text-[11px] transition-colors",
+                !isCropped ? "bg-zinc-800 border-primary text-white" : "bg-zinc-950 border-zinc-800 text-zinc-500 hover:bg-zinc-900"
+              )}
+            >
+              {t('ppCropNone')}
+            </button>
+            {CROP_PRESETS.map(preset => (
+              <button
+                key={preset.label}
+                onClick={() => update({ crop: preset.value })}
+                className={cn(
+                  "px-2 py-1 rounded border text-[11px] font-mono transition-colors",
+                  settings.crop?.join(':') === preset.label
+                    ? "bg-zinc-800 border-primary text-white"
+                    : "bg-zinc-950 border-zinc-800 text-zinc-500 hover:bg-zinc-900"
+                )}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <Slider
+            label={t('ppCropZoom')}
+            value={Math.round(settings.cropZoom * 100)}
+            min={10}
+            max={100}
+            display={`${Math.round(settings.cropZoom * 100)}%`}
+            onChange={(v) => update({ cropZoom: v / 100 })}
+          />
+          {isCropped && (
+            <div className="grid grid-cols-2 gap-3">
+              <Slider
+                label={t('ppCropX')}
+                value={Math.round(settings.cropX * 100)}
+                min={0}
+                max={100}
+                display={`${Math.round(settings.cropX * 100)}%`}
+                onChange={(v) => update({ cropX: v / 100 })}
+              />
+              <Slider
+                label={t('ppCropY')}
+                value={Math.round(settings.cropY * 100)}
+                min={0}
+                max={100}
+                display={`${Math.round(settings.cropY * 100)}%`}
+                onChange={(v) => update({ cropY: v / 100 })}
+              />
+            </div>
+          )}
+        </Section>
+
+        <Section title={t('ppResize')}>
+          <Slider
+            label={t('ppScale')}
+            value={settings.scale}
+            min={10}
+            max={200}
+            step={5}
+            display={`${settings.scale}%`}
+            onChange={(v) => update({ scale: v })}
+          />
+        </Section>
+
+        <Section title={t('ppAdjust')}>
+          <Slider
+            label={t('ppBrightness')}
+            value={settings.brightness}
+            min={0}
+            max={200}
+            display={`${settings.brightness}%`}
+            onChange={(v) => update({ brightness: v })}
+          />
+          <Slider
+            label={t('ppContrast')}
+            value={settings.contrast}
+            min={0}
+            max={200}
+            display={`${settings.contrast}%`}
+            onChange={(v) => update({ contrast: v })}
+          />
+        </Section>
+
+        <Section title={t('ppExport')}>
+          <div className="grid grid-cols-3 gap-1">
+            {EXPORT_FORMATS.map(f => (
+              <button
+                key={f}
+                onClick={() => setFormat(f)}
+                className={cn(
+                  "py-1.5 rounded border text-xs font-medium transition-colors",
+                  format === f ? "bg-zinc-800 border-primary text-white" : "bg-zinc-950 border-zinc-800 text-zinc-500 hover:bg-zinc-900"
+                )}
+              >
+                {FORMAT_LABELS[f]}
+              </button>
+            ))}
+          </div>
+          {format !== 'image/png' && (
+            <Slider
+              label={t('ppQuality')}
+              value={Math.round(quality * 100)}
+              min={10}
+              max={100}
+              display={`${Math.round(quality * 100)}%`}
+              onChange={(v) => setQuality(v / 100)}
+            />
+          )}
+        </Section>
+      </div>
+
+      <div className="p-4 border-t border-zinc-800 grid grid-cols-2 gap-2">
+        <button
+          onClick={handleDownload}
+          disabled={!source || isExporting}
+          className="flex items-center justify-center gap-2 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-sm text-white transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          {t('download')}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!source || (isUnchanged(settings) && format === 'image/png')}
+          className="flex items-center justify-center gap-2 py-2 rounded-lg bg-primary hover:bg-primary/90 disabled:opacity-50 text-sm text-white font-medium transition-colors"
+          title={t('ppSaveHint')}
+        >
+          <Save className="w-4 h-4" />
+          {t('ppSave')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,271 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookMarked, Download, Pencil, Search, Star, Trash2, Upload, X } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { AlertDialog } from './ui/AlertDialog';
+import { SavePromptDialog } from './SavePromptDialog';
+import { cn } from '../lib/utils';
+import { AspectRatio, Resolution, SavedPrompt } from '../types';
+import { parsePromptPack } from '../lib/promptPack';
+import { deletePrompt, exportPromptPack, importPromptPack, listPrompts, putPrompt } from '../services/promptStore';
+
+interface PromptLibraryProps {
+  open: boolean;
+  resolutions: Resolution[];
+  aspectRatios: AspectRatio[];
+  onClose: () => void;
+  onApply: (prompt: SavedPrompt) => void;
+}
+
+/**
+ * Every whitespace separated term has to match. `#tag` terms match tags
+ * exactly, anything else is a substring of the title, body or a tag.
+ */
+const matchesQuery = (prompt: SavedPrompt, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = `${prompt.title}\n${prompt.body}\n${prompt.tags.join(' ')}`.toLowerCase();
+  return terms.every(term => term.startsWith('#') && term.length > 1
+    ? prompt.tags.includes(term.slice(1))
+    : haystack.includes(term)
+  );
+};
+
+const downloadJson = (data: unknown, filename: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const PromptLibrary: React.FC<PromptLibraryProps> = ({ open, resolutions, aspectRatios, onClose, onApply }) => {
+  const { t } = useLanguage();
+  const [prompts, setPrompts] = useState<SavedPrompt[]>([]);
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [editing, setEditing] = useState<SavedPrompt | null>(null);
+  const [toDelete, setToDelete] = useState<SavedPrompt | null>(null);
+  const [notice, setNotice] = useState<{ text: string; error: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setPrompts(await listPrompts());
+    } catch (e) {
+      console.warn("IDB Prompts List Failed", e);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      refresh();
+      setNotice(null);
+    }
+  }, [open]);
+
+  if (!open) return null;
+
+  const visible = prompts.filter(p => (!favoritesOnly || p.favorite) && matchesQuery(p, query));
+  const allTags = Array.from(new Set<string>(prompts.flatMap(p => p.tags))).sort();
+
+  const toggleTag = (tag: string) => {
+    const term = `#${tag}`;
+    const terms = query.split(/\s+/).filter(Boolean);
+    setQuery(terms.includes(term) ? terms.filter(q => q !== term).join(' ') : [...terms, term].join(' '));
+  };
+
+  const toggleFavorite = async (prompt: SavedPrompt) => {
+    // Not an edit, so the library order stays put
+    await putPrompt({ ...prompt, favorite: !prompt.favorite });
+    refresh();
+  };
+
+  const confirmDelete = async () => {
+    if (!toDelete) return;
+    await deletePrompt(toDelete.id);
+    setToDelete(null);
+    refresh();
+  };
+
+  const handleExport = async () => {
+    try {
+      // Exports what the filters show, so a subset can be shared as a pack
+      const pack = await exportPromptPack(visible);
+      downloadJson(pack, `prompts-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (e) {
+      console.warn("Prompt Export Failed", e);
+      setNotice({ text: t('promptExportFailed'), error: true });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (importInputRef.current) importInputRef.current.value = '';
+    if (!file) return;
+
+    try {
+      const count = await importPromptPack(parsePromptPack(JSON.parse(await file.text())));
+      setNotice({ text: t('promptImported').replace('{count}', String(count)), error: false });
+      refresh();
+    } catch (err: any) {
+      setNotice({ text: `${t('promptImportFailed')}: ${err.message}`, error: true });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[260] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <AlertDialog
+        open={!!toDelete}
+        onOpenChange={(o) => !o && setToDelete(null)}
+        onConfirm={confirmDelete}
+        title={t('promptDeleteTitle')}
+        description={t('promptConfirmDelete').replace('{title}', toDelete?.title || '')}
+        cancelText={t('cancel')}
+        confirmText={t('confirm')}
+      />
+      <SavePromptDialog
+        draft={editing}
+        resolutions={resolutions}
+        aspectRatios={aspectRatios}
+        onClose={() => setEditing(null)}
+        onSaved={() => { setEditing(null); refresh(); }}
+      />
+
+      <div
+        className="w-full max-w-2xl h-[75vh] flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <h3 className="text-sm font-bold text-zinc-200 flex items-center gap-2">
+            <BookMarked className="w-4 h-4 text-zinc-400" />
+            {t('promptLibrary')}
+          </h3>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+              title={t('promptImport')}
+            >
+              <Upload className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={visible.length === 0}
+              className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40 transition-colors"
+              title={t('promptExport')}
+            >
+              <Download className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+        </div>
+
+        <div className="p-3 space-y-2 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-zinc-500" />
+              <input
+                autoFocus
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t('promptSearchPlaceholder')}
+                className="w-full bg-zinc-900 border border-zinc-800 rounded-lg pl-9 pr-3 py-2 text-sm text-zinc-200 focus:outline-none focus:ring-1 focus:ring-zinc-600"
+              />
+            </div>
+            <button
+              onClick={() => setFavoritesOnly(v => !v)}
+              className={cn(
+                "p-2 rounded-lg border transition-colors",
+                favoritesOnly ? "border-yellow-500/50 bg-yellow-500/10 text-yellow-400" : "border-zinc-800 text-zinc-500 hover:text-zinc-300"
+              )}
+              title={t('promptFavoritesOnly')}
+            >
+              <Star className={cn("w-4 h-4", favoritesOnly && "fill-current")} />
+            </button>
+          </div>
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {allTags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={cn(
+                    "px-2 py-0.5 rounded-full text-[11px] border transition-colors",
+                    query.split(/\s+/).includes(`#${tag}`)
+                      ? "border-primary bg-zinc-800 text-white"
+                      : "border-zinc-800 text-zinc-500 hover:bg-zinc-900"
+                  )}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+          {notice && (
+            <p className={cn("text-xs", notice.error ? "text-red-400" : "text-green-400")}>{notice.text}</p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {visible.length === 0 ? (
+            <p className="text-xs text-zinc-500 text-center py-8">
+              {prompts.length === 0 ? t('promptLibraryEmpty') : t('promptNoMatches')}
+            </p>
+          ) : visible.map(prompt => (
+            <div
+              key={prompt.id}
+              onClick={() => onApply(prompt)}
+              className="group flex items-start gap-3 p-3 rounded-lg cursor-pointer hover:bg-zinc-900 transition-colors"
+            >
+              <button
+                onClick={(e) => { e.stopPropagation(); toggleFavorite(prompt); }}
+                className={cn("mt-0.5 transition-colors", prompt.favorite ? "text-yellow-400" : "text-zinc-600 hover:text-zinc-400")}
+                title={t('promptFavorite')}
+              >
+                <Star className={cn("w-4 h-4", prompt.favorite && "fill-current")} />
+              </button>
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="text-sm text-zinc-200 truncate">{prompt.title}</p>
+                <p className="text-xs text-zinc-500 line-clamp-2 whitespace-pre-wrap">{prompt.body}</p>
+                <div className="flex flex-wrap items-center gap-1 text-[10px]">
+                  {prompt.resolution && <span className="px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-300 font-mono">{prompt.resolution}</span>}
+                  {prompt.aspectRatio && <span className="px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-300 font-mono">{prompt.aspectRatio}</span>}
+                  {prompt.tags.map(tag => <span key={tag} className="text-zinc-500">#{tag}</span>)}
+                </div>
+              </div>
+              {prompt.references && prompt.references.length > 0 && (
+                <div className="flex gap-1 shrink-0">
+                  {prompt.references.map(ref => (
+                    <img key={ref.hash} src={ref.thumbnail} alt="" className="w-10 h-10 rounded object-cover border border-zinc-800" />
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-1 shrink-0 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={(e) => { e.stopPropagation(); setEditing(prompt); }}
+                  className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+                  title={t('promptEditTitle')}
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setToDelete(prompt); }}
+                  className="p-1.5 rounded text-zinc-400 hover:text-red-400 hover:bg-red-900/20 transition-colors"
+                  title={t('promptDeleteTitle')}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import { Grid3x3, AlertCircle } from 'lucide-react';
+import { AspectRatio, Resolution } from '../types';
+import { useLanguage } from './LanguageContext';
+import { cn } from '../lib/utils';
+import { MAX_MATRIX_CELLS, MatrixSettings, buildMatrixAxes, countMatrixCells } from '../lib/promptMatrix';
+
+interface PromptMatrixPanelProps {
+  prompt: string;
+  settings: MatrixSettings;
+  onChange: (settings: MatrixSettings) => void;
+  resolutions: Resolution[];
+  aspectRatios: AspectRatio[];
+}
+
+const toggle = <T,>(list: T[], value: T): T[] => {
+  return list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+};
+
+export const PromptMatrixPanel: React.FC<PromptMatrixPanelProps> = ({ prompt, settings, onChange, resolutions, aspectRatios }) => {
+  const { t } = useLanguage();
+  const axes = buildMatrixAxes(prompt, settings);
+  const promptAxes = axes.filter(axis => axis.kind === 'prompt');
+  const cellCount = axes.length > 0 ? countMatrixCells(axes) : 0;
+  const tooMany = cellCount > MAX_MATRIX_CELLS;
+
+  const chip = (active: boolean) => cn(
+    "px-2 py-1 rounded text-[11px] font-medium border transition-colors",
+    active
+      ? "bg-zinc-800 border-primary text-white"
+      : "bg-zinc-950 border-zinc-800 text-zinc-500 hover:bg-zinc-900"
+  );
+
+  return (
+    <div className="p-3 rounded-lg border border-zinc-800 bg-zinc-950/60 space-y-3 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-zinc-300 flex items-center gap-2">
+          <Grid3x3 className="w-3.5 h-3.5" />
+          {t('matrixTitle')}
+        </span>
+        <span className={cn("font-mono", tooMany ? "text-red-400" : "text-zinc-400")}>
+          {t('matrixCells').replace('{count}', String(cellCount))}
+        </span>
+      </div>
+
+      {promptAxes.length === 0 ? (
+        <p className="text-zinc-500">{t('matrixHint')}</p>
+      ) : (
+        <ul className="space-y-1">
+          {promptAxes.map((axis, i) => (
+            <li key={i} className="flex flex-wrap gap-1">
+              {axis.values.map((value, j) => (
+                <span key={j} className="px-1.5 py-0.5 rounded bg-zinc-900 border border-zinc-800 text-zinc-300">
+                  {value || '∅'}
+                </span>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-1.5">
+        <p className="text-zinc-500">{t('matrixVaryResolution')}</p>
+        <div className="flex flex-wrap gap-1">
+          {resolutions.map(res => (
+            <button
+              key={res}
+              onClick={() => onChange({ ...settings, resolutions: toggle(settings.resolutions, res) })}
+              className={chip(settings.resolutions.includes(res))}
+            >
+              {res}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <p className="text-zinc-500">{t('matrixVaryRatio')}</p>
+        <div className="flex flex-wrap gap-1">
+          {aspectRatios.map(ratio => (
+            <button
+              key={ratio}
+              onClick={() => onChange({ ...settings, aspectRatios: toggle(settings.aspectRatios, ratio) })}
+              className={chip(settings.aspectRatios.includes(ratio))}
+            >
+              {ratio}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {tooMany && (
+        <p className="flex items-center gap-1.5 text-red-400">
+          <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+          {t('matrixTooMany').replace('{max}', String(MAX_MATRIX_CELLS))}
+        </p>
+      )}
+    </div>
+  );
+};
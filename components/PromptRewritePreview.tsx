@@ -0,0 +1,72 @@
+import React from 'react';
+import { Check, Languages, Sparkles, X } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { cn } from '../lib/utils';
+import { PromptRewriteMode } from '../types';
+import { diffWords } from '../lib/textDiff';
+
+interface PromptRewritePreviewProps {
+  mode: PromptRewriteMode;
+  original: string;
+  rewritten: string;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+/**
+ * Shows a rewrite as a diff against the current prompt. Translations
+ * replace nearly every word, so they are shown side by side instead.
+ */
+export const PromptRewritePreview: React.FC<PromptRewritePreviewProps> = ({ mode, original, rewritten, onAccept, onReject }) => {
+  const { t } = useLanguage();
+  const isTranslation = mode !== 'enhance';
+  const Icon = isTranslation ? Languages : Sparkles;
+
+  return (
+    <div className="p-3 rounded-lg border border-purple-500/40 bg-purple-950/10 space-y-3 text-xs animate-in fade-in duration-200">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-zinc-300 flex items-center gap-2">
+          <Icon className="w-3.5 h-3.5 text-purple-400" />
+          {t(`rewriteTitle_${mode}`)}
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onReject}
+            className="flex items-center gap-1 px-2 py-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+          >
+            <X className="w-3.5 h-3.5" />
+            {t('rewriteReject')}
+          </button>
+          <button
+            onClick={onAccept}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-primary hover:bg-primary/90 text-white font-medium transition-colors"
+          >
+            <Check className="w-3.5 h-3.5" />
+            {t('rewriteAccept')}
+          </button>
+        </div>
+      </div>
+
+      {isTranslation ? (
+        <div className="grid grid-cols-2 gap-2">
+          <p className="p-2 rounded bg-zinc-950/60 text-zinc-500 whitespace-pre-wrap break-words">{original}</p>
+          <p className="p-2 rounded bg-zinc-950/60 text-zinc-200 whitespace-pre-wrap break-words">{rewritten}</p>
+        </div>
+      ) : (
+        <p className="p-2 rounded bg-zinc-950/60 text-zinc-300 whitespace-pre-wrap break-words leading-relaxed max-h-48 overflow-y-auto">
+          {diffWords(original, rewritten).map((part, i) => (
+            <span
+              key={i}
+              className={cn(
+                part.type === 'added' && "bg-green-500/20 text-green-300",
+                part.type === 'removed' && "bg-red-500/20 text-red-300 line-through"
+              )}
+            >
+              {part.text}
+            </span>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+};
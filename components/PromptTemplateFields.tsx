@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Dices, ListOrdered, Shuffle, Library } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { cn } from '../lib/utils';
+import { Expansion, ExpansionMode, findVariables } from '../lib/promptTemplate';
+import { loadWildcardMap, subscribeWildcards } from '../services/wildcardStore';
+
+/** The wildcard library as a name → terms map, kept in sync with edits. */
+export const useWildcardMap = (): Record<string, string[]> => {
+  const [wildcards, setWildcards] = useState<Record<string, string[]>>({});
+
+  useEffect(() => {
+    let active = true;
+    const load = () => {
+      loadWildcardMap()
+        .then(map => { if (active) setWildcards(map); })
+        .catch(e => console.warn("IDB Wildcards Load Failed", e));
+    };
+    load();
+    const unsubscribe = subscribeWildcards(load);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return wildcards;
+};
+
+interface PromptTemplateFieldsProps {
+  template: string;
+  variables: Record<string, string>;
+  onVariablesChange: (variables: Record<string, string>) => void;
+  mode: ExpansionMode;
+  onModeChange: (mode: ExpansionMode) => void;
+  /** What will be sent next; computed by the owner so it matches the request. */
+  expansion: Expansion;
+  onReroll: () => void;
+  onManageWildcards: () => void;
+  /** Smaller layout for workflow nodes; inputs get `nodrag`. */
+  compact?: boolean;
+}
+
+/**
+ * Form for the `${variable}` slots of a prompt template, the expansion mode
+ * and a preview of the prompt that will actually be sent.
+ */
+export const PromptTemplateFields: React.FC<PromptTemplateFieldsProps> = ({
+  template,
+  variables,
+  onVariablesChange,
+  mode,
+  onModeChange,
+  expansion,
+  onReroll,
+  onManageWildcards,
+  compact = false,
+}) => {
+  const { t } = useLanguage();
+  const names = findVariables(template);
+  const missing = [
+    ...expansion.missingVariables.map(name => `\${${name}}`),
+    ...expansion.missingWildcards.map(name => `__${name}__`),
+  ];
+
+  const modeButton = (value: ExpansionMode, Icon: React.ElementType, label: string) => (
+    <button
+      onClick={() => onModeChange(value)}
+      className={cn(
+        "flex items-center gap-1 px-2 py-1 rounded border transition-colors nodrag",
+        mode === value
+          ? "bg-zinc-800 border-primary text-white"
+          : "bg-zinc-950 border-zinc-800 text-zinc-500 hover:bg-zinc-900"
+      )}
+    >
+      <Icon className="w-3 h-3" />
+      {label}
+    </button>
+  );
+
+  return (
+    <div className={cn(
+      "rounded-lg border border-zinc-800 bg-zinc-950/60 space-y-2",
+      compact ? "p-2 text-[10px]" : "p-3 text-xs"
+    )}>
+      {names.length > 0 && (
+        <div className={cn("grid gap-2", !compact && "sm:grid-cols-2")}>
+          {names.map(name => (
+            <label key={name} className="flex items-center gap-2 min-w-0">
+              <span className="font-mono text-zinc-500 shrink-0">{name}</span>
+              <input
+                value={variables[name] || ''}
+                onChange={(e) => onVariablesChange({ ...variables, [name]: e.target.value })}
+                placeholder={t('templateVariablePlaceholder')}
+                className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-zinc-200 focus:outline-none focus:ring-1 focus:ring-zinc-600 nodrag"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-1">
+        {modeButton('random', Shuffle, t('templateModeRandom'))}
+        {modeButton('sequential', ListOrdered, t('templateModeSequential'))}
+        <button
+          onClick={onReroll}
+          className="p-1 rounded text-zinc-500 hover:text-white hover:bg-zinc-800 transition-colors nodrag"
+          title={mode === 'random' ? t('templateReroll') : t('templateNext')}
+        >
+          <Dices className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={onManageWildcards}
+          className="ml-auto flex items-center gap-1 px-2 py-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors nodrag"
+        >
+          <Library className="w-3 h-3" />
+          {t('wildcardLibrary')}
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-zinc-500">{t('templatePreview')}</p>
+        <p className={cn(
+          "whitespace-pre-wrap break-words text-zinc-300 bg-zinc-900/60 rounded px-2 py-1.5 overflow-y-auto",
+          compact ? "max-h-16" : "max-h-24"
+        )}>
+          {expansion.prompt}
+        </p>
+      </div>
+
+      {missing.length > 0 && (
+        <p className="flex items-start gap-1.5 text-amber-400">
+          <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+          {t('templateMissing').replace('{names}', missing.join(', '))}
+        </p>
+      )}
+    </div>
+  );
+};
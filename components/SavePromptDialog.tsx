@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { BookmarkPlus, X } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { AspectRatio, ReferenceImageInfo, Resolution, SavedPrompt } from '../types';
+import { parseTags } from '../lib/promptPack';
+import { createPromptId, putPrompt } from '../services/promptStore';
+import { saveUpload } from '../services/uploadStore';
+
+/** Prefilled values for the dialog; an `id` edits that library entry. */
+export interface PromptDraft {
+  id?: string;
+  title?: string;
+  body: string;
+  tags?: string[];
+  resolution?: Resolution;
+  aspectRatio?: AspectRatio;
+  /** Already stored reference images, e.g. from a history record. */
+  references?: ReferenceImageInfo[];
+  /** Reference images not stored yet (data URLs from the form). */
+  images?: string[];
+  favorite?: boolean;
+  createdAt?: number;
+}
+
+interface SavePromptDialogProps {
+  draft: PromptDraft | null;
+  resolutions: Resolution[];
+  aspectRatios: AspectRatio[];
+  onClose: () => void;
+  onSaved: (prompt: SavedPrompt) => void;
+}
+
+const defaultTitle = (body: string) => body.trim().split('\n')[0].slice(0, 40);
+
+export const SavePromptDialog: React.FC<SavePromptDialogProps> = ({ draft, resolutions, aspectRatios, onClose, onSaved }) => {
+  const { t } = useLanguage();
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [tagText, setTagText] = useState('');
+  const [resolution, setResolution] = useState<Resolution | ''>('');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio | ''>('');
+  const [includeImages, setIncludeImages] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!draft) return;
+    setTitle(draft.title ?? defaultTitle(draft.body));
+    setBody(draft.body);
+    setTagText((draft.tags || []).join(', '));
+    setResolution(draft.resolution || '');
+    setAspectRatio(draft.aspectRatio || '');
+    setIncludeImages(true);
+    setError(null);
+  }, [draft]);
+
+  if (!draft) return null;
+
+  const storedRefs = draft.references || [];
+  const newImages = draft.images || [];
+  const imageCount = storedRefs.length + newImages.length;
+  const thumbnails = [...storedRefs.map(ref => ref.thumbnail), ...newImages];
+
+  const handleSave = async () => {
+    if (!title.trim() || !body.trim()) return;
+    setSaving(true);
+    try {
+      const references = includeImages
+        ? [...storedRefs, ...(await Promise.all(newImages.map(saveUpload)))]
+        : [];
+      const now = Date.now();
+      const prompt: SavedPrompt = {
+        id: draft.id || createPromptId(),
+        title: title.trim(),
+        body,
+        tags: parseTags(tagText),
+        resolution: resolution || undefined,
+        aspectRatio: aspectRatio || undefined,
+        references: references.length > 0 ? references : undefined,
+        favorite: draft.favorite ?? false,
+        createdAt: draft.createdAt ?? now,
+        updatedAt: now,
+      };
+      await putPrompt(prompt);
+      onSaved(prompt);
+    } catch (e) {
+      console.warn("IDB Prompt Save Failed", e);
+      setError(t('promptSaveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const field = "w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:ring-1 focus:ring-zinc-600";
+
+  return (
+    <div className="fixed inset-0 z-[270] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-full max-w-md flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <h3 className="text-sm font-bold text-zinc-200 flex items-center gap-2">
+            <BookmarkPlus className="w-4 h-4 text-zinc-400" />
+            {draft.id ? t('promptEditTitle') : t('promptSaveTitle')}
+          </h3>
+          <button onClick={onClose} className="p-1.5 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder={t('promptTitlePlaceholder')} className={field} />
+          <textarea value={body} onChange={(e) => setBody(e.target.value)} className={`${field} h-32 resize-none`} />
+          <input value={tagText} onChange={(e) => setTagText(e.target.value)} placeholder={t('promptTagsPlaceholder')} className={field} />
+
+          <div className="grid grid-cols-2 gap-3">
+            <select value={resolution} onChange={(e) => setResolution(e.target.value as Resolution | '')} className={field}>
+              <option value="">{t('resolutionTitle')}: —</option>
+              {resolutions.map(res => <option key={res} value={res}>{res}</option>)}
+            </select>
+            <select value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value as AspectRatio | '')} className={field}>
+              <option value="">{t('aspectRatioTitle')}: —</option>
+              {aspectRatios.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+            </select>
+          </div>
+
+          {imageCount > 0 && (
+            <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeImages}
+                onChange={(e) => setIncludeImages(e.target.checked)}
+                className="accent-purple-500"
+              />
+              {t('promptIncludeImages').replace('{count}', String(imageCount))}
+              <span className="flex gap-1 ml-auto">
+                {thumbnails.map((src, i) => (
+                  <img key={i} src={src} alt="" className="w-6 h-6 rounded object-cover border border-zinc-800" />
+                ))}
+              </span>
+            </label>
+          )}
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-zinc-800">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-zinc-400 hover:text-white hover:bg-zinc-900 transition-colors">
+            {t('cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !title.trim() || !body.trim()}
+            className="px-4 py-2 rounded-lg bg-primary hover:bg-primary/90 disabled:opacity-40 text-sm text-white font-medium transition-colors"
+          >
+            {t('promptSave')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
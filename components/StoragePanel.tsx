@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import { HardDrive, Loader2, ShieldCheck, Trash2, X } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { AlertDialog } from './ui/AlertDialog';
+import { cn } from '../lib/utils';
+import { RetentionItem, RetentionPolicy, hasRetentionLimits } from '../lib/retention';
+import {
+  StorageCategory,
+  StorageUsage,
+  getRetentionPolicy,
+  getStorageUsage,
+  previewRetention,
+  pruneHistory,
+  requestPersistentStorage,
+  setRetentionPolicy,
+} from '../services/storageService';
+
+interface StoragePanelProps {
+  open: boolean;
+  onClose: () => void;
+  /** Called with every record id a cleanup deleted. */
+  onPruned: (ids: string[]) => void;
+}
+
+const CATEGORIES: { key: StorageCategory; color: string }[] = [
+  { key: 'images', color: 'bg-primary' },
+  { key: 'thumbnails', color: 'bg-sky-500' },
+  { key: 'workflows', color: 'bg-violet-500' },
+  { key: 'uploads', color: 'bg-emerald-500' },
+];
+
+const MB = 1024 * 1024;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+/** Empty input means no limit. */
+const parseLimit = (value: string): number | null => {
+  const parsed = Number(value);
+  return value.trim() === '' || !Number.isFinite(parsed) || parsed < 0 ? null : parsed;
+};
+
+/** Storage usage, persistence and the history retention policy. */
+export const StoragePanel: React.FC<StoragePanelProps> = ({ open, onClose, onPruned }) => {
+  const { t } = useLanguage();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [policy, setPolicy] = useState<RetentionPolicy>(getRetentionPolicy);
+  const [preview, setPreview] = useState<RetentionItem[]>([]);
+  const [persistDenied, setPersistDenied] = useState(false);
+  const [isPruning, setIsPruning] = useState(false);
+  const [showConfirm, setShowConfirm] = useState(false);
+
+  const refreshUsage = () => {
+    getStorageUsage()
+      .then(setUsage)
+      .catch(e => console.warn("Storage Estimate Failed", e));
+  };
+
+  useEffect(() => {
+    if (open) refreshUsage();
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    previewRetention(policy)
+      .then(items => !cancelled && setPreview(items))
+      .catch(e => console.warn("IDB Read Failed", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, policy]);
+
+  if (!open) return null;
+
+  const updatePolicy = (patch: Partial<RetentionPolicy>) => {
+    const next = { ...policy, ...patch };
+    setPolicy(next);
+    setRetentionPolicy(next);
+  };
+
+  const handlePersist = async () => {
+    try {
+      const granted = await requestPersistentStorage();
+      setPersistDenied(!granted);
+      refreshUsage();
+    } catch (e) {
+      console.warn("Persistent Storage Request Failed", e);
+      setPersistDenied(true);
+    }
+  };
+
+  const confirmPrune = async () => {
+    setIsPruning(true);
+    try {
+      const ids = await pruneHistory(preview);
+      onPruned(ids);
+      setPreview([]);
+      refreshUsage();
+    } catch (e) {
+      console.warn("IDB Delete Failed", e);
+    } finally {
+      setIsPruning(false);
+    }
+  };
+
+  const counted = usage ? CATEGORIES.reduce((sum, { key }) => sum + usage.categories[key], 0) : 0;
+  const total = usage ? Math.max(usage.usage ?? counted, counted) : 0;
+  const previewBytes = preview.reduce((sum, item) => sum + item.size, 0);
+  const limitInputClass = "w-full bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:ring-1 focus:ring-zinc-600";
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[260] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm" onClick={onClose}>
+        <div
+          className="w-full max-w-lg max-h-[85vh] flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl animate-in zoom-in-95 duration-200"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+            <h3 className="text-sm font-bold text-zinc-200 flex items-center gap-2">
+              <HardDrive className="w-4 h-4 text-zinc-400" />
+              {t('storageTitle')}
+            </h3>
+            <button onClick={onClose} className="p-1.5 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-5 text-xs">
+            <section className="space-y-2">
+              {!usage ? (
+                <div className="flex items-center gap-2 text-zinc-500">
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  {t('storageLoading')}
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-baseline justify-between text-zinc-300">
+                    <span>
+                      {usage.quota !== null
+                        ? t('storageUsedOf').replace('{used}', formatBytes(total)).replace('{quota}', formatBytes(usage.quota))
+                        : t('storageUsed').replace('{used}', formatBytes(total))}
+                    </span>
+                    {usage.quota !== null && usage.quota > 0 && (
+                      <span className="text-zinc-500">{((total / usage.quota) * 100).toFixed(1)}%</span>
+                    )}
+                  </div>
+                  <div className="h-2 rounded-full bg-zinc-800 overflow-hidden flex">
+                    {CATEGORIES.map(({ key, color }) => (
+                      <div
+                        key={key}
+                        className={color}
+                        style={{ width: `${(usage.categories[key] / (usage.quota || total || 1)) * 100}%` }}
+                      />
+                    ))}
+                  </div>
+                  <ul className="grid grid-cols-2 gap-x-4 gap-y-1 text-zinc-400">
+                    {CATEGORIES.map(({ key, color }) => (
+                      <li key={key} className="flex items-center gap-2">
+                        <span className={cn("w-2 h-2 rounded-full", color)} />
+                        <span className="flex-1">{t(`storageCategory_${key}`)}</span>
+                        <span className="font-mono text-zinc-300">{formatBytes(usage.categories[key])}</span>
+                      </li>
+                    ))}
+                    {total > counted && (
+                      <li className="flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full bg-zinc-600" />
+                        <span className="flex-1">{t('storageCategoryOther')}</span>
+                        <span className="font-mono text-zinc-300">{formatBytes(total - counted)}</span>
+                      </li>
+                    )}
+                  </ul>
+
+                  <div className="flex items-center justify-between gap-2 pt-1">
+                    <span className={cn("flex items-center gap-1.5", usage.persisted ? "text-green-400" : "text-zinc-500")}>
+                      <ShieldCheck className="w-3.5 h-3.5" />
+                      {usage.persisted ? t('storagePersisted') : persistDenied ? t('storagePersistDenied') : t('storageNotPersisted')}
+                    </span>
+                    {!usage.persisted && (
+                      <button onClick={handlePersist} className="px-2 py-1 rounded border border-zinc-800 text-zinc-300 hover:bg-zinc-900 transition-colors">
+                        {t('storagePersist')}
+                      </button>
+                    )}
+                  </div>
+                </>
+              )}
+            </section>
+
+            <section className="space-y-3 pt-4 border-t border-zinc-800">
+              <div>
+                <p className="font-medium text-zinc-200">{t('storageRetention')}</p>
+                <p className="text-zinc-500">{t('storageRetentionDesc')}</p>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <label className="space-y-1">
+                  <span className="text-zinc-400">{t('storageMaxCount')}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={policy.maxCount ?? ''}
+                    onChange={(e) => updatePolicy({ maxCount: parseLimit(e.target.value) })}
+                    placeholder={t('storageNoLimit')}
+                    className={limitInputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-zinc-400">{t('storageMaxSize')}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={policy.maxBytes === null ? '' : Math.round(policy.maxBytes / MB)}
+                    onChange={(e) => {
+                      const limit = parseLimit(e.target.value);
+                      updatePolicy({ maxBytes: limit === null ? null : limit * MB });
+                    }}
+                    placeholder={t('storageNoLimit')}
+                    className={limitInputClass}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-zinc-400">{t('storageMaxAge')}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={policy.maxAgeDays ?? ''}
+                    onChange={(e) => updatePolicy({ maxAgeDays: parseLimit(e.target.value) })}
+                    placeholder={t('storageNoLimit')}
+                    className={limitInputClass}
+                  />
+                </label>
+              </div>
+
+              <label className="flex items-center gap-2 text-zinc-300">
+                <input
+                  type="checkbox"
+                  checked={policy.keepFavorites}
+                  onChange={(e) => updatePolicy({ keepFavorites: e.target.checked })}
+                  className="accent-primary"
+                />
+                {t('storageKeepFavorites')}
+              </label>
+              <label className="flex items-center gap-2 text-zinc-300">
+                <input
+                  type="checkbox"
+                  checked={policy.auto}
+                  onChange={(e) => updatePolicy({ auto: e.target.checked })}
+                  className="accent-primary"
+                />
+                {t('storageAuto')}
+              </label>
+
+              {hasRetentionLimits(policy) && (
+                <div className="p-3 rounded-lg border border-zinc-800 bg-zinc-900/50 space-y-2">
+                  {preview.length === 0 ? (
+                    <p className="text-zinc-500">{t('storagePreviewEmpty')}</p>
+                  ) : (
+                    <>
+                      <p className="text-amber-400">
+                        {t('storagePreview').replace('{count}', String(preview.length)).replace('{size}', formatBytes(previewBytes))}
+                      </p>
+                      <ul className="max-h-40 overflow-y-auto space-y-0.5 text-zinc-500">
+                        {preview.map(item => (
+                          <li key={item.id} className="flex gap-2">
+                            <span className="shrink-0 font-mono">{new Date(item.timestamp).toLocaleDateString()}</span>
+                            <span className="flex-1 truncate">{item.prompt}</span>
+                            <span className="shrink-0 font-mono">{formatBytes(item.size)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                      <button
+                        onClick={() => setShowConfirm(true)}
+                        disabled={isPruning}
+                        className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-red-900/50 text-red-400 hover:bg-red-900/20 disabled:opacity-40 transition-colors"
+                      >
+                        {isPruning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+                        {t('storagePruneNow')}
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </section>
+          </div>
+        </div>
+      </div>
+
+      <AlertDialog
+        open={showConfirm}
+        onOpenChange={setShowConfirm}
+        onConfirm={confirmPrune}
+        title={t('storagePruneTitle')}
+        description={t('storagePruneDesc').replace('{count}', String(preview.length))}
+        cancelText={t('cancel')}
+        confirmText={t('confirm')}
+      />
+    </>
+  );
+};
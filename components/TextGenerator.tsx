@@ -1,14 +1,70 @@
 
-import React, { useState, useRef, useEffect, useCallback, memo } from 'react';
-import { generateImage, editImage, Resolution, AspectRatio } from '../services/geminiService';
-import { GeneratedImage } from '../types';
+import React, { useState, useRef, useEffect, useCallback, useMemo, memo } from 'react';
+import { enqueueJob, JobCancelledError } from '../services/jobQueue';
+import { getGenerateCapabilities, rewritePrompt } from '../services/imageService';
+import { describeCapabilityIssue, describeError } from '../services/imageErrors';
+import { GeneratedImage, Resolution, AspectRatio, ReferenceImageInfo, ReferenceRole, RatioFit, SavedPrompt, PromptRewriteMode, EditSession, Collection } from '../types';
 import { Button } from './ui/Button';
 import { RainbowButton } from './ui/RainbowButton';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
-import { Download, Sparkles, Image as ImageIcon, Plus, X, Settings2, Ratio, ZoomIn, CheckCircle2, Clock, Ban, AlertCircle, History, Eye, Pencil, ChevronRight, Trash2 } from 'lucide-react';
+import { Download, Sparkles, Image as ImageIcon, Plus, X, Settings2, Ratio, ZoomIn, CheckCircle2, Clock, Ban, AlertCircle, History, Eye, Pencil, ChevronRight, Trash2, Info, Layers, Grid3x3, Shuffle, BookMarked, BookmarkPlus, Wand2, Languages, MessagesSquare, MessageSquarePlus, SlidersHorizontal, Star, Check, CheckSquare, Archive, HardDrive } from 'lucide-react';
 import { useLanguage } from './LanguageContext';
 import { cn } from '../lib/utils';
 import { AlertDialog } from './ui/AlertDialog';
+import {
+  addHistoryRecord,
+  clearHistory,
+  createHistoryId,
+  deleteHistoryRecords,
+  getHistoryPage,
+  getHistoryRecord,
+  getImageMetadata,
+  releaseImageUrl,
+  subscribeHistory,
+  updateHistoryRecords,
+  HistoryCursor,
+  HistoryOrganization,
+  HISTORY_PAGE_SIZE,
+} from '../services/historyStore';
+import { createCollectionId, deleteCollection, listCollections, putCollection } from '../services/collectionStore';
+import { EMPTY_HISTORY_FILTER, HistoryFilter, isHistoryFiltered, matchesHistoryFilter } from '../lib/historyFilter';
+import { saveUpload, getUpload } from '../services/uploadStore';
+import { urlToDataUrl, createThumbnail, downloadImage } from '../lib/image';
+import { ImageMetadata, buildImageMetadata } from '../lib/imageMetadata';
+import { ImageDetails } from './ImageDetails';
+import { PostProcessPanel } from './PostProcessPanel';
+import { MetadataDropZone } from './MetadataDropZone';
+import { HistoryToolbar } from './HistoryToolbar';
+import { HistoryBulkBar } from './HistoryBulkBar';
+import { BackupDialog } from './BackupDialog';
+import { StoragePanel } from './StoragePanel';
+import { useVirtualGrid } from './VirtualGrid';
+import { enforceRetentionPolicy, isQuotaError } from '../services/storageService';
+import { subscribeRemoteHistory } from '../services/historySync';
+import { EditLineageTree } from './EditLineageTree';
+import { ChatEditTimeline } from './ChatEditTimeline';
+import { MaskEditor } from './MaskEditor';
+import { compositeMasked } from '../lib/mask';
+import { buildChatMessages, createSessionId, getEditSession, latestSessionImageId, putEditSession } from '../services/editSessionStore';
+import { BatchGrid, BatchCandidate } from './BatchGrid';
+import { PromptMatrixPanel } from './PromptMatrixPanel';
+import { PromptTemplateFields, useWildcardMap } from './PromptTemplateFields';
+import { WildcardManager } from './WildcardManager';
+import { PromptLibrary } from './PromptLibrary';
+import { SavePromptDialog, PromptDraft } from './SavePromptDialog';
+import { PromptRewritePreview } from './PromptRewritePreview';
+import { Expansion, ExpansionMode, expandTemplate, isTemplate, randomSeed } from '../lib/promptTemplate';
+import { checkGenerateRequest } from '../lib/modelCapabilities';
+import {
+  MAX_MATRIX_CELLS,
+  MatrixSettings,
+  buildMatrixAxes,
+  composeMatrixGrid,
+  countMatrixCells,
+  expandMatrix,
+} from '../lib/promptMatrix';
+
+const MAX_BATCH_COUNT = 8;
 
 // --- Image Compression Helper ---
 const compressImage = (file: File): Promise<string> => {
@@ -58,75 +114,28 @@ const compressImage = (file: File): Promise<string> => {
   });
 };
 
-// --- IndexedDB Helpers ---
-const IDB_NAME = 'NanoBananaDB';
-const IDB_STORE = 'history';
-const IDB_VERSION = 3; 
-
-const initDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(IDB_NAME, IDB_VERSION);
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-    request.onupgradeneeded = (e) => {
-      const db = (e.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(IDB_STORE)) {
-        db.createObjectStore(IDB_STORE);
-      }
-    };
-  });
-};
-
-const getHistoryFromDB = async (): Promise<GeneratedImage[]> => {
-  try {
-    const db = await initDB();
-    return new Promise((resolve) => {
-      const tx = db.transaction(IDB_STORE, 'readonly');
-      const store = tx.objectStore(IDB_STORE);
-      const req = store.get('recent');
-      req.onsuccess = () => {
-        const result = req.result || [];
-        if (Array.isArray(result) && result.length > 0 && typeof result[0] === 'string') {
-           const migrated = result.map((url: string) => ({
-             url,
-             prompt: 'Legacy Image',
-             timestamp: Date.now()
-           }));
-           resolve(migrated);
-        } else {
-           resolve(result);
-        }
-      };
-      req.onerror = (e) => {
-        console.warn("IDB Read Failed", e);
-        resolve([]);
-      };
-    });
-  } catch (e) {
-    return [];
-  }
-};
-
-const saveHistoryToDB = async (items: GeneratedImage[]) => {
-  try {
-    const db = await initDB();
-    return new Promise<void>((resolve, reject) => {
-      const tx = db.transaction(IDB_STORE, 'readwrite');
-      const store = tx.objectStore(IDB_STORE);
-      store.put(items, 'recent');
-      tx.oncomplete = () => resolve();
-      tx.onerror = (e) => reject(tx.error);
-    });
-  } catch (e) {
-    console.warn("IDB Save Critical Error", e);
-  }
-};
-
 interface UploadedImage {
   url: string;
   size: string;
+  role?: ReferenceRole;
 }
 
+const REFERENCE_ROLES: ReferenceRole[] = ['subject', 'style', 'composition'];
+
+const RATIOS: { value: AspectRatio; label: string; class: string }[] = [
+  { value: '1:1', label: '1:1', class: 'w-4 h-4' },
+  { value: '2:3', label: '2:3', class: 'w-[11px] h-4' },
+  { value: '3:2', label: '3:2', class: 'w-4 h-[11px]' },
+  { value: '3:4', label: '3:4', class: 'w-3 h-4' },
+  { value: '4:3', label: '4:3', class: 'w-4 h-3' },
+  { value: '4:5', label: '4:5', class: 'w-[13px] h-4' },
+  { value: '5:4', label: '5:4', class: 'w-4 h-[13px]' },
+  { value: '9:16', label: '9:16', class: 'w-[9px] h-4' },
+  { value: '16:9', label: '16:9', class: 'w-4 h-[9px]' },
+  { value: '21:9', label: '21:9', class: 'w-5 h-[9px]' },
+];
+const RATIO_VALUES = RATIOS.map(r => r.value);
+
 // --- MEMOIZED COMPONENTS (Performance Optimization) ---
 
 // 1. Result Display Component
@@ -141,7 +150,7 @@ const ResultDisplay = memo(({
   loading: boolean, 
   t: (k:string)=>string, 
   onPreview: (img: GeneratedImage)=>void, 
-  onDownload: (e:any, url:string)=>void
+  onDownload: (e:any, image: GeneratedImage)=>void
 }) => {
   const acrylicBtn = "relative flex items-center gap-2 bg-black/50 hover:bg-black/70 backdrop-blur-md border border-white/10 text-white font-medium transition-all duration-200 shadow-sm whitespace-nowrap min-w-fit";
 
@@ -166,7 +175,7 @@ const ResultDisplay = memo(({
             
             <div className="absolute top-4 right-4 hidden md:group-hover:flex gap-2 z-20" onClick={(e) => e.stopPropagation()}>
               <button 
-                onClick={(e) => onDownload(e, image.url)} 
+                onClick={(e) => onDownload(e, image)} 
                 className={cn(acrylicBtn, "px-5 py-2 rounded-full")}
               >
                 <Download className="w-4 h-4" />
@@ -191,6 +200,10 @@ const ResultDisplay = memo(({
 });
 
 // 2. History List Component
+// Mirrors the grid's `grid-cols-2 sm:grid-cols-5 gap-4`
+const historyColumns = (viewportWidth: number) => viewportWidth >= 640 ? 5 : 2;
+const HISTORY_GRID_GAP = 16;
+
 const HistoryList = memo(({ 
   history, 
   t, 
@@ -198,17 +211,58 @@ const HistoryList = memo(({
   onDownload,
   onEdit,
   onClear,
-  onDelete
+  onDelete,
+  onSavePrompt,
+  onToggleFavorite,
+  onOpenBackup,
+  onOpenStorage,
+  selectedIds,
+  onStartSelect,
+  onToggleSelect,
+  toolbar,
+  isFiltered,
+  hasMore,
+  isLoadingMore,
+  onLoadMore
 }: { 
   history: GeneratedImage[], 
   t: (k:string)=>string, 
   onPreview: (img: GeneratedImage)=>void, 
-  onDownload: (e:any, url:string)=>void,
+  onDownload: (e:any, image: GeneratedImage)=>void,
   onEdit: (e:any, img:GeneratedImage)=>void,
   onClear: () => void,
-  onDelete: (e:any, img:GeneratedImage)=>void
+  onDelete: (e:any, img:GeneratedImage)=>void,
+  onSavePrompt: (e:any, img:GeneratedImage)=>void,
+  onToggleFavorite: (e:any, img:GeneratedImage)=>void,
+  onOpenBackup: () => void,
+  onOpenStorage: () => void,
+  /** Null outside of selection mode. */
+  selectedIds: Set<string> | null,
+  onStartSelect: () => void,
+  onToggleSelect: (img: GeneratedImage)=>void,
+  /** Search, filters and bulk actions, rendered above the grid. */
+  toolbar: React.ReactNode,
+  isFiltered: boolean,
+  hasMore: boolean,
+  isLoadingMore: boolean,
+  onLoadMore: () => void
 }) => {
-  if (history.length === 0) return null;
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Only tiles near the viewport are mounted, however long the list gets
+  const grid = useVirtualGrid({ count: history.length, columnsFor: historyColumns, gap: HISTORY_GRID_GAP });
+
+  // Infinite scroll: fetch the next page when the sentinel nears the viewport
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) onLoadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore, history.length]);
+
+  const isEmpty = history.length === 0 && !isFiltered;
 
   const formatDate = (ts: number) => {
     return new Date(ts).toLocaleString(undefined, {
@@ -225,28 +279,90 @@ const HistoryList = memo(({
         <span className="text-xs text-zinc-500 ml-2 border-l border-zinc-700 pl-3">{t('historyDesc')}</span>
         
         <button 
-          onClick={onClear}
-          className="ml-auto p-2 hover:bg-red-900/20 text-zinc-500 hover:text-red-400 rounded-full transition-colors"
-          title={t('clearHistory')}
+          onClick={onOpenStorage}
+          className="ml-auto p-2 rounded-full text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+          title={t('storageTitle')}
         >
-           <Trash2 className="w-4 h-4" />
+           <HardDrive className="w-4 h-4" />
         </button>
+        <button 
+          onClick={onOpenBackup}
+          className="p-2 rounded-full text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors"
+          title={t('backupTitle')}
+        >
+           <Archive className="w-4 h-4" />
+        </button>
+        {/* An empty history only offers the backup, so an archive can be restored */}
+        {!isEmpty && (
+          <>
+            <button 
+              onClick={onStartSelect}
+              className={cn("p-2 rounded-full transition-colors", selectedIds ? "bg-zinc-800 text-white" : "text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800")}
+              title={t('historySelect')}
+            >
+               <CheckSquare className="w-4 h-4" />
+            </button>
+            <button 
+              onClick={onClear}
+              className="p-2 hover:bg-red-900/20 text-zinc-500 hover:text-red-400 rounded-full transition-colors"
+              title={t('clearHistory')}
+            >
+               <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
       </div>
+
+      {!isEmpty && toolbar}
+
+      {history.length === 0 && isFiltered && (
+        <p className="text-xs text-zinc-500 text-center py-12">{t('historyNoMatches')}</p>
+      )}
       
-      <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
-        {history.map((histImg, index) => (
+      <div
+        ref={grid.containerRef}
+        className="grid grid-cols-2 sm:grid-cols-5 gap-4"
+        style={{ paddingTop: grid.paddingTop, paddingBottom: grid.paddingBottom }}
+      >
+        {history.slice(grid.start, grid.end).map((histImg) => {
+          const isSelected = !!selectedIds?.has(histImg.id);
+          return (
           <div 
-            key={index} 
-            className="group relative aspect-square rounded-lg overflow-hidden border border-zinc-800 bg-zinc-900 cursor-pointer hover:border-zinc-600 transition-colors"
-            onClick={() => onPreview(histImg)}
+            key={histImg.id} 
+            className={cn(
+              "group relative aspect-square rounded-lg overflow-hidden border bg-zinc-900 cursor-pointer transition-colors",
+              isSelected ? "border-primary ring-2 ring-primary/60" : "border-zinc-800 hover:border-zinc-600"
+            )}
+            onClick={() => selectedIds ? onToggleSelect(histImg) : onPreview(histImg)}
           >
               <img 
-                src={histImg.url} 
+                src={histImg.thumbnailUrl || histImg.url} 
                 alt={histImg.prompt} 
                 loading="lazy" 
                 decoding="async"
                 className="w-full h-full object-cover" 
               />
+
+              {/* Selection checkbox or favorite star (Top Left) */}
+              {selectedIds ? (
+                <div className={cn(
+                  "absolute top-2 left-2 w-5 h-5 rounded border flex items-center justify-center z-20 shadow-sm",
+                  isSelected ? "bg-primary border-primary text-white" : "bg-black/40 border-white/40"
+                )}>
+                  {isSelected && <Check className="w-3.5 h-3.5" />}
+                </div>
+              ) : (
+                <button
+                  onClick={(e) => onToggleFavorite(e, histImg)}
+                  className={cn(
+                    "absolute top-2 left-2 p-1.5 rounded-full bg-black/40 backdrop-blur-sm transition-all z-20",
+                    histImg.favorite ? "text-yellow-400" : "text-zinc-300 opacity-100 md:opacity-0 md:group-hover:opacity-100 hover:text-yellow-300"
+                  )}
+                  title={t('historyToggleFavorite')}
+                >
+                  <Star className={cn("w-3 h-3", histImg.favorite && "fill-current")} />
+                </button>
+              )}
               
               {/* Delete Button (Top Right) */}
               <button 
@@ -272,10 +388,17 @@ const HistoryList = memo(({
                     >
                         <Pencil className="w-3 h-3" />
                     </button>
+                    <button 
+                        className="p-1.5 rounded-full bg-black/40 text-zinc-200 hover:bg-black/70 hover:text-white border border-transparent hover:border-zinc-700 transition-all"
+                        onClick={(e) => onSavePrompt(e, histImg)}
+                        title={t('promptSaveTitle')}
+                    >
+                        <BookmarkPlus className="w-3 h-3" />
+                    </button>
                     {/* Download Button: Desktop Only */}
                     <button 
                         className="p-1.5 rounded-full bg-black/40 text-zinc-200 hover:bg-black/70 hover:text-white border border-transparent hover:border-zinc-700 transition-all hidden md:flex"
-                        onClick={(e) => onDownload(e, histImg.url)}
+                        onClick={(e) => onDownload(e, histImg)}
                         title={t('download')}
                     >
                         <Download className="w-3 h-3" />
@@ -283,8 +406,21 @@ const HistoryList = memo(({
                  </div>
               </div>
           </div>
-        ))}
+          );
+        })}
       </div>
+
+      {hasMore && (
+        <div ref={sentinelRef} className="flex justify-center py-6">
+          <button
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+            className="text-xs text-zinc-500 hover:text-zinc-300 transition-colors disabled:opacity-50"
+          >
+            {isLoadingMore ? t('loadingMore') : t('loadMore')}
+          </button>
+        </div>
+      )}
     </div>
   );
 });
@@ -292,14 +428,18 @@ const HistoryList = memo(({
 // 3. Upload List Component
 const UploadList = memo(({
   images,
+  max,
   t,
   onRemove,
+  onRoleChange,
   onUploadClick,
   fileInputRef
 }: {
   images: UploadedImage[],
+  max: number,
   t: (k:string)=>string,
   onRemove: (idx:number)=>void,
+  onRoleChange: (idx:number, role?: ReferenceRole)=>void,
   onUploadClick: ()=>void,
   fileInputRef: React.RefObject<HTMLInputElement | null>
 }) => {
@@ -314,13 +454,24 @@ const UploadList = memo(({
             >
             <X className="w-3 h-3" />
             </button>
+            <select
+              value={img.role || ''}
+              onChange={(e) => onRoleChange(idx, (e.target.value || undefined) as ReferenceRole | undefined)}
+              className="absolute top-0 left-0 right-0 bg-black/60 backdrop-blur-[1px] text-[8px] text-zinc-200 text-center py-0.5 rounded-t outline-none cursor-pointer"
+              title={t('referenceRole')}
+            >
+              <option value="">{t('referenceRole_none')}</option>
+              {REFERENCE_ROLES.map(role => (
+                <option key={role} value={role}>{t(`referenceRole_${role}`)}</option>
+              ))}
+            </select>
             <div className="absolute bottom-0 left-0 right-0 bg-black/60 backdrop-blur-[1px] text-[8px] text-zinc-200 text-center py-0.5 rounded-b">
               {img.size}
             </div>
         </div>
         ))}
         
-        {images.length < 2 && (
+        {images.length < max && (
         <div 
             className="w-20 h-20 border border-dashed border-zinc-700 rounded bg-zinc-950/50 flex flex-col items-center justify-center cursor-pointer hover:bg-zinc-900 transition-colors text-zinc-500 hover:text-zinc-300"
             onClick={onUploadClick}
@@ -336,21 +487,65 @@ const UploadList = memo(({
 
 
 // --- MAIN COMPONENT ---
-export const TextGenerator: React.FC = () => {
+interface TextGeneratorProps {
+  isVisible?: boolean;
+}
+
+export const TextGenerator: React.FC<TextGeneratorProps> = ({ isVisible = true }) => {
   const [prompt, setPrompt] = useState('');
   // 'image' is the current result being shown
   const [image, setImage] = useState<GeneratedImage | null>(null);
   
   // 'previewImage' is for the fullscreen modal
   const [previewImage, setPreviewImage] = useState<GeneratedImage | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+  const [showPostProcess, setShowPostProcess] = useState(false);
   
   const [history, setHistory] = useState<GeneratedImage[]>([]);
-  const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
+  const [historyCursor, setHistoryCursor] = useState<HistoryCursor | null>(null);
+  const historyCursorRef = useRef(historyCursor);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const historyFilterRef = useRef(historyFilter);
+  // Bumped on every reload so pages fetched for an older filter are dropped
+  const historyQueryRef = useRef(0);
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
+  // Files left out of the last upload or restore because of the model's limit
+  const [skippedReferences, setSkippedReferences] = useState(0);
   
   const [resolution, setResolution] = useState<Resolution>('1K');
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
-  const [loading, setLoading] = useState(false);
+  // Set to allow ratios the model lacks: generate at the nearest one, then crop or pad
+  const [ratioFit, setRatioFit] = useState<RatioFit | undefined>(undefined);
+  // Generations this view queued and is still waiting for
+  const [pendingCount, setPendingCount] = useState(0);
+  const loading = pendingCount > 0;
+  const [batchCount, setBatchCount] = useState(1);
+  const [batch, setBatch] = useState<BatchCandidate[] | null>(null);
+  // Cancels the jobs of the running batch or matrix when a new one starts
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const [isMatrixMode, setIsMatrixMode] = useState(false);
+  const [matrixSettings, setMatrixSettings] = useState<MatrixSettings>({ resolutions: [], aspectRatios: [] });
+  // Prompt templates: the seed/index pick the next expansion and advance after each send
+  const [templateVariables, setTemplateVariables] = useState<Record<string, string>>({});
+  const [expansionMode, setExpansionMode] = useState<ExpansionMode>('random');
+  const [templateSeed, setTemplateSeed] = useState(randomSeed);
+  const [sequenceIndex, setSequenceIndex] = useState(0);
+  const [isWildcardsOpen, setIsWildcardsOpen] = useState(false);
+  const [isPromptLibraryOpen, setIsPromptLibraryOpen] = useState(false);
+  const [promptDraft, setPromptDraft] = useState<PromptDraft | null>(null);
+  // Text model rewrites wait for the user to accept them
+  const [rewrite, setRewrite] = useState<{ mode: PromptRewriteMode; original: string; text: string } | null>(null);
+  const [rewritingMode, setRewritingMode] = useState<PromptRewriteMode | null>(null);
+  const rewriteAbortRef = useRef<AbortController | null>(null);
+  const wildcards = useWildcardMap();
+  // Read on every render so switching providers updates the limits shown
+  const capabilities = getGenerateCapabilities();
+  const formIssue = checkGenerateRequest(capabilities, { referenceCount: uploadedImages.length, resolution, aspectRatio, ratioFit });
+  const needsRatioFit = [aspectRatio, ...(isMatrixMode ? matrixSettings.aspectRatios : [])]
+    .some(ratio => !capabilities.aspectRatios.includes(ratio));
   const [error, setError] = useState<string | null>(null);
   
   // Edit Mode States
@@ -358,15 +553,29 @@ export const TextGenerator: React.FC = () => {
   const [editingImage, setEditingImage] = useState<GeneratedImage | null>(null);
   const [editPrompt, setEditPrompt] = useState('');
   const [isEditing, setIsEditing] = useState(false);
+  const [lineageVersion, setLineageVersion] = useState(0);
+  const [isMasking, setIsMasking] = useState(false);
+  const [editMask, setEditMask] = useState<string | null>(null);
+  // Chat mode keeps a conversation so follow-up instructions build on earlier turns
+  const [isChatMode, setIsChatMode] = useState(false);
+  const [chatSession, setChatSession] = useState<EditSession | null>(null);
+  const [pendingChatText, setPendingChatText] = useState('');
   
   // Dialog State
   const [showClearDialog, setShowClearDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isStorageOpen, setIsStorageOpen] = useState(false);
   const [imageToDelete, setImageToDelete] = useState<GeneratedImage | null>(null);
   
   const [showToast, setShowToast] = useState(false);
   const [showGenSuccessToast, setShowGenSuccessToast] = useState(false);
   const [showEditSuccessToast, setShowEditSuccessToast] = useState(false);
+  const [showPromptSavedToast, setShowPromptSavedToast] = useState(false);
+  const [showProcessedToast, setShowProcessedToast] = useState(false);
+  const [showMetadataToast, setShowMetadataToast] = useState(false);
+  const [showStorageFullToast, setShowStorageFullToast] = useState(false);
   const [showWarningToast, setShowWarningToast] = useState(false);
   const [warningMsg, setWarningMsg] = useState('');
   const [showErrorToast, setShowErrorToast] = useState(false);
@@ -421,21 +630,154 @@ export const TextGenerator: React.FC = () => {
       }
     } catch (e) {}
 
-    const load = async () => {
-      const savedItems = await getHistoryFromDB();
-      if (savedItems && savedItems.length > 0) {
-        setHistory(savedItems.slice(0, 10));
-      }
-      setIsHistoryLoaded(true);
-    };
-    load();
+    listCollections()
+      .then(setCollections)
+      .catch(e => console.warn("IDB Collections Load Failed", e));
   }, []);
 
+  // Start over from the newest record whenever the filter changes
+  useEffect(() => {
+    historyFilterRef.current = historyFilter;
+    const query = ++historyQueryRef.current;
+    setSelectedIds(prev => prev && new Set());
+    getHistoryPage(null, HISTORY_PAGE_SIZE, historyFilter)
+      .then(page => {
+        if (query !== historyQueryRef.current) return;
+        setHistory(page.items);
+        setHistoryCursor(page.cursor);
+      })
+      .catch(e => console.warn("IDB Read Failed", e));
+  }, [historyFilter]);
+
   useEffect(() => {
-    if (isHistoryLoaded) {
-      saveHistoryToDB(history);
+    historyCursorRef.current = historyCursor;
+  }, [historyCursor]);
+
+  const loadMoreHistory = useCallback(async () => {
+    if (!historyCursor || isLoadingMore) return;
+    const query = historyQueryRef.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await getHistoryPage(historyCursor, HISTORY_PAGE_SIZE, historyFilter);
+      if (query !== historyQueryRef.current) return;
+      setHistory(prev => {
+        // Records saved this session may already be in the list
+        const known = new Set(prev.map(item => item.id));
+        return [...prev, ...page.items.filter(item => !known.has(item.id))];
+      });
+      setHistoryCursor(page.cursor);
+    } catch (e) {
+      console.warn("IDB Read Failed", e);
+    } finally {
+      setIsLoadingMore(false);
     }
-  }, [history, isHistoryLoaded]);
+  }, [historyCursor, isLoadingMore, historyFilter]);
+
+  const addToHistory = (newImage: GeneratedImage) => {
+    if (matchesHistoryFilter(newImage, historyFilterRef.current)) setHistory(prev => [newImage, ...prev]);
+    return addHistoryRecord(newImage)
+      .then(saved => {
+        // Tiles switch to the stored thumbnail instead of decoding the full image
+        if (!saved.thumbnailUrl) return;
+        setHistory(prev => prev.map(item => item.id === saved.id ? { ...item, thumbnailUrl: saved.thumbnailUrl } : item));
+      })
+      .catch(e => {
+        console.warn("IDB Save Failed", e);
+        // The image is still shown, but won't survive a reload
+        if (isQuotaError(e)) {
+          setShowStorageFullToast(true);
+          setTimeout(() => setShowStorageFullToast(false), 8000);
+        }
+      });
+  };
+
+  /** Drops deleted records (by a cleanup or another tab) from everything showing them. */
+  const dropDeletedRecords = useCallback((ids: string[]) => {
+    const removed = new Set(ids);
+    setHistory(prev => {
+      prev.filter(item => removed.has(item.id)).forEach(releaseImageUrl);
+      return prev.filter(item => !removed.has(item.id));
+    });
+    setSelectedIds(prev => prev && new Set([...prev].filter(id => !removed.has(id))));
+    setImage(prev => prev && removed.has(prev.id) ? null : prev);
+    setPreviewImage(prev => prev && removed.has(prev.id) ? null : prev);
+  }, []);
+
+  // An automatic retention policy runs once saves settle
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    const unsubscribe = subscribeHistory(() => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        enforceRetentionPolicy()
+          .then(ids => ids.length > 0 && dropDeletedRecords(ids))
+          .catch(e => console.warn("IDB Cleanup Failed", e));
+      }, 1000);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [dropDeletedRecords]);
+
+  // Merge in records saved elsewhere, e.g. by workflow runs
+  useEffect(() => {
+    return subscribeHistory((saved) => {
+      // Matrix cells are only reachable through their grid
+      if (saved.gridId || !matchesHistoryFilter(saved, historyFilterRef.current)) return;
+      setHistory(prev => prev.some(item => item.id === saved.id) ? prev : [saved, ...prev]);
+    });
+  }, []);
+
+  // Changes written by other tabs, merged by record id
+  useEffect(() => {
+    return subscribeRemoteHistory(change => {
+      switch (change.type) {
+        case 'added':
+          Promise.all(change.ids.map(id => getHistoryRecord(id)))
+            .then(loaded => {
+              const incoming = loaded.filter((img): img is GeneratedImage => !!img);
+              // Records older than the loaded pages turn up when paging instead
+              const oldest = historyCursorRef.current?.[0];
+              const isWanted = (img: GeneratedImage) => !img.gridId
+                && matchesHistoryFilter(img, historyFilterRef.current)
+                && (oldest === undefined || img.timestamp >= oldest);
+              incoming.filter(img => !isWanted(img)).forEach(releaseImageUrl);
+              const wanted = incoming.filter(isWanted);
+              if (wanted.length === 0) return;
+              setHistory(prev => {
+                const known = new Set(prev.map(item => item.id));
+                wanted.filter(img => known.has(img.id)).forEach(releaseImageUrl);
+                const added = wanted.filter(img => !known.has(img.id));
+                return added.length === 0 ? prev : [...prev, ...added].sort((a, b) => b.timestamp - a.timestamp);
+              });
+            })
+            .catch(e => console.warn("IDB Read Failed", e));
+          break;
+        case 'updated': {
+          const updates = new Map(change.records.map(record => [record.id, record]));
+          setHistory(prev => prev.map(item => updates.has(item.id) ? { ...item, ...updates.get(item.id) } : item));
+          break;
+        }
+        case 'deleted':
+          dropDeletedRecords(change.ids);
+          break;
+        case 'cleared':
+          setHistory(prev => {
+            prev.forEach(releaseImageUrl);
+            return [];
+          });
+          setHistoryCursor(null);
+          setSelectedIds(prev => prev && new Set());
+          break;
+        case 'collections':
+          listCollections()
+            .then(setCollections)
+            .catch(e => console.warn("IDB Collections Load Failed", e));
+          break;
+      }
+    });
+  }, [dropDeletedRecords]);
 
   useEffect(() => {
     let timer: ReturnType<typeof setTimeout>;
@@ -458,42 +800,328 @@ export const TextGenerator: React.FC = () => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  const updateCandidate = (id: string, patch: Partial<BatchCandidate>) => {
+    setBatch(prev => prev && prev.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  /** The `offset`-th expansion from the current position; 0 is what the preview shows. */
+  const expandPrompt = (offset: number = 0): Expansion => expandTemplate(prompt, {
+    wildcards,
+    variables: templateVariables,
+    mode: expansionMode,
+    seed: templateSeed + offset,
+    index: sequenceIndex + offset,
+  });
+
+  const promptExpansion = isTemplate(prompt) ? expandPrompt() : null;
+
+  const advanceTemplate = (count: number) => {
+    if (expansionMode === 'sequential') {
+      setSequenceIndex(i => i + count);
+    } else {
+      setTemplateSeed(randomSeed());
+    }
+  };
+
+  // Uploads are stored once per content hash; the role is kept with the record
+  const saveReferences = (images: UploadedImage[]): Promise<ReferenceImageInfo[]> => {
+    return Promise.all(images.map(async img => ({ ...await saveUpload(img.url), role: img.role })));
+  };
+
+  const discardBatch = useCallback(() => {
+    // Candidates still queued are no longer wanted
+    batchAbortRef.current?.abort();
+    batchAbortRef.current = null;
+    setBatch(null);
+  }, []);
+
+  /**
+   * Fans one prompt out into `count` jobs with different seeds. Results stay
+   * out of the history until kept; a failed candidate doesn't stop the rest.
+   */
+  const runBatch = async (count: number) => {
+    discardBatch();
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+
+    const candidates: BatchCandidate[] = Array.from({ length: count }, () => ({
+      id: createHistoryId(),
+      status: 'pending',
+      selected: false,
+    }));
+    setBatch(candidates);
+    setImage(null);
+    setError(null);
+    setShowErrorToast(false);
+
+    const imagesToUse = uploadedImages.map(img => img.url);
+    const referenceRoles = uploadedImages.map(img => img.role);
+    const settings = { prompt, resolution, aspectRatio };
+    // Each candidate gets its own expansion, so wildcards vary across the batch
+    const prompts = candidates.map((_, index) => promptExpansion ? expandPrompt(index).prompt : prompt);
+    if (promptExpansion) advanceTemplate(count);
+    const baseSeed = Math.floor(Math.random() * 1_000_000);
+    let references: ReferenceImageInfo[] = [];
+    try {
+      references = await saveReferences(uploadedImages);
+    } catch (e) {
+      console.warn("IDB Save Failed", e);
+    }
+
+    await Promise.all(candidates.map(async (candidate, index) => {
+      try {
+        const { result, durationMs } = await enqueueJob({
+          source: 'simple',
+          prompt: prompts[index],
+          input: {
+            operation: 'generate',
+            referenceImages: imagesToUse,
+            referenceRoles,
+            resolution: settings.resolution,
+            aspectRatio: settings.aspectRatio,
+            seed: baseSeed + index,
+            ratioFit,
+          },
+        }, { signal: controller.signal });
+
+        updateCandidate(candidate.id, {
+          status: 'done',
+          image: {
+            id: candidate.id,
+            url: result.url,
+            prompt: prompts[index],
+            timestamp: Date.now(),
+            operation: 'generate',
+            model: result.model,
+            resolution: settings.resolution,
+            aspectRatio: settings.aspectRatio,
+            references,
+            parentId: null,
+            durationMs,
+            modelText: result.text,
+            template: promptExpansion ? settings.prompt : undefined,
+          },
+        });
+      } catch (err: any) {
+        updateCandidate(candidate.id, {
+          status: 'failed',
+          error: err instanceof JobCancelledError ? t('jobCancelled') : describeError(err, t),
+        });
+      }
+    }));
+  };
+
+  const toggleCandidate = useCallback((id: string) => {
+    setBatch(prev => prev && prev.map(c => c.id === id && c.status === 'done' ? { ...c, selected: !c.selected } : c));
+  }, []);
+
+  const keepSelectedCandidates = () => {
+    if (!batch) return;
+    const kept = batch.filter(c => c.selected && c.image).map(c => c.image!);
+    if (kept.length === 0) return;
+    // Oldest first so the first pick ends up on top of the history
+    [...kept].reverse().forEach(img => addToHistory({ ...img, timestamp: Date.now() }));
+    discardBatch();
+    setImage(kept[0]);
+    setShowGenSuccessToast(true);
+    setTimeout(() => setShowGenSuccessToast(false), 5000);
+  };
+
+  const showError = (message: string) => {
+    setError(message);
+    setShowErrorToast(true);
+    setTimeout(() => setShowErrorToast(false), 5000);
+  };
+
+  /**
+   * Generates every combination of the matrix axes, then saves one grid
+   * record linking to the cell records. Failed cells leave a gap.
+   */
+  const runMatrix = async () => {
+    // Wildcards and variables are filled in first; `{a|b}` groups survive expansion
+    const expanded = promptExpansion ? promptExpansion.prompt : prompt;
+    const axes = buildMatrixAxes(expanded, matrixSettings);
+    if (axes.length === 0) {
+      showError(t('matrixNoAxes'));
+      return;
+    }
+    if (countMatrixCells(axes) > MAX_MATRIX_CELLS) {
+      showError(t('matrixTooMany').replace('{max}', String(MAX_MATRIX_CELLS)));
+      return;
+    }
+
+    discardBatch();
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    const cells = expandMatrix(expanded, axes, { resolution, aspectRatio });
+    if (promptExpansion) advanceTemplate(1);
+    const imagesToUse = uploadedImages.map(img => img.url);
+    const referenceRoles = uploadedImages.map(img => img.role);
+
+    setPendingCount(n => n + 1);
+    setImage(null);
+    setError(null);
+    setShowErrorToast(false);
+
+    try {
+      const startedAt = performance.now();
+      const references = await saveReferences(uploadedImages);
+      const outcomes = await Promise.all(cells.map(cell =>
+        enqueueJob({
+          source: 'simple',
+          prompt: cell.prompt,
+          input: { operation: 'generate', referenceImages: imagesToUse, referenceRoles, resolution: cell.resolution, aspectRatio: cell.aspectRatio, ratioFit },
+        }, { signal: controller.signal }).catch(err => {
+          console.warn("Matrix cell failed", err);
+          return null;
+        })
+      ));
+      if (outcomes.every(outcome => !outcome)) {
+        if (!controller.signal.aborted) showError(t('matrixAllFailed'));
+        return;
+      }
+
+      const gridId = createHistoryId();
+      const cellImages: GeneratedImage[] = [];
+      outcomes.forEach((outcome, i) => {
+        if (!outcome) return;
+        cellImages.push({
+          id: createHistoryId(),
+          url: outcome.result.url,
+          prompt: cells[i].prompt,
+          timestamp: Date.now(),
+          operation: 'generate',
+          model: outcome.result.model,
+          resolution: cells[i].resolution,
+          aspectRatio: cells[i].aspectRatio,
+          references,
+          parentId: null,
+          durationMs: outcome.durationMs,
+          modelText: outcome.result.text,
+          gridId,
+        });
+      });
+
+      const gridUrl = await composeMatrixGrid(axes, cells, outcomes.map(outcome => outcome?.result.url ?? null));
+      const grid: GeneratedImage = {
+        id: gridId,
+        url: gridUrl,
+        prompt: expanded,
+        template: promptExpansion ? prompt : undefined,
+        timestamp: Date.now(),
+        operation: 'matrix',
+        model: cellImages[0].model,
+        references,
+        parentId: null,
+        durationMs: Math.round(performance.now() - startedAt),
+        cellIds: cellImages.map(cell => cell.id),
+      };
+
+      await Promise.all(cellImages.map(cell => addHistoryRecord(cell)));
+      addToHistory(grid);
+      setImage(grid);
+      setShowGenSuccessToast(true);
+      setTimeout(() => setShowGenSuccessToast(false), 5000);
+    } catch (err: any) {
+      showError(describeError(err, t));
+    } finally {
+      setPendingCount(n => n - 1);
+    }
+  };
+
+  // Queues the generation, so the form stays usable for the next prompt.
+  // The job saves its own history record, which arrives via subscribeHistory.
   const handleGenerate = async () => {
     if (!prompt.trim()) return;
-    setLoading(true);
+    if (promptExpansion) {
+      const missing = [
+        ...promptExpansion.missingVariables.map(name => `\${${name}}`),
+        ...promptExpansion.missingWildcards.map(name => `__${name}__`),
+      ];
+      if (missing.length > 0) {
+        showError(t('templateMissing').replace('{names}', missing.join(', ')));
+        return;
+      }
+    }
+    // Matrix cells may use other settings than the form
+    const resolutions = isMatrixMode && matrixSettings.resolutions.length > 0 ? matrixSettings.resolutions : [resolution];
+    const aspectRatios = isMatrixMode && matrixSettings.aspectRatios.length > 0 ? matrixSettings.aspectRatios : [aspectRatio];
+    for (const res of resolutions) {
+      for (const ratio of aspectRatios) {
+        const issue = checkGenerateRequest(capabilities, { referenceCount: uploadedImages.length, resolution: res, aspectRatio: ratio, ratioFit });
+        if (issue) {
+          showError(describeCapabilityIssue(issue, t));
+          return;
+        }
+      }
+    }
+    if (isMatrixMode) {
+      runMatrix();
+      return;
+    }
+    if (batchCount > 1) {
+      runBatch(batchCount);
+      return;
+    }
+    discardBatch();
+    setPendingCount(n => n + 1);
+    setImage(null);
     setError(null);
     setShowErrorToast(false);
+    const expanded = promptExpansion ? promptExpansion.prompt : prompt;
+    if (promptExpansion) advanceTemplate(1);
     
     try {
       const imagesToUse = uploadedImages.map(img => img.url);
-      const url = await generateImage(prompt, imagesToUse, resolution, aspectRatio);
-      
-      const newImage: GeneratedImage = {
-        url,
-        prompt,
-        timestamp: Date.now()
-      };
-
-      setImage(newImage);
-      
-      setHistory(prev => {
-        const newHistory = [newImage, ...prev];
-        return newHistory.slice(0, 10);
+      const references = await saveReferences(uploadedImages);
+      const { image: newImage } = await enqueueJob({
+        source: 'simple',
+        prompt: expanded,
+        input: { operation: 'generate', referenceImages: imagesToUse, referenceRoles: uploadedImages.map(img => img.role), resolution, aspectRatio, ratioFit },
+        record: { references, parentId: null, template: promptExpansion ? prompt : undefined },
       });
 
+      if (newImage) setImage(newImage);
+
       setShowGenSuccessToast(true);
       setTimeout(() => setShowGenSuccessToast(false), 5000);
 
     } catch (err: any) {
-      const errorMessage = err.message || t('errorGen');
+      if (err instanceof JobCancelledError) return;
+      const errorMessage = describeError(err, t);
       setError(errorMessage);
       setShowErrorToast(true);
       setTimeout(() => setShowErrorToast(false), 5000);
     } finally {
-      setLoading(false);
+      setPendingCount(n => n - 1);
     }
   };
 
+  const applyEditResult = (newImage: GeneratedImage) => {
+    // 1. Reset Main Page State (Inputs and Result)
+    setPrompt('');
+    setResolution('1K');
+    setAspectRatio('1:1');
+    setUploadedImages([]);
+    setImage(null); 
+    // Clear edit prompt after success
+    setEditPrompt('');
+
+    // 2. Update History; the version tree reads from IDB, so reload it once saved
+    addToHistory(newImage).then(() => setLineageVersion(v => v + 1));
+    
+    // 3. Update Edit Sidebar to show new image as target for continuous editing
+    setEditingImage(newImage);
+    
+    // 4. Update Fullscreen Preview if it happens to be open on the image we just edited
+    if (previewImage) {
+      setPreviewImage(newImage);
+    }
+
+    setShowEditSuccessToast(true);
+    setTimeout(() => setShowEditSuccessToast(false), 5000);
+  };
+
   const executeEdit = async () => {
     if (!editPrompt.trim() || !editingImage) return;
 
@@ -501,58 +1129,148 @@ export const TextGenerator: React.FC = () => {
     setError(null);
     
     try {
-      const newImageUrl = await editImage(editPrompt, editingImage.url);
+      const startedAt = performance.now();
+      const sourceImage = await urlToDataUrl(editingImage.url);
+      const mask = isMasking ? editMask : null;
+      const { result } = await enqueueJob({
+        source: 'simple',
+        prompt: editPrompt,
+        input: { operation: 'edit', inputImage: sourceImage, mask: mask || undefined },
+      });
+      // Models may still touch the rest of the frame; only keep the masked area
+      const url = mask ? await compositeMasked(sourceImage, result.url, mask) : result.url;
       
       const newImage: GeneratedImage = {
-        url: newImageUrl,
-        prompt: `Edit: ${editPrompt}`,
-        timestamp: Date.now()
+        id: createHistoryId(),
+        url,
+        prompt: editPrompt,
+        timestamp: Date.now(),
+        operation: 'edit',
+        model: result.model,
+        // Edits keep the framing of the image they start from
+        resolution: editingImage.resolution,
+        aspectRatio: editingImage.aspectRatio,
+        parentId: editingImage.id,
+        durationMs: Math.round(performance.now() - startedAt),
+        modelText: result.text,
       };
 
-      // 1. Reset Main Page State (Inputs and Result)
-      setPrompt('');
-      setResolution('1K');
-      setAspectRatio('1:1');
-      setUploadedImages([]);
-      setImage(null); 
-      // Clear edit prompt after success
-      setEditPrompt('');
-
-      // 2. Update History
-      setHistory(prev => [newImage, ...prev].slice(0, 10));
-      
-      // 3. Update Edit Sidebar to show new image as target for continuous editing
-      setEditingImage(newImage);
-      
-      // 4. Update Fullscreen Preview if it happens to be open on the image we just edited
-      if (previewImage) {
-        setPreviewImage(newImage);
-      }
+      applyEditResult(newImage);
+    } catch (err: any) {
+      if (err instanceof JobCancelledError) return;
+      const errorMessage = describeError(err, t);
+      setError(errorMessage);
+      setShowErrorToast(true);
+      setTimeout(() => setShowErrorToast(false), 5000);
+    } finally {
+      setIsEditing(false);
+    }
+  };
+
+  /**
+   * Sends the instruction as the next turn of the chat session. Editing an
+   * image that isn't the session's latest result starts a new session from it.
+   */
+  const executeChatEdit = async () => {
+    const instruction = editPrompt.trim();
+    if (!instruction || !editingImage) return;
 
-      setShowEditSuccessToast(true);
-      setTimeout(() => setShowEditSuccessToast(false), 5000);
+    setIsEditing(true);
+    setError(null);
+    setPendingChatText(instruction);
 
+    try {
+      const startedAt = performance.now();
+      const now = Date.now();
+      const session: EditSession = chatSession && latestSessionImageId(chatSession) === editingImage.id
+        ? chatSession
+        : { id: createSessionId(), baseId: editingImage.id, turns: [], createdAt: now, updatedAt: now };
+      const sourceImage = await urlToDataUrl(editingImage.url);
+      const { result } = await enqueueJob({
+        source: 'simple',
+        prompt: instruction,
+        input: { operation: 'chat', messages: await buildChatMessages(session, sourceImage, instruction) },
+      });
+
+      const newImage: GeneratedImage = {
+        id: createHistoryId(),
+        url: result.url,
+        prompt: instruction,
+        timestamp: Date.now(),
+        operation: 'edit',
+        model: result.model,
+        resolution: editingImage.resolution,
+        aspectRatio: editingImage.aspectRatio,
+        parentId: editingImage.id,
+        durationMs: Math.round(performance.now() - startedAt),
+        modelText: result.text,
+        sessionId: session.id,
+      };
+      const updated: EditSession = {
+        ...session,
+        turns: [
+          ...session.turns,
+          { role: 'user', text: instruction, timestamp: now },
+          {
+            role: 'model',
+            text: result.text,
+            imageId: newImage.id,
+            thumbnail: await createThumbnail(result.url),
+            timestamp: newImage.timestamp,
+          },
+        ],
+        updatedAt: newImage.timestamp,
+      };
+
+      setChatSession(updated);
+      putEditSession(updated).catch(e => console.warn("IDB Edit Session Save Failed", e));
+      applyEditResult(newImage);
     } catch (err: any) {
-      const errorMessage = err.message || t('errorGen');
+      if (err instanceof JobCancelledError) return;
+      const errorMessage = describeError(err, t);
       setError(errorMessage);
       setShowErrorToast(true);
       setTimeout(() => setShowErrorToast(false), 5000);
     } finally {
       setIsEditing(false);
+      setPendingChatText('');
     }
   };
 
+  const submitEdit = isChatMode ? executeChatEdit : executeEdit;
+
+  // Resume the conversation an image came from when it becomes the edit base
+  useEffect(() => {
+    const sessionId = editingImage?.sessionId;
+    if (!sessionId || chatSession?.id === sessionId) return;
+    let cancelled = false;
+    getEditSession(sessionId)
+      .then(session => {
+        if (cancelled || !session) return;
+        setChatSession(session);
+        setIsChatMode(true);
+        setIsMasking(false);
+      })
+      .catch(e => console.warn("IDB Edit Session Load Failed", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [editingImage?.sessionId]);
+
   // Keyboard Shortcuts: Ctrl+Enter (Cmd+Enter)
   useEffect(() => {
+    // Stay mounted but inert while another mode is shown
+    if (!isVisible) return;
+
     const handleKeyDown = (e: KeyboardEvent) => {
       if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
         e.preventDefault();
         if (isEditSidebarOpen) {
            if (editPrompt.trim() && editingImage && !isEditing) {
-             executeEdit();
+             submitEdit();
            }
         } else {
-           if (prompt.trim() && !loading) {
+           if (prompt.trim()) {
              handleGenerate();
            }
         }
@@ -560,38 +1278,189 @@ export const TextGenerator: React.FC = () => {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isEditSidebarOpen, prompt, editPrompt, editingImage, isEditing, loading, resolution, aspectRatio, uploadedImages]);
+  }, [isVisible, isEditSidebarOpen, prompt, editPrompt, editingImage, isEditing, isMasking, editMask, isChatMode, chatSession, loading, resolution, aspectRatio, uploadedImages, wildcards, templateVariables, expansionMode, templateSeed, sequenceIndex, batchCount, isMatrixMode, matrixSettings, ratioFit, capabilities]);
 
 
   const handleEdit = useCallback((e: React.MouseEvent, img: GeneratedImage) => {
     e.stopPropagation();
     setEditingImage(img);
     setEditPrompt(''); // Clear edit prompt every time
+    // A different image starts a fresh conversation unless it belongs to one
+    setChatSession(prev => prev && prev.id === img.sessionId ? prev : null);
     setIsEditSidebarOpen(true);
   }, []);
 
-  const handleDownload = useCallback((e: React.MouseEvent, imgUrl?: string) => {
+  const saveImageFile = async (img: GeneratedImage, basename: string) => {
+    // Lineage comes from the stored records; unsaved results carry just their own settings
+    const metadata = await getImageMetadata(img.id).catch(err => {
+      console.warn("IDB Metadata Load Failed", err);
+      return null;
+    });
+    // The extension follows the image's real type; models don't always return PNG
+    await downloadImage(img.url, basename, metadata || buildImageMetadata(img));
+  };
+
+  const handleDownload = useCallback(async (e: React.MouseEvent, img?: GeneratedImage) => {
     e.stopPropagation();
-    const urlToDownload = imgUrl || previewImage?.url || image?.url;
-    if (urlToDownload) {
-      const link = document.createElement('a');
-      link.href = urlToDownload;
-      link.download = `nano-banana-${Date.now()}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+    const imageToDownload = img || previewImage || image;
+    if (imageToDownload) {
+      try {
+        await saveImageFile(imageToDownload, `nano-banana-${Date.now()}`);
+      } catch (err) {
+        console.warn("Download Failed", err);
+        return;
+      }
 
       setShowToast(true);
       setTimeout(() => setShowToast(false), 5000);
     }
   }, [previewImage, image]);
 
+  // Processed copies are new records linked to their source, like edits
+  const handleSaveProcessed = (url: string) => {
+    if (!previewImage) return;
+    const processed: GeneratedImage = {
+      id: createHistoryId(),
+      url,
+      prompt: previewImage.prompt,
+      template: previewImage.template,
+      timestamp: Date.now(),
+      operation: 'postprocess',
+      parentId: previewImage.id,
+    };
+    addToHistory(processed).then(() => setLineageVersion(v => v + 1));
+    setPreviewImage(processed);
+    setShowPostProcess(false);
+    setShowProcessedToast(true);
+    setTimeout(() => setShowProcessedToast(false), 3000);
+  };
+
   const handlePreview = useCallback((img: GeneratedImage) => {
     setPreviewImage(img);
   }, []);
 
+  // Follows links from the details panel (parents, matrix cells)
+  const handleOpenRecord = async (id: string) => {
+    try {
+      const record = history.find(item => item.id === id) || await getHistoryRecord(id);
+      if (record) {
+        setPreviewImage(record);
+      } else {
+        showError(t('recordMissing'));
+      }
+    } catch (e) {
+      console.warn("IDB Load Failed", e);
+    }
+  };
+
+  // Restores the settings that produced an image into the form
+  const restoreReferences = async (references: ReferenceImageInfo[]) => {
+    const restored: UploadedImage[] = [];
+    for (const ref of references) {
+      // Fall back to the thumbnail if the original upload was removed
+      const url = (await getUpload(ref.hash).catch(() => undefined)) || ref.thumbnail;
+      restored.push({ url, size: formatSize(atob(url.split(',')[1]).length), role: ref.role });
+    }
+    const max = capabilities.maxReferenceImages;
+    setSkippedReferences(Math.max(0, restored.length - max));
+    setUploadedImages(restored.slice(0, max));
+  };
+
+  const handleReuseSettings = async (img: GeneratedImage) => {
+    setPrompt(img.prompt);
+    if (img.resolution) setResolution(img.resolution);
+    if (img.aspectRatio) setAspectRatio(img.aspectRatio);
+    await restoreReferences(img.references || []);
+
+    setShowDetails(false);
+    setPreviewImage(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Only settings travel in the file; references stay as they are
+  const handleLoadMetadata = (metadata: ImageMetadata) => {
+    setPrompt(metadata.template || metadata.prompt);
+    if (metadata.resolution) setResolution(metadata.resolution);
+    if (metadata.aspectRatio) setAspectRatio(metadata.aspectRatio);
+    setShowMetadataToast(true);
+    setTimeout(() => setShowMetadataToast(false), 3000);
+  };
+
+  const handleRewrite = async (mode: PromptRewriteMode) => {
+    if (!prompt.trim()) return;
+    rewriteAbortRef.current?.abort();
+    const controller = new AbortController();
+    rewriteAbortRef.current = controller;
+    const original = prompt;
+    setRewrite(null);
+    setRewritingMode(mode);
+
+    try {
+      const result = await rewritePrompt(original, mode, controller.signal);
+      if (!controller.signal.aborted) setRewrite({ mode, original, text: result.text });
+    } catch (err: any) {
+      if (!controller.signal.aborted) showError(describeError(err, t));
+    } finally {
+      if (rewriteAbortRef.current === controller) {
+        rewriteAbortRef.current = null;
+        setRewritingMode(null);
+      }
+    }
+  };
+
+  const acceptRewrite = () => {
+    if (!rewrite) return;
+    setPrompt(rewrite.text);
+    setRewrite(null);
+  };
+
+  const rejectRewrite = () => {
+    rewriteAbortRef.current?.abort();
+    setRewrite(null);
+  };
+
+  // Saved settings override the form; anything the entry leaves unset stays as is
+  const applySavedPrompt = async (saved: SavedPrompt) => {
+    setIsPromptLibraryOpen(false);
+    setPrompt(saved.body);
+    if (saved.resolution) setResolution(saved.resolution);
+    if (saved.aspectRatio) setAspectRatio(saved.aspectRatio);
+    if (saved.references) await restoreReferences(saved.references);
+  };
+
+  const handleSavePromptFromForm = () => {
+    setPromptDraft({
+      body: prompt,
+      resolution,
+      aspectRatio,
+      images: uploadedImages.map(img => img.url),
+    });
+  };
+
+  const handleSavePromptFromHistory = useCallback((e: React.MouseEvent, img: GeneratedImage) => {
+    e.stopPropagation();
+    setPromptDraft({
+      // The template is what's worth keeping when the prompt was expanded from one
+      body: img.template || img.prompt,
+      resolution: img.resolution,
+      aspectRatio: img.aspectRatio,
+      references: img.references,
+    });
+  }, []);
+
+  const handlePromptSaved = () => {
+    setPromptDraft(null);
+    setShowPromptSavedToast(true);
+    setTimeout(() => setShowPromptSavedToast(false), 3000);
+  };
+
   const handleRemoveImage = useCallback((index: number) => {
     setUploadedImages(prev => prev.filter((_, i) => i !== index));
+    setSkippedReferences(0);
+  }, []);
+
+  const handleReferenceRoleChange = useCallback((index: number, role?: ReferenceRole) => {
+    setUploadedImages(prev => prev.map((img, i) => i === index ? { ...img, role } : img));
   }, []);
 
   const handleUploadClick = useCallback(() => {
@@ -599,17 +1468,17 @@ export const TextGenerator: React.FC = () => {
   }, []);
 
   // Open Dialog
-  const handleClearClick = () => {
+  const handleClearClick = useCallback(() => {
     setShowClearDialog(true);
-  };
+  }, []);
 
   // Perform Clear
   const confirmClearHistory = async () => {
+      history.forEach(releaseImageUrl);
       setHistory([]);
+      setHistoryCursor(null);
       try {
-        const db = await initDB();
-        const tx = db.transaction(IDB_STORE, 'readwrite');
-        tx.objectStore(IDB_STORE).clear();
+        await clearHistory();
       } catch (e) {
         console.error("Failed to clear DB", e);
       }
@@ -624,19 +1493,204 @@ export const TextGenerator: React.FC = () => {
 
   const confirmDelete = async () => {
       if (!imageToDelete) return;
-      setHistory(prev => prev.filter(item => item.timestamp !== imageToDelete.timestamp));
+      setHistory(prev => prev.filter(item => item.id !== imageToDelete.id));
       setImageToDelete(null);
-      // DB sync happens in useEffect automatically
+      releaseImageUrl(imageToDelete);
+      try {
+        // A matrix grid takes its hidden cells with it
+        await deleteHistoryRecords([imageToDelete.id, ...(imageToDelete.cellIds || [])]);
+      } catch (e) {
+        console.error("Failed to delete record", e);
+      }
+  };
+
+  const handleOpenBackup = useCallback(() => setIsBackupOpen(true), []);
+  const handleOpenStorage = useCallback(() => setIsStorageOpen(true), []);
+
+  // Imported records can land anywhere in the timeline, so start over from the top
+  const handleBackupImported = () => {
+    setHistoryFilter(prev => ({ ...prev }));
+    listCollections()
+      .then(setCollections)
+      .catch(e => console.warn("IDB Collections Load Failed", e));
+  };
+
+  const handleCreateCollection = useCallback(async (name: string) => {
+    const collection: Collection = { id: createCollectionId(), name, createdAt: Date.now() };
+    setCollections(prev => [...prev, collection]);
+    try {
+      await putCollection(collection);
+    } catch (e) {
+      console.warn("IDB Collection Save Failed", e);
+    }
+  }, []);
+
+  const handleDeleteCollection = useCallback(async (collection: Collection) => {
+    setCollections(prev => prev.filter(c => c.id !== collection.id));
+    setHistoryFilter(prev => prev.collectionId === collection.id ? { ...prev, collectionId: null } : prev);
+    try {
+      await deleteCollection(collection.id);
+    } catch (e) {
+      console.warn("IDB Collection Delete Failed", e);
+    }
+  }, []);
+
+  // Records stay in view until the next reload, even if they stop matching the filter
+  const organizeHistory = useCallback(async (ids: string[], update: (current: HistoryOrganization) => HistoryOrganization) => {
+    const targets = new Set(ids);
+    setHistory(prev => prev.map(item => targets.has(item.id) ? { ...item, ...update(item) } : item));
+    try {
+      await updateHistoryRecords(ids, update);
+    } catch (e) {
+      console.warn("IDB Update Failed", e);
+    }
+  }, []);
+
+  const handleToggleFavorite = useCallback((e: React.MouseEvent, img: GeneratedImage) => {
+    e.stopPropagation();
+    organizeHistory([img.id], current => ({ ...current, favorite: !img.favorite }));
+  }, [organizeHistory]);
+
+  const handleStartSelect = useCallback(() => {
+    setSelectedIds(prev => prev ? null : new Set());
+  }, []);
+
+  const handleToggleSelect = useCallback((img: GeneratedImage) => {
+    setSelectedIds(prev => {
+      if (!prev) return prev;
+      const next = new Set(prev);
+      if (next.has(img.id)) {
+        next.delete(img.id);
+      } else {
+        next.add(img.id);
+      }
+      return next;
+    });
+  }, []);
+
+  const selectedImages = useMemo(
+    () => selectedIds ? history.filter(item => selectedIds.has(item.id)) : [],
+    [selectedIds, history]
+  );
+
+  const handleBulkAddTags = useCallback((tags: string[]) => {
+    organizeHistory(selectedImages.map(img => img.id), current => ({
+      ...current,
+      tags: Array.from(new Set([...(current.tags || []), ...tags])),
+    }));
+  }, [selectedImages, organizeHistory]);
+
+  const handleBulkRemoveTags = useCallback((tags: string[]) => {
+    organizeHistory(selectedImages.map(img => img.id), current => ({
+      ...current,
+      tags: (current.tags || []).filter(tag => !tags.includes(tag)),
+    }));
+  }, [selectedImages, organizeHistory]);
+
+  const handleBulkFavorite = useCallback((favorite: boolean) => {
+    organizeHistory(selectedImages.map(img => img.id), current => ({ ...current, favorite }));
+  }, [selectedImages, organizeHistory]);
+
+  // Moving takes records off the board being viewed; from "All" it only adds
+  const handleBulkMove = useCallback((target: string | null) => {
+    const source = historyFilter.collectionId;
+    const ids = selectedImages.map(img => img.id);
+    organizeHistory(ids, current => {
+      const kept = (current.collectionIds || []).filter(id => id !== source && id !== target);
+      return { ...current, collectionIds: target ? [...kept, target] : kept };
+    });
+    if (source) {
+      const moved = new Set(ids);
+      setHistory(prev => prev.filter(item => !moved.has(item.id)));
+      setSelectedIds(new Set());
+    }
+  }, [selectedImages, organizeHistory, historyFilter.collectionId]);
+
+  const handleBulkDownload = useCallback(async () => {
+    let downloaded = 0;
+    for (const img of selectedImages) {
+      try {
+        await saveImageFile(img, `nano-banana-${img.id}`);
+        downloaded++;
+      } catch (e) {
+        console.warn("Download Failed", e);
+      }
+    }
+    if (downloaded > 0) {
+      setShowToast(true);
+      setTimeout(() => setShowToast(false), 5000);
+    }
+  }, [selectedImages]);
+
+  const confirmBulkDelete = async () => {
+    const removed = new Set(selectedImages.map(img => img.id));
+    selectedImages.forEach(releaseImageUrl);
+    setHistory(prev => prev.filter(item => !removed.has(item.id)));
+    setSelectedIds(new Set());
+    if (image && removed.has(image.id)) setImage(null);
+    if (previewImage && removed.has(previewImage.id)) setPreviewImage(null);
+    try {
+      // Matrix grids take their hidden cells with them
+      await deleteHistoryRecords(selectedImages.flatMap(img => [img.id, ...(img.cellIds || [])]));
+    } catch (e) {
+      console.error("Failed to delete records", e);
+    }
+  };
+
+  // Lineage tree images own object URLs that are revoked on reload, so
+  // the edit base takes the history copy or a data URL instead
+  const handleSelectLineageBase = async (img: GeneratedImage) => {
+    const loaded = history.find(item => item.id === img.id);
+    try {
+      setEditingImage(loaded || { ...img, url: await urlToDataUrl(img.url) });
+    } catch (e) {
+      console.warn("Failed to load version", e);
+    }
+  };
+
+  const handleSelectChatImage = async (imageId: string) => {
+    const record = history.find(item => item.id === imageId) || await getHistoryRecord(imageId);
+    if (record) handleSelectLineageBase(record);
+  };
+
+  const handleDeleteBranch = async (ids: string[], branchRoot: GeneratedImage) => {
+    const removed = new Set(ids);
+    history.filter(item => removed.has(item.id)).forEach(releaseImageUrl);
+    setHistory(prev => prev.filter(item => !removed.has(item.id)));
+    if (image && removed.has(image.id)) setImage(null);
+    if (previewImage && removed.has(previewImage.id)) setPreviewImage(null);
+
+    try {
+      await deleteHistoryRecords(ids);
+    } catch (e) {
+      console.error("Failed to delete branch", e);
+    }
+
+    if (editingImage && removed.has(editingImage.id)) {
+      // Fall back to the version the branch was made from
+      const parent = branchRoot.parentId
+        ? history.find(item => item.id === branchRoot.parentId) || await getHistoryRecord(branchRoot.parentId)
+        : undefined;
+      if (parent) {
+        setEditingImage(parent);
+      } else {
+        setIsEditSidebarOpen(false);
+        setEditingImage(null);
+      }
+    }
+    setLineageVersion(v => v + 1);
   };
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (uploadedImages.length >= 2) return;
+    const max = capabilities.maxReferenceImages;
+    if (uploadedImages.length >= max) return;
 
     const files = Array.from(e.target.files || []) as File[];
     if (files.length === 0) return;
 
-    const remainingSlots = 2 - uploadedImages.length;
+    const remainingSlots = max - uploadedImages.length;
     const filesToProcess = files.slice(0, remainingSlots);
+    setSkippedReferences(files.length - filesToProcess.length);
     
     const processedResults: UploadedImage[] = [];
 
@@ -670,24 +1724,48 @@ export const TextGenerator: React.FC = () => {
     if (processedResults.length > 0) {
       setUploadedImages(prev => {
          const combined = [...prev, ...processedResults];
-         return combined.slice(0, 2);
+         return combined.slice(0, max);
       });
     }
 
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const ratios: { value: AspectRatio; label: string; class: string }[] = [
-    { value: '1:1', label: '1:1', class: 'w-4 h-4' },
-    { value: '3:4', label: '3:4', class: 'w-3 h-4' },
-    { value: '4:3', label: '4:3', class: 'w-4 h-3' },
-    { value: '9:16', label: '9:16', class: 'w-[9px] h-4' },
-    { value: '16:9', label: '16:9', class: 'w-4 h-[9px]' },
-    { value: '21:9', label: '21:9', class: 'w-5 h-[9px]' },
-  ];
-
   const acrylicBtn = "relative flex items-center gap-2 bg-black/50 hover:bg-black/70 backdrop-blur-md border border-white/10 text-white font-medium transition-all duration-200 shadow-sm whitespace-nowrap min-w-fit";
 
+  // Memoized so typing in the prompt doesn't re-render the history grid
+  const historyToolbar = useMemo(() => (
+    <>
+      <HistoryToolbar
+        filter={historyFilter}
+        onFilterChange={setHistoryFilter}
+        collections={collections}
+        onCreateCollection={handleCreateCollection}
+        onDeleteCollection={handleDeleteCollection}
+        resolutions={['1K', '2K', '4K']}
+        aspectRatios={RATIO_VALUES}
+      />
+      {selectedIds && (
+        <HistoryBulkBar
+          selectedCount={selectedImages.length}
+          collections={collections}
+          activeCollectionId={historyFilter.collectionId}
+          onSelectAll={() => setSelectedIds(new Set(history.map(item => item.id)))}
+          onDone={() => setSelectedIds(null)}
+          onAddTags={handleBulkAddTags}
+          onRemoveTags={handleBulkRemoveTags}
+          onFavorite={handleBulkFavorite}
+          onMove={handleBulkMove}
+          onDownload={handleBulkDownload}
+          onDelete={() => setShowBulkDeleteDialog(true)}
+        />
+      )}
+    </>
+  ), [
+    historyFilter, collections, handleCreateCollection, handleDeleteCollection, selectedIds, selectedImages, history,
+    handleBulkAddTags, handleBulkRemoveTags, handleBulkFavorite, handleBulkMove, handleBulkDownload,
+  ]);
+
   return (
     <div className="flex flex-col gap-8 pb-12 relative">
       {/* Custom Alert Dialog for Clear All */}
@@ -712,6 +1790,34 @@ export const TextGenerator: React.FC = () => {
         confirmText={t('confirm')}
       />
 
+      <AlertDialog 
+        open={showBulkDeleteDialog} 
+        onOpenChange={setShowBulkDeleteDialog}
+        onConfirm={confirmBulkDelete}
+        title={t('historyDeleteSelected')}
+        description={t('historyConfirmDeleteSelected').replace('{count}', String(selectedImages.length))}
+        cancelText={t('cancel')}
+        confirmText={t('confirm')}
+      />
+
+      <WildcardManager open={isWildcardsOpen} onClose={() => setIsWildcardsOpen(false)} />
+      <BackupDialog open={isBackupOpen} onClose={() => setIsBackupOpen(false)} onImported={handleBackupImported} />
+      <StoragePanel open={isStorageOpen} onClose={() => setIsStorageOpen(false)} onPruned={dropDeletedRecords} />
+      <PromptLibrary
+        open={isPromptLibraryOpen}
+        resolutions={['1K', '2K', '4K']}
+        aspectRatios={RATIO_VALUES}
+        onClose={() => setIsPromptLibraryOpen(false)}
+        onApply={applySavedPrompt}
+      />
+      <SavePromptDialog
+        draft={promptDraft}
+        resolutions={['1K', '2K', '4K']}
+        aspectRatios={RATIO_VALUES}
+        onClose={() => setPromptDraft(null)}
+        onSaved={handlePromptSaved}
+      />
+
       {/* Sidebar for Editing */}
       <div 
         className={cn(
@@ -736,19 +1842,96 @@ export const TextGenerator: React.FC = () => {
         
         {editingImage && (
             <div className="flex flex-col gap-6 flex-1 overflow-y-auto p-6 pt-0">
-                <div className="relative w-full max-w-[220px] mx-auto aspect-square rounded-lg overflow-hidden border border-zinc-800 shrink-0">
-                    <img src={editingImage.url} alt="Target" className="w-full h-full object-cover" />
-                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                        <span className="bg-black/60 px-3 py-1 rounded-full text-xs text-white backdrop-blur-md border border-white/10">{t('originalImage')}</span>
-                    </div>
+                <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-zinc-900 border border-zinc-800 shrink-0">
+                    {[false, true].map(chat => (
+                        <button
+                            key={String(chat)}
+                            onClick={() => {
+                                setIsChatMode(chat);
+                                if (chat) {
+                                    setIsMasking(false);
+                                    setEditMask(null);
+                                }
+                            }}
+                            disabled={isEditing}
+                            className={cn(
+                                "flex items-center justify-center gap-1.5 py-1.5 rounded-md text-xs font-medium transition-colors disabled:opacity-50",
+                                isChatMode === chat ? "bg-zinc-800 text-white" : "text-zinc-500 hover:text-zinc-300"
+                            )}
+                        >
+                            {chat ? <MessagesSquare className="w-3.5 h-3.5" /> : <Pencil className="w-3.5 h-3.5" />}
+                            {chat ? t('chatMode') : t('singleEditMode')}
+                        </button>
+                    ))}
                 </div>
+
+                {isMasking ? (
+                    <MaskEditor imageUrl={editingImage.url} onChange={setEditMask} />
+                ) : (
+                    <div className="relative w-full max-w-[220px] mx-auto aspect-square rounded-lg overflow-hidden border border-zinc-800 shrink-0">
+                        <img src={editingImage.url} alt="Target" className="w-full h-full object-cover" />
+                        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                            <span className="bg-black/60 px-3 py-1 rounded-full text-xs text-white backdrop-blur-md border border-white/10">{t('originalImage')}</span>
+                        </div>
+                    </div>
+                )}
+
+                {isChatMode ? (
+                    <div className="space-y-2 shrink-0">
+                        <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-zinc-300">{t('chatTitle')}</span>
+                            <button
+                                onClick={() => setChatSession(null)}
+                                disabled={isEditing || !chatSession}
+                                className="flex items-center gap-1 px-2 py-1 rounded text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40 transition-colors"
+                            >
+                                <MessageSquarePlus className="w-3.5 h-3.5" />
+                                {t('chatNew')}
+                            </button>
+                        </div>
+                        <ChatEditTimeline
+                            turns={chatSession?.turns || []}
+                            currentId={editingImage.id}
+                            pendingText={pendingChatText}
+                            onSelectImage={handleSelectChatImage}
+                        />
+                        {chatSession && latestSessionImageId(chatSession) !== editingImage.id && (
+                            <p className="text-xs text-amber-400/80">{t('chatBranchHint')}</p>
+                        )}
+                    </div>
+                ) : (
+                <label className="flex items-start gap-2 text-sm text-zinc-300 cursor-pointer shrink-0">
+                    <input
+                        type="checkbox"
+                        checked={isMasking}
+                        onChange={(e) => {
+                            setIsMasking(e.target.checked);
+                            setEditMask(null);
+                        }}
+                        className="mt-0.5 accent-purple-500"
+                    />
+                    <span>
+                        {t('maskToggle')}
+                        <span className="block text-xs text-zinc-500">
+                            {isMasking && !editMask ? t('maskEmptyHint') : t('maskToggleDesc')}
+                        </span>
+                    </span>
+                </label>
+                )}
+
+                <EditLineageTree
+                    currentId={editingImage.id}
+                    refreshKey={lineageVersion}
+                    onSelectBase={handleSelectLineageBase}
+                    onDeleteBranch={handleDeleteBranch}
+                />
                 
                 <div className="space-y-2 md:flex-1 flex flex-col">
                     <label className="text-sm font-medium text-zinc-300">{t('promptTitle')}</label>
                     <textarea 
                         value={editPrompt}
                         onChange={(e) => setEditPrompt(e.target.value)}
-                        placeholder={t('editPromptPlaceholder')}
+                        placeholder={isChatMode && chatSession?.turns.length ? t('chatFollowUpPlaceholder') : t('editPromptPlaceholder')}
                         className="w-full h-24 md:h-full p-3 rounded-lg bg-zinc-900 border border-zinc-800 text-base md:text-sm focus:ring-1 focus:ring-purple-500 resize-none"
                         autoFocus={false}
                     />
@@ -757,7 +1940,7 @@ export const TextGenerator: React.FC = () => {
                 <Button 
                     variant="magic" 
                     className="w-full shrink-0 mb-4"
-                    onClick={executeEdit}
+                    onClick={submitEdit}
                     disabled={!editPrompt.trim()}
                     isLoading={isEditing}
                     loadingText={t('editing')}
@@ -793,6 +1976,34 @@ export const TextGenerator: React.FC = () => {
           </div>
         )}
         
+        {showPromptSavedToast && (
+          <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[300] bg-zinc-800 text-white px-4 py-2 rounded-full shadow-lg border border-green-500/50 flex items-center gap-2 animate-in fade-in slide-in-from-top-2">
+              <CheckCircle2 className="w-4 h-4 text-green-400" />
+              <span className="text-sm font-medium text-green-100">{t('promptSaved')}</span>
+          </div>
+        )}
+
+        {showProcessedToast && (
+          <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[300] bg-zinc-800 text-white px-4 py-2 rounded-full shadow-lg border border-green-500/50 flex items-center gap-2 animate-in fade-in slide-in-from-top-2">
+              <CheckCircle2 className="w-4 h-4 text-green-400" />
+              <span className="text-sm font-medium text-green-100">{t('ppSaved')}</span>
+          </div>
+        )}
+
+        {showMetadataToast && (
+          <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[300] bg-zinc-800 text-white px-4 py-2 rounded-full shadow-lg border border-green-500/50 flex items-center gap-2 animate-in fade-in slide-in-from-top-2">
+              <CheckCircle2 className="w-4 h-4 text-green-400" />
+              <span className="text-sm font-medium text-green-100">{t('metadataLoaded')}</span>
+          </div>
+        )}
+
+        {showStorageFullToast && (
+          <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[300] bg-zinc-800 text-white px-4 py-2 rounded-full shadow-lg border border-red-500/50 flex items-center gap-2 animate-in fade-in slide-in-from-top-2">
+              <HardDrive className="w-4 h-4 text-red-500" />
+              <span className="text-sm font-medium text-red-100">{t('storageFull')}</span>
+          </div>
+        )}
+
         {showEditSuccessToast && (
           <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[300] bg-zinc-800 text-white px-4 py-2 rounded-full shadow-lg border border-green-500/50 flex items-center gap-2 animate-in fade-in slide-in-from-top-2">
               <CheckCircle2 className="w-4 h-4 text-green-400" />
@@ -822,6 +2033,7 @@ export const TextGenerator: React.FC = () => {
                 if(!isEditSidebarOpen) setPreviewImage(null);
             }}
           >
+            <div className="flex flex-col sm:flex-row items-center gap-4 max-w-full max-h-full">
             <div className="relative max-w-full max-h-full flex flex-col items-center">
               <img 
                 src={previewImage.url} 
@@ -853,14 +2065,55 @@ export const TextGenerator: React.FC = () => {
 
                 {/* Download Button: Hidden on mobile */}
                 <button 
-                  onClick={(e) => handleDownload(e, previewImage.url)} 
+                  onClick={(e) => handleDownload(e, previewImage)} 
                   className={cn(acrylicBtn, "px-6 py-2.5 md:px-8 md:py-3 rounded-full hidden md:flex")}
                 >
                   <Download className="w-4 h-4 md:w-5 md:h-5" />
                   <span className="font-medium tracking-wide text-sm md:text-base">{t('download')}</span>
                 </button>
+
+                <button 
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowPostProcess(v => !v);
+                    setShowDetails(false);
+                  }} 
+                  className={cn(acrylicBtn, "px-3 py-2.5 md:px-3.5 md:py-3 rounded-full", showPostProcess && "bg-white/20")}
+                  title={t('ppTitle')}
+                >
+                  <SlidersHorizontal className="w-4 h-4 md:w-5 md:h-5" />
+                </button>
+
+                <button 
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowDetails(v => !v);
+                    setShowPostProcess(false);
+                  }} 
+                  className={cn(acrylicBtn, "px-3 py-2.5 md:px-3.5 md:py-3 rounded-full", showDetails && "bg-white/20")}
+                  title={t('detailsTitle')}
+                >
+                  <Info className="w-4 h-4 md:w-5 md:h-5" />
+                </button>
               </div>
             </div>
+
+            {showDetails && (
+              <ImageDetails
+                image={previewImage}
+                onReuse={handleReuseSettings}
+                onOpenRecord={handleOpenRecord}
+                onClose={() => setShowDetails(false)}
+              />
+            )}
+            {showPostProcess && (
+              <PostProcessPanel
+                image={previewImage}
+                onClose={() => setShowPostProcess(false)}
+                onSave={handleSaveProcessed}
+              />
+            )}
+            </div>
           </div>
         )}
 
@@ -871,6 +2124,23 @@ export const TextGenerator: React.FC = () => {
               <CardTitle className="text-xl flex items-center gap-2">
                 <Sparkles className="w-5 h-5 text-yellow-400" />
                 {t('promptTitle')}
+                <div className="ml-auto flex items-center gap-1">
+                  <button
+                    onClick={() => setIsPromptLibraryOpen(true)}
+                    className="p-2 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+                    title={t('promptLibrary')}
+                  >
+                    <BookMarked className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={handleSavePromptFromForm}
+                    disabled={!prompt.trim()}
+                    className="p-2 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                    title={t('promptSaveTitle')}
+                  >
+                    <BookmarkPlus className="w-4 h-4" />
+                  </button>
+                </div>
               </CardTitle>
             </CardHeader>
             <CardContent className="flex-1 flex flex-col gap-4">
@@ -881,21 +2151,114 @@ export const TextGenerator: React.FC = () => {
                 className="w-full min-h-[120px] p-4 rounded-md bg-zinc-950 border border-zinc-800 text-zinc-100 focus:outline-none focus:ring-0 focus:border-zinc-700 resize-none transition-colors"
               />
 
+              <div className="flex items-center gap-1 -mt-2">
+                {([
+                  { mode: 'enhance', icon: Wand2, label: t('rewriteEnhance') },
+                  { mode: 'toEnglish', icon: Languages, label: t('rewriteToEnglish') },
+                  { mode: 'toChinese', icon: Languages, label: t('rewriteToChinese') },
+                ] as { mode: PromptRewriteMode; icon: React.ElementType; label: string }[]).map(({ mode, icon: Icon, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => handleRewrite(mode)}
+                    disabled={!prompt.trim() || rewritingMode !== null}
+                    className="flex items-center gap-1.5 px-2 py-1 rounded text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-zinc-400 transition-colors"
+                  >
+                    {rewritingMode === mode
+                      ? <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                      : <Icon className="w-3 h-3" />}
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              <MetadataDropZone
+                onLoad={handleLoadMetadata}
+                onMissing={() => showError(t('metadataMissing'))}
+              />
+
+              {rewrite && (
+                <PromptRewritePreview
+                  mode={rewrite.mode}
+                  original={rewrite.original}
+                  rewritten={rewrite.text}
+                  onAccept={acceptRewrite}
+                  onReject={rejectRewrite}
+                />
+              )}
+
+              {promptExpansion && (
+                <PromptTemplateFields
+                  template={prompt}
+                  variables={templateVariables}
+                  onVariablesChange={setTemplateVariables}
+                  mode={expansionMode}
+                  onModeChange={setExpansionMode}
+                  expansion={promptExpansion}
+                  onReroll={() => advanceTemplate(1)}
+                  onManageWildcards={() => setIsWildcardsOpen(true)}
+                />
+              )}
+
+              <div className="flex items-center justify-between gap-4">
+                <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer w-fit">
+                  <input
+                    type="checkbox"
+                    checked={isMatrixMode}
+                    onChange={(e) => setIsMatrixMode(e.target.checked)}
+                    className="accent-purple-500"
+                  />
+                  <Grid3x3 className="w-3 h-3" />
+                  {t('matrixToggle')}
+                </label>
+                {!promptExpansion && (
+                  <button
+                    onClick={() => setIsWildcardsOpen(true)}
+                    className="flex items-center gap-1.5 text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+                    title={t('templateHint')}
+                  >
+                    <Shuffle className="w-3 h-3" />
+                    {t('wildcardLibrary')}
+                  </button>
+                )}
+              </div>
+              {isMatrixMode && (
+                <PromptMatrixPanel
+                  prompt={prompt}
+                  settings={matrixSettings}
+                  onChange={setMatrixSettings}
+                  resolutions={['1K', '2K', '4K']}
+                  aspectRatios={RATIO_VALUES}
+                />
+              )}
+
               <div className="flex flex-col gap-6">
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
                       <label className="text-xs font-medium flex items-center gap-2 text-zinc-400">
-                          <ImageIcon className="w-3 h-3" /> {t('uploadTitle')}
+                          <ImageIcon className="w-3 h-3" /> {t('uploadTitle').replace('{max}', String(capabilities.maxReferenceImages))}
                       </label>
                   </div>
                   
                   <UploadList 
                     images={uploadedImages} 
+                    max={capabilities.maxReferenceImages}
                     t={t} 
                     onRemove={handleRemoveImage} 
+                    onRoleChange={handleReferenceRoleChange}
                     onUploadClick={handleUploadClick}
                     fileInputRef={fileInputRef}
                   />
+                  {formIssue && formIssue.kind !== 'aspectRatio' && (
+                    <p className="text-xs text-amber-400/90">{describeCapabilityIssue(formIssue, t)}</p>
+                  )}
+                  {skippedReferences > 0 && (
+                    <p className="text-xs text-amber-400/90">
+                      {t('capReferencesSkipped')
+                        .replace('{count}', String(skippedReferences))
+                        .replace('{max}', String(capabilities.maxReferenceImages))
+                        .replace('{model}', capabilities.model)}
+                    </p>
+                  )}
                   
                   <input 
                     type="file" 
@@ -916,15 +2279,19 @@ export const TextGenerator: React.FC = () => {
                     </label>
                     <div className="grid grid-cols-3 gap-2">
                       {['1K', '2K', '4K'].map((res) => {
+                        const blockedByReferences = res === '4K' && !capabilities.referencesAt4K && uploadedImages.length > 0;
                         return (
                         <button
                           key={res}
                           onClick={() => setResolution(res as Resolution)}
+                          disabled={!capabilities.resolutions.includes(res as Resolution)}
+                          title={blockedByReferences ? t('notAvailableIn4K') : undefined}
                           className={cn(
-                            "py-2 px-1 rounded text-xs font-medium border transition-colors",
+                            "py-2 px-1 rounded text-xs font-medium border transition-colors disabled:opacity-40 disabled:cursor-not-allowed",
                             resolution === res 
                               ? "bg-zinc-800 border-primary text-white shadow-sm" 
-                              : "bg-zinc-950 border-zinc-800 text-zinc-500 hover:bg-zinc-900"
+                              : "bg-zinc-950 border-zinc-800 text-zinc-500 hover:bg-zinc-900",
+                            blockedByReferences && "line-through decoration-amber-400/70"
                           )}
                         >
                           {res}
@@ -937,36 +2304,86 @@ export const TextGenerator: React.FC = () => {
                     <label className="text-xs font-medium text-zinc-400 flex items-center gap-2">
                       <Ratio className="w-3 h-3" /> {t('aspectRatioTitle')}
                     </label>
-                    <div className="grid grid-cols-3 gap-1">
-                      {ratios.map((r) => (
+                    <div className="grid grid-cols-5 gap-1">
+                      {RATIOS.map((r) => {
+                        const supported = capabilities.aspectRatios.includes(r.value);
+                        return (
                         <button
                           key={r.value}
                           onClick={() => setAspectRatio(r.value)}
                           className={cn(
-                            "flex flex-col items-center justify-center gap-1 p-1.5 rounded transition-colors aspect-square",
+                            "relative flex flex-col items-center justify-center gap-1 p-1.5 rounded transition-colors aspect-square",
                             aspectRatio === r.value 
                               ? "bg-zinc-800 text-white ring-1 ring-primary" 
-                              : "bg-zinc-950 border border-zinc-800 text-zinc-600 hover:text-zinc-300 hover:bg-zinc-900"
+                              : "bg-zinc-950 border border-zinc-800 text-zinc-600 hover:text-zinc-300 hover:bg-zinc-900",
+                            !supported && "border-dashed"
                           )}
-                          title={r.label}
+                          title={supported ? r.label : t('ratioUnsupportedTitle').replace('{model}', capabilities.model)}
                         >
                           <div className={cn("border border-current rounded-[1px]", r.class)} />
                           <span className="text-[8px] font-medium leading-none">{r.label}</span>
+                          {!supported && <span className="absolute top-0.5 right-0.5 w-1 h-1 rounded-full bg-amber-400" />}
                         </button>
-                      ))}
+                      )})}
                     </div>
+                    {needsRatioFit && (
+                      <div className="space-y-1.5 p-2 rounded border border-amber-500/30 bg-amber-950/10">
+                        <p className="text-[11px] text-amber-400/90">
+                          {ratioFit
+                            ? t(`ratioFitHint_${ratioFit}`).replace('{model}', capabilities.model)
+                            : t('ratioFitOffHint').replace('{model}', capabilities.model)}
+                        </p>
+                        <div className="grid grid-cols-3 gap-1">
+                          {([undefined, 'crop', 'pad'] as (RatioFit | undefined)[]).map(fit => (
+                            <button
+                              key={fit || 'off'}
+                              onClick={() => setRatioFit(fit)}
+                              className={cn(
+                                "py-1 rounded text-[11px] font-medium border transition-colors",
+                                ratioFit === fit
+                                  ? "bg-zinc-800 border-primary text-white"
+                                  : "bg-zinc-950 border-zinc-800 text-zinc-500 hover:bg-zinc-900"
+                              )}
+                            >
+                              {t(`ratioFit_${fit || 'off'}`)}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+                
+                <div className="space-y-2">
+                  <label className="text-xs font-medium text-zinc-400 flex items-center gap-2">
+                    <Layers className="w-3 h-3" /> {t('batchCountTitle')}
+                  </label>
+                  <div className="grid grid-cols-8 gap-1">
+                    {Array.from({ length: MAX_BATCH_COUNT }, (_, i) => i + 1).map((count) => (
+                      <button
+                        key={count}
+                        onClick={() => setBatchCount(count)}
+                        className={cn(
+                          "py-1.5 rounded text-xs font-medium border transition-colors",
+                          batchCount === count
+                            ? "bg-zinc-800 border-primary text-white shadow-sm"
+                            : "bg-zinc-950 border-zinc-800 text-zinc-500 hover:bg-zinc-900"
+                        )}
+                      >
+                        {count}
+                      </button>
+                    ))}
                   </div>
                 </div>
                 
                 <div className="pt-2">
                   <RainbowButton 
                     onClick={handleGenerate} 
-                    isLoading={loading}
-                    loadingText={t('generating')}
-                    disabled={!prompt.trim() || loading}
+                    disabled={!prompt.trim()}
                     className="w-full h-12 rounded-xl"
                   >
-                    {t('generateBtn')}
+                    {loading ? `${t('addToQueue')} (${pendingCount})` : t('generateBtn')}
+                    {isMatrixMode ? ` · ${t('matrixTitle')}` : batchCount > 1 && ` ×${batchCount}`}
                   </RainbowButton>
                 </div>
               </div>
@@ -988,14 +2405,25 @@ export const TextGenerator: React.FC = () => {
                 {t('resultTitle')}
               </CardTitle>
             </CardHeader>
-            {/* Memoized Result Display */}
-            <ResultDisplay 
-              image={image} 
-              loading={loading} 
-              t={t} 
-              onPreview={handlePreview} 
-              onDownload={handleDownload}
-            />
+            {batch ? (
+              <BatchGrid
+                candidates={batch}
+                t={t}
+                onToggle={toggleCandidate}
+                onPreview={handlePreview}
+                onKeep={keepSelectedCandidates}
+                onDiscard={discardBatch}
+              />
+            ) : (
+              /* Memoized Result Display */
+              <ResultDisplay 
+                image={image} 
+                loading={loading && !image} 
+                t={t} 
+                onPreview={handlePreview} 
+                onDownload={handleDownload}
+              />
+            )}
           </Card>
         </div>
       </div>
@@ -1009,6 +2437,18 @@ export const TextGenerator: React.FC = () => {
         onEdit={handleEdit}
         onClear={handleClearClick}
         onDelete={handleDeleteClick}
+        onSavePrompt={handleSavePromptFromHistory}
+        onToggleFavorite={handleToggleFavorite}
+        onOpenBackup={handleOpenBackup}
+        onOpenStorage={handleOpenStorage}
+        selectedIds={selectedIds}
+        onStartSelect={handleStartSelect}
+        onToggleSelect={handleToggleSelect}
+        toolbar={historyToolbar}
+        isFiltered={isHistoryFiltered(historyFilter)}
+        hasMore={historyCursor !== null}
+        isLoadingMore={isLoadingMore}
+        onLoadMore={loadMoreHistory}
       />
     </div>
   );
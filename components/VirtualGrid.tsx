@@ -0,0 +1,74 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualGridOptions {
+  count: number;
+  /** Column count for a viewport width; the grid's CSS must lay out the same. */
+  columnsFor: (viewportWidth: number) => number;
+  /** Gap between tiles in pixels, matching the grid's CSS. */
+  gap: number;
+  /** Rows kept mounted above and below the viewport. */
+  overscan?: number;
+}
+
+/**
+ * Windowing for a grid of square tiles in the page's normal scroll flow:
+ * only rows near the viewport are mounted. Attach `containerRef` to the
+ * grid, render items `start` to `end` and apply the paddings, which stand
+ * in for the rows left out.
+ */
+export const useVirtualGrid = ({ count, columnsFor, gap, overscan = 2 }: VirtualGridOptions) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [rows, setRows] = useState<[first: number, last: number]>([0, 0]);
+
+  // The container resizes along with the viewport, so this stays current
+  const columns = Math.max(1, columnsFor(window.innerWidth));
+  const rowCount = Math.ceil(count / columns);
+  const rowHeight = width > 0 ? (width - gap * (columns - 1)) / columns + gap : 0;
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setWidth(container.clientWidth);
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container || rowHeight <= 0) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const top = container.getBoundingClientRect().top;
+      const first = Math.min(rowCount, Math.max(0, Math.floor(-top / rowHeight) - overscan));
+      const last = Math.max(first, Math.min(rowCount, Math.ceil((window.innerHeight - top) / rowHeight) + overscan));
+      setRows(prev => prev[0] === first && prev[1] === last ? prev : [first, last]);
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    // Capture catches scrolling of any ancestor, not just the window
+    window.addEventListener('scroll', schedule, { capture: true, passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule, { capture: true });
+      window.removeEventListener('resize', schedule);
+    };
+  }, [rowHeight, rowCount, overscan]);
+
+  // Until the grid has been measured (or while it is hidden), render a first screenful
+  const [first, last] = rowHeight > 0 ? rows : [0, Math.min(rowCount, 4)];
+  return {
+    containerRef,
+    start: first * columns,
+    end: Math.min(count, last * columns),
+    paddingTop: first * rowHeight,
+    paddingBottom: Math.max(0, (rowCount - last) * rowHeight),
+  };
+};
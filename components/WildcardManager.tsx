@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Save, Shuffle, Trash2, Upload, X } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { AlertDialog } from './ui/AlertDialog';
+import { cn } from '../lib/utils';
+import { Wildcard } from '../types';
+import { parseWildcardText, toWildcardName } from '../lib/promptTemplate';
+import { listWildcards, putWildcard, renameWildcard, deleteWildcard } from '../services/wildcardStore';
+
+interface WildcardManagerProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface Draft {
+  /** Name the wildcard is stored under; null for one not saved yet. */
+  originalName: string | null;
+  name: string;
+  text: string;
+}
+
+const toDraft = (wildcard: Wildcard): Draft => ({
+  originalName: wildcard.name,
+  name: wildcard.name,
+  text: wildcard.values.join('\n'),
+});
+
+export const WildcardManager: React.FC<WildcardManagerProps> = ({ open, onClose }) => {
+  const { t } = useLanguage();
+  const [wildcards, setWildcards] = useState<Wildcard[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [toDelete, setToDelete] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setWildcards(await listWildcards());
+    } catch (e) {
+      console.warn("IDB Wildcards List Failed", e);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      refresh();
+      setError(null);
+    }
+  }, [open]);
+
+  if (!open) return null;
+
+  const draftName = draft ? toWildcardName(draft.name) : '';
+  const nameTaken = !!draft && draftName !== draft.originalName && wildcards.some(w => w.name === draftName);
+
+  const handleSave = async () => {
+    if (!draft || !draftName) return;
+    if (nameTaken) {
+      setError(t('wildcardNameTaken').replace('{name}', draftName));
+      return;
+    }
+    const wildcard: Wildcard = { name: draftName, values: parseWildcardText(draft.text), updatedAt: Date.now() };
+    try {
+      if (draft.originalName && draft.originalName !== draftName) {
+        await renameWildcard(draft.originalName, wildcard);
+      } else {
+        await putWildcard(wildcard);
+      }
+      setDraft(toDraft(wildcard));
+      setError(null);
+      refresh();
+    } catch (e) {
+      console.warn("IDB Wildcard Save Failed", e);
+      setError(t('wildcardSaveFailed'));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    let last: Wildcard | null = null;
+
+    for (const file of files) {
+      const name = toWildcardName(file.name);
+      if (!name) continue;
+      try {
+        last = { name, values: parseWildcardText(await file.text()), updatedAt: Date.now() };
+        // Importing a file with an existing name replaces that list
+        await putWildcard(last);
+      } catch (err) {
+        console.warn("Wildcard Import Failed", err);
+        setError(t('wildcardSaveFailed'));
+      }
+    }
+    if (last) setDraft(toDraft(last));
+    refresh();
+  };
+
+  const confirmDelete = async () => {
+    if (!toDelete) return;
+    try {
+      await deleteWildcard(toDelete);
+      if (draft?.originalName === toDelete) setDraft(null);
+    } catch (e) {
+      console.warn("IDB Wildcard Delete Failed", e);
+    }
+    setToDelete(null);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[260] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <AlertDialog
+        open={!!toDelete}
+        onOpenChange={(o) => !o && setToDelete(null)}
+        onConfirm={confirmDelete}
+        title={t('wildcardDeleteTitle')}
+        description={t('wildcardConfirmDelete').replace('{name}', toDelete || '')}
+        cancelText={t('cancel')}
+        confirmText={t('confirm')}
+      />
+
+      <div
+        className="w-full max-w-2xl h-[70vh] flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <h3 className="text-sm font-bold text-zinc-200 flex items-center gap-2">
+            <Shuffle className="w-4 h-4 text-zinc-400" />
+            {t('wildcardLibrary')}
+          </h3>
+          <button onClick={onClose} className="p-1.5 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-48 shrink-0 flex flex-col border-r border-zinc-800">
+            <div className="flex gap-1 p-2 border-b border-zinc-800">
+              <button
+                onClick={() => { setDraft({ originalName: null, name: '', text: '' }); setError(null); }}
+                className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded text-xs text-zinc-300 bg-zinc-900 hover:bg-zinc-800 transition-colors"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                {t('wildcardNew')}
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded text-xs text-zinc-300 bg-zinc-900 hover:bg-zinc-800 transition-colors"
+                title={t('wildcardImportHint')}
+              >
+                <Upload className="w-3.5 h-3.5" />
+                {t('wildcardImport')}
+              </button>
+              <input ref={fileInputRef} type="file" accept=".txt,text/plain" multiple className="hidden" onChange={handleImport} />
+            </div>
+            <div className="flex-1 overflow-y-auto p-1">
+              {wildcards.length === 0 ? (
+                <p className="text-[11px] text-zinc-500 text-center py-6 px-2">{t('wildcardEmpty')}</p>
+              ) : wildcards.map(wildcard => (
+                <button
+                  key={wildcard.name}
+                  onClick={() => { setDraft(toDraft(wildcard)); setError(null); }}
+                  className={cn(
+                    "w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded text-left transition-colors",
+                    draft?.originalName === wildcard.name ? "bg-zinc-800 text-white" : "text-zinc-400 hover:bg-zinc-900"
+                  )}
+                >
+                  <span className="font-mono text-xs truncate">__{wildcard.name}__</span>
+                  <span className="text-[10px] text-zinc-600 shrink-0">{wildcard.values.length}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {draft ? (
+            <div className="flex-1 flex flex-col gap-3 p-4 min-w-0">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder={t('wildcardNamePlaceholder')}
+                className="w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm font-mono text-zinc-200 focus:outline-none focus:ring-1 focus:ring-zinc-600"
+              />
+              <textarea
+                value={draft.text}
+                onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                placeholder={t('wildcardValuesPlaceholder')}
+                className="flex-1 w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-200 resize-none focus:outline-none focus:ring-1 focus:ring-zinc-600"
+              />
+              {error && <p className="text-xs text-red-400">{error}</p>}
+              <div className="flex items-center gap-2">
+                <span className="text-[11px] text-zinc-500 flex-1">
+                  {t('wildcardTermCount').replace('{count}', String(parseWildcardText(draft.text).length))}
+                </span>
+                {draft.originalName && (
+                  <button
+                    onClick={() => setToDelete(draft.originalName)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-zinc-400 hover:text-red-400 hover:bg-red-900/20 transition-colors"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                    {t('wildcardDelete')}
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={!draftName}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-primary hover:bg-primary/90 disabled:opacity-40 text-xs text-white font-medium transition-colors"
+                >
+                  <Save className="w-3.5 h-3.5" />
+                  {t('wildcardSave')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center p-6">
+              <p className="text-xs text-zinc-500 text-center max-w-xs">{t('wildcardIntro')}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
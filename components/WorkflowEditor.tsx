@@ -14,21 +14,79 @@ import ReactFlow, {
   NodeProps,
   ReactFlowInstance,
 } from 'reactflow';
-import { generateImage, Resolution, AspectRatio } from '../services/geminiService';
+import { AspectRatio } from '../types';
+import { runWorkflow } from '../services/workflowExecutor';
+import { getGenerateCapabilities } from '../services/imageService';
+import { getImageMetadata } from '../services/historyStore';
+import { blobToDataUrl, downloadImage } from '../lib/image';
+import {
+  WorkflowDocument,
+  WorkflowNodeType,
+  createNodeData,
+  documentToGraph,
+  parseWorkflowDocument,
+  serializeWorkflow,
+} from '../lib/workflowDocument';
+import {
+  SavedWorkflow,
+  AUTOSAVE_ID,
+  createWorkflowId,
+  getAutosave,
+  getWorkflow,
+  putWorkflow,
+} from '../services/workflowStore';
+import { WorkflowLibrary } from './WorkflowLibrary';
+import { WildcardManager } from './WildcardManager';
+import { PromptTemplateFields, useWildcardMap } from './PromptTemplateFields';
+import { ExpansionMode, expandTemplate, isTemplate, randomSeed } from '../lib/promptTemplate';
 import { Button } from './ui/Button';
-import { Download, Play, Zap, AlertCircle, X, Plus, Wand2, ZoomIn, CheckCircle2, Clock } from 'lucide-react';
+import { Download, Play, Zap, AlertCircle, X, Plus, Wand2, ZoomIn, CheckCircle2, Clock, PlayCircle, Type, Image as ImageIcon, Monitor, FilePlus, Save, Library, Upload, FileDown, Sparkles } from 'lucide-react';
 import { useLanguage } from './LanguageContext';
 import { clsx } from 'clsx';
+import 'reactflow/dist/style.css';
 
 // --- Custom Node Components ---
 
+const RunFromHereButton: React.FC<{ onRun?: () => void }> = ({ onRun }) => {
+  const { t } = useLanguage();
+  if (!onRun) return null;
+  return (
+    <button
+      onClick={onRun}
+      className="ml-auto p-1 rounded text-zinc-500 hover:text-white hover:bg-zinc-700 transition-colors nodrag"
+      title={t('wfRunFromHere')}
+    >
+      <PlayCircle className="w-3.5 h-3.5" />
+    </button>
+  );
+};
+
+const NodeError: React.FC<{ error?: string | null }> = ({ error }) => {
+  if (!error) return null;
+  return (
+    <div className="text-[10px] text-red-300 bg-red-950/50 p-2 rounded border border-red-900/50 flex items-start gap-1">
+       <AlertCircle className="w-3 h-3 shrink-0 mt-0.5" />
+       <span className="break-words w-full font-mono">{error}</span>
+    </div>
+  );
+};
+
 const PromptNode: React.FC<NodeProps> = ({ data }) => {
   const { t } = useLanguage();
+  const wildcards = useWildcardMap();
+  const template: string = data.prompt || '';
+  const mode: ExpansionMode = data.expansionMode || 'random';
+  // Same inputs the executor uses, so the preview is what the next run sends
+  const expansion = isTemplate(template)
+    ? expandTemplate(template, { wildcards, variables: data.variables || {}, mode, seed: data.seed || 0, index: data.sequenceIndex || 0 })
+    : null;
+
   return (
     <div className="bg-zinc-900 border-2 border-yellow-600/50 rounded-lg shadow-xl min-w-[250px]">
       <div className="bg-zinc-800 p-2 rounded-t-lg border-b border-zinc-700 flex items-center gap-2">
         <div className="w-3 h-3 rounded-full bg-yellow-500" />
         <span className="text-sm font-bold text-zinc-200">{t('wfPromptNode')}</span>
+        <RunFromHereButton onRun={data.onRun} />
       </div>
       <div className="p-4">
         <textarea
@@ -37,6 +95,21 @@ const PromptNode: React.FC<NodeProps> = ({ data }) => {
           value={data.prompt}
           onChange={(evt) => data.onChange(evt.target.value)}
         />
+        {expansion && (
+          <div className="mt-2 max-w-[250px]">
+            <PromptTemplateFields
+              compact
+              template={template}
+              variables={data.variables || {}}
+              onVariablesChange={data.onVariablesChange}
+              mode={mode}
+              onModeChange={data.onModeChange}
+              expansion={expansion}
+              onReroll={data.onReroll}
+              onManageWildcards={data.onManageWildcards}
+            />
+          </div>
+        )}
       </div>
       <Handle type="source" position={Position.Right} className="w-3 h-3 bg-yellow-500" />
     </div>
@@ -47,22 +120,21 @@ const ImageNode: React.FC<NodeProps> = ({ data }) => {
   const { t } = useLanguage();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const images = data.images || []; 
+  const capabilities = getGenerateCapabilities();
+  const max = capabilities.maxReferenceImages;
+  const [skipped, setSkipped] = useState(0);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        // Replace with new image (Single Limit)
-        const newImages = [reader.result as string];
-        data.onChange(newImages);
-      };
-      reader.readAsDataURL(file);
-    }
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
     if (fileInputRef.current) fileInputRef.current.value = '';
+    const accepted = files.slice(0, Math.max(0, max - images.length));
+    setSkipped(files.length - accepted.length);
+    const added = await Promise.all(accepted.map(blobToDataUrl));
+    if (added.length > 0) data.onChange([...images, ...added]);
   };
 
   const removeImage = (index: number) => {
+     setSkipped(0);
      const newImages = images.filter((_: string, i: number) => i !== index);
      data.onChange(newImages);
   };
@@ -72,6 +144,7 @@ const ImageNode: React.FC<NodeProps> = ({ data }) => {
        <div className="bg-zinc-800 p-2 rounded-t-lg border-b border-zinc-700 flex items-center gap-2">
         <div className="w-3 h-3 rounded-full bg-green-500" />
         <span className="text-sm font-bold text-zinc-200">{t('wfImageNode')}</span>
+        <RunFromHereButton onRun={data.onRun} />
       </div>
       <div className="p-3 flex flex-wrap gap-2 justify-center">
         {images.map((img: string, idx: number) => (
@@ -86,7 +159,7 @@ const ImageNode: React.FC<NodeProps> = ({ data }) => {
             </div>
         ))}
 
-        {images.length < 1 && (
+        {images.length < max && (
             <div 
                 className="w-16 h-16 border border-dashed border-zinc-700 rounded bg-zinc-950/50 flex flex-col items-center justify-center cursor-pointer hover:bg-zinc-900 transition-colors shrink-0"
                 onClick={() => fileInputRef.current?.click()}
@@ -101,15 +174,24 @@ const ImageNode: React.FC<NodeProps> = ({ data }) => {
             ref={fileInputRef} 
             className="hidden" 
             accept="image/*" 
+            multiple
             onChange={handleFileChange} 
         />
       </div>
+      {skipped > 0 && (
+        <p className="px-3 pb-2 max-w-[220px] text-[10px] text-amber-400/90">
+          {t('capReferencesSkipped')
+            .replace('{count}', String(skipped))
+            .replace('{max}', String(max))
+            .replace('{model}', capabilities.model)}
+        </p>
+      )}
       <Handle type="source" position={Position.Right} className="w-3 h-3 bg-green-500" />
     </div>
   );
 };
 
-const RefineNode: React.FC<NodeProps> = ({ data, id }) => {
+const RefineNode: React.FC<NodeProps> = ({ data }) => {
   const { t } = useLanguage();
 
   useEffect(() => {
@@ -144,7 +226,7 @@ const RefineNode: React.FC<NodeProps> = ({ data, id }) => {
                 <img src={data.outputImage} className="w-full h-full object-contain" alt="Refined" />
                 <div className="absolute top-2 right-2 p-1.5 bg-black/60 rounded-md hover:bg-black/80 text-white opacity-0 group-hover:opacity-100 transition-opacity z-10" onClick={(e) => e.stopPropagation()}>
                     <button 
-                      onClick={() => data.onDownload(data.outputImage)}
+                      onClick={() => data.onDownload(data.outputImage, data.recordId)}
                       className="block"
                     >
                       <Download className="w-4 h-4" />
@@ -163,23 +245,22 @@ const RefineNode: React.FC<NodeProps> = ({ data, id }) => {
           onChange={(evt) => data.onChange(evt.target.value)}
         />
 
-        {data.error && (
-          <div className="text-[10px] text-red-300 bg-red-950/50 p-2 rounded border border-red-900/50 flex items-start gap-1">
-             <AlertCircle className="w-3 h-3 shrink-0 mt-0.5" />
-             <span className="break-words w-full font-mono">{data.error}</span>
-          </div>
-        )}
+        <NodeError error={data.error} />
 
         <Button 
           variant="magic" 
           size="sm" 
           className="w-full mt-1" 
-          onClick={() => data.onRunRefine(id)}
+          onClick={data.onRun}
           isLoading={data.loading}
+          title={t('wfRunFromHere')}
         >
           <Play className="w-3 h-3 mr-1" /> {t('wfRun')}
         </Button>
       </div>
+
+      {/* Output for chaining further refine/output nodes (Bottom) */}
+      <Handle type="source" position={Position.Bottom} className="w-3 h-3 bg-teal-500" id="refine-out" />
     </div>
   );
 };
@@ -200,11 +281,17 @@ const GeneratorNode: React.FC<NodeProps> = ({ data }) => {
   const ratios: { value: AspectRatio; label: string; class: string }[] = [
     { value: '1:1', label: '1:1', class: 'w-3 h-3' },
     { value: '2:3', label: '2:3', class: 'w-2 h-3' },
+    { value: '3:2', label: '3:2', class: 'w-3 h-2' },
     { value: '3:4', label: '3:4', class: 'w-2.5 h-3' },
     { value: '4:3', label: '4:3', class: 'w-3 h-2.5' },
+    { value: '4:5', label: '4:5', class: 'w-[10px] h-3' },
+    { value: '5:4', label: '5:4', class: 'w-3 h-[10px]' },
     { value: '9:16', label: '9:16', class: 'w-2 h-3.5' },
     { value: '16:9', label: '16:9', class: 'w-3.5 h-2' },
+    { value: '21:9', label: '21:9', class: 'w-4 h-2' },
   ];
+  const capabilities = getGenerateCapabilities();
+  const ratioSupported = capabilities.aspectRatios.includes(data.aspectRatio);
 
   return (
     <div className={clsx(
@@ -233,32 +320,52 @@ const GeneratorNode: React.FC<NodeProps> = ({ data }) => {
           <option value="2K">{t('res2k')}</option>
           <option value="4K">{t('res4k')}</option>
         </select>
+        {data.resolution === '4K' && !getGenerateCapabilities().referencesAt4K && (
+          <p className="text-[10px] text-amber-400/90">{t('notAvailableIn4K')}</p>
+        )}
 
-        <div className="grid grid-cols-3 gap-1 bg-zinc-950 p-1 rounded border border-zinc-700 nodrag">
-          {ratios.map((r) => (
+        <div className="grid grid-cols-5 gap-1 bg-zinc-950 p-1 rounded border border-zinc-700 nodrag">
+          {ratios.map((r) => {
+            const supported = capabilities.aspectRatios.includes(r.value);
+            return (
             <button
               key={r.value}
               onClick={() => data.onAspectRatioChange(r.value)}
               className={clsx(
-                "flex flex-col items-center justify-center p-1 rounded transition-all",
+                "relative flex flex-col items-center justify-center p-1 rounded transition-all",
                 data.aspectRatio === r.value 
                   ? "bg-zinc-800 text-white ring-1 ring-purple-500" 
                   : "text-zinc-500 hover:text-zinc-300 hover:bg-zinc-900"
               )}
-              title={r.label}
+              title={supported ? r.label : t('ratioUnsupportedTitle').replace('{model}', capabilities.model)}
             >
               <div className={clsx("border border-current rounded-[1px]", r.class)} />
               <span className="text-[8px] mt-0.5">{r.label}</span>
+              {!supported && <span className="absolute top-0.5 right-0.5 w-1 h-1 rounded-full bg-amber-400" />}
             </button>
-          ))}
+          )})}
         </div>
-        
-        {data.error && (
-          <div className="text-[10px] text-red-300 bg-red-950/50 p-2 rounded border border-red-900/50 flex items-start gap-1">
-             <AlertCircle className="w-3 h-3 shrink-0 mt-0.5" />
-             <span className="break-words w-full font-mono">{data.error}</span>
+
+        {!ratioSupported && (
+          <div className="space-y-1">
+            <p className="text-[10px] text-amber-400/90">
+              {data.ratioFit
+                ? t(`ratioFitHint_${data.ratioFit}`).replace('{model}', capabilities.model)
+                : t('ratioFitOffHint').replace('{model}', capabilities.model)}
+            </p>
+            <select
+              value={data.ratioFit || ''}
+              onChange={(e) => data.onRatioFitChange(e.target.value || null)}
+              className="w-full p-1.5 text-xs bg-zinc-950 border border-zinc-700 rounded text-zinc-300 nodrag focus:ring-1 focus:ring-purple-500 outline-none"
+            >
+              <option value="">{t('ratioFit_off')}</option>
+              <option value="crop">{t('ratioFit_crop')}</option>
+              <option value="pad">{t('ratioFit_pad')}</option>
+            </select>
           </div>
         )}
+        
+        <NodeError error={data.error} />
 
         <Button 
           variant="magic" 
@@ -266,6 +373,7 @@ const GeneratorNode: React.FC<NodeProps> = ({ data }) => {
           className="w-full mt-1" 
           onClick={data.onRun}
           isLoading={data.loading}
+          title={t('wfRunFromHere')}
         >
           <Play className="w-3 h-3 mr-1" /> {t('wfRun')}
         </Button>
@@ -280,13 +388,21 @@ const OutputNode: React.FC<NodeProps> = ({ data }) => {
   const { t } = useLanguage();
   
   return (
-    <div className={clsx("bg-zinc-900 border-2 border-blue-600/50 rounded-lg shadow-xl w-[320px] animate-in zoom-in duration-300")}>
+    <div className={clsx(
+        "bg-zinc-900 border-2 rounded-lg shadow-xl w-[320px] animate-in zoom-in duration-300",
+        data.error ? "border-red-500" : "border-blue-600/50"
+      )}>
       <Handle type="target" position={Position.Left} className="w-3 h-3 bg-purple-500" id="in" />
       
       <div className="bg-zinc-800 p-2 rounded-t-lg border-b border-zinc-700 flex items-center gap-2">
         <div className="w-3 h-3 rounded-full bg-blue-500" />
         <span className="text-sm font-bold text-zinc-200">{t('wfOutputNode')}</span>
       </div>
+      {data.error && (
+        <div className="px-3 pt-3">
+          <NodeError error={data.error} />
+        </div>
+      )}
       <div className="p-3 flex items-center justify-center min-h-[200px]">
         {data.image ? (
           <div 
@@ -296,7 +412,7 @@ const OutputNode: React.FC<NodeProps> = ({ data }) => {
             <img src={data.image} alt="Generated" className="w-full h-full object-contain" />
             <div className="absolute top-2 right-2 p-1.5 bg-black/60 rounded-md hover:bg-black/80 text-white opacity-0 group-hover:opacity-100 transition-opacity z-10" onClick={(e) => e.stopPropagation()}>
                 <button 
-                  onClick={() => data.onDownload(data.image)}
+                  onClick={() => data.onDownload(data.image, data.recordId)}
                   className="block"
                 >
                   <Download className="w-4 h-4" />
@@ -317,8 +433,59 @@ const OutputNode: React.FC<NodeProps> = ({ data }) => {
   );
 };
 
+const EnhanceNode: React.FC<NodeProps> = ({ data }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className={clsx(
+      "bg-zinc-900 border-2 rounded-lg shadow-xl w-[260px] transition-colors",
+      data.error ? "border-red-500" : "border-fuchsia-600/50"
+    )}>
+      <Handle type="target" position={Position.Left} className="w-3 h-3 bg-yellow-500" id="prompt-in" />
+
+      <div className="bg-zinc-800 p-2 rounded-t-lg border-b border-zinc-700 flex items-center gap-2">
+        <Sparkles className="w-4 h-4 text-fuchsia-400" />
+        <span className="text-sm font-bold text-zinc-200">{t('wfEnhanceNode')}</span>
+      </div>
+      <div className="p-4 flex flex-col gap-3">
+        <select
+          value={data.mode}
+          onChange={(e) => data.onModeChange(e.target.value)}
+          className="w-full p-1.5 text-xs bg-zinc-950 border border-zinc-700 rounded text-zinc-300 nodrag focus:ring-1 focus:ring-fuchsia-500 outline-none"
+        >
+          <option value="enhance">{t('rewriteEnhance')}</option>
+          <option value="toEnglish">{t('rewriteToEnglish')}</option>
+          <option value="toChinese">{t('rewriteToChinese')}</option>
+        </select>
+
+        {data.outputPrompt && (
+          <p className="text-[11px] text-zinc-300 bg-zinc-950 p-2 rounded border border-zinc-800 max-h-32 overflow-y-auto whitespace-pre-wrap break-words nodrag nowheel">
+            {data.outputPrompt}
+          </p>
+        )}
+
+        <NodeError error={data.error} />
+
+        <Button
+          variant="magic"
+          size="sm"
+          className="w-full mt-1"
+          onClick={data.onRun}
+          isLoading={data.loading}
+          title={t('wfRunFromHere')}
+        >
+          <Play className="w-3 h-3 mr-1" /> {t('wfRun')}
+        </Button>
+      </div>
+
+      <Handle type="source" position={Position.Right} className="w-3 h-3 bg-fuchsia-500" />
+    </div>
+  );
+};
+
 const nodeTypes = {
   promptNode: PromptNode,
+  enhanceNode: EnhanceNode,
   imageNode: ImageNode,
   generatorNode: GeneratorNode,
   refineNode: RefineNode,
@@ -327,56 +494,76 @@ const nodeTypes = {
 
 // --- Main Workflow Component ---
 
+const EDGE_COLORS: Record<WorkflowNodeType, string> = {
+  promptNode: '#eab308',
+  imageNode: '#22c55e',
+  generatorNode: '#a855f7',
+  outputNode: '#3b82f6',
+  refineNode: '#0d9488',
+  enhanceNode: '#d946ef',
+};
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+const DEFAULT_NODES: Node[] = [
+  { id: '1', type: 'promptNode', position: { x: 50, y: 150 }, data: createNodeData('promptNode') },
+  { id: 'img-1', type: 'imageNode', position: { x: 50, y: 400 }, data: createNodeData('imageNode') },
+  { id: '2', type: 'generatorNode', position: { x: 400, y: 250 }, data: createNodeData('generatorNode') },
+  { id: '3', type: 'outputNode', position: { x: 750, y: 100 }, data: createNodeData('outputNode') },
+];
+
+const DEFAULT_EDGES: Edge[] = [
+  { id: 'e1-2', source: '1', target: '2', targetHandle: 'prompt-in' },
+  { id: 'eImg-2', source: 'img-1', target: '2', targetHandle: 'image-in' },
+  { id: 'e2-3', source: '2', target: '3', sourceHandle: 'gen-out-main', targetHandle: 'in' },
+];
+
+/** Edges are colored after the node type they come from. */
+const styleEdges = (nodes: Node[], edges: Edge[]): Edge[] => {
+  return edges.map((edge) => {
+    const source = nodes.find((n) => n.id === edge.source);
+    const stroke = EDGE_COLORS[source?.type as WorkflowNodeType] || '#71717a';
+    return { ...edge, animated: true, style: { stroke } };
+  });
+};
+
+const slugify = (name: string) => name.trim().replace(/[\\/:*?"<>|\s]+/g, '-') || 'workflow';
+
 interface WorkflowEditorProps {
   isVisible: boolean;
 }
 
+interface WorkflowMeta {
+  /** Library id, null while the graph has never been saved. */
+  id: string | null;
+  name: string;
+}
+
 export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({ isVisible }) => {
-  const [nodes, setNodes, onNodesChange] = useNodesState<any>([
-    { 
-      id: '1', 
-      type: 'promptNode', 
-      position: { x: 50, y: 150 }, 
-      data: { prompt: '', onChange: (v: string) => updateNodeData('1', { prompt: v }) } 
-    },
-    { 
-      id: 'img-1', 
-      type: 'imageNode', 
-      position: { x: 50, y: 400 }, 
-      data: { images: [], onChange: (v: string[]) => updateNodeData('img-1', { images: v }) } 
-    },
-    { 
-      id: '2', 
-      type: 'generatorNode', 
-      position: { x: 400, y: 250 }, 
-      data: { 
-        loading: false, 
-        resolution: '1K', 
-        aspectRatio: '1:1', 
-        error: null,
-      } 
-    },
-    { 
-      id: '3', 
-      type: 'outputNode', 
-      position: { x: 750, y: 100 }, 
-      data: { image: null } 
-    },
-  ]);
-
-  const [edges, setEdges, onEdgesChange] = useEdgesState([
-    { id: 'e1-2', source: '1', target: '2', targetHandle: 'prompt-in', animated: true, style: { stroke: '#eab308' } },
-    { id: 'eImg-2', source: 'img-1', target: '2', targetHandle: 'image-in', animated: true, style: { stroke: '#22c55e' } },
-    { id: 'e2-3', source: '2', target: '3', sourceHandle: 'gen-out-main', targetHandle: 'in', animated: true, style: { stroke: '#a855f7' } },
-  ]);
+  const [nodes, setNodes, onNodesChange] = useNodesState<any>(DEFAULT_NODES);
+  const [edges, setEdges, onEdgesChange] = useEdgesState(styleEdges(DEFAULT_NODES, DEFAULT_EDGES));
 
   const { t } = useLanguage();
+  const tRef = useRef(t);
+  tRef.current = t;
+  const wrapperRef = useRef<HTMLDivElement>(null);
   const [rfInstance, setRfInstance] = useState<ReactFlowInstance | null>(null);
+  const [activeRuns, setActiveRuns] = useState(0);
   const [opacity, setOpacity] = useState(0);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
-  const [showToast, setShowToast] = useState(false);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const [errorToast, setErrorToast] = useState<string | null>(null);
   const [warningToast, setWarningToast] = useState(false);
 
+  const [workflowMeta, setWorkflowMeta] = useState<WorkflowMeta>({ id: null, name: '' });
+  const [isRestored, setIsRestored] = useState(false);
+  // Bumped whenever the whole graph is replaced so callbacks get re-attached
+  const [graphVersion, setGraphVersion] = useState(0);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isWildcardsOpen, setIsWildcardsOpen] = useState(false);
+  const [embedImages, setEmbedImages] = useState(true);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
   const nodesRef = useRef(nodes);
   const edgesRef = useRef(edges);
   
@@ -411,7 +598,7 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({ isVisible }) =>
   }, [isVisible, rfInstance]);
 
   const onConnect = useCallback(
-    (params: Connection) => setEdges((eds) => addEdge(params, eds)),
+    (params: Connection) => setEdges((eds) => styleEdges(nodesRef.current, addEdge(params, eds))),
     [setEdges],
   );
 
@@ -430,177 +617,249 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({ isVisible }) =>
     setPreviewImage(url);
   };
 
-  const handleDownload = (url: string) => {
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `workflow-${Date.now()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleDownload = async (url: string, recordId?: string) => {
+    try {
+      const metadata = recordId
+        ? await getImageMetadata(recordId).catch(e => {
+            console.warn("IDB Metadata Load Failed", e);
+            return null;
+          })
+        : null;
+      await downloadImage(url, `workflow-${Date.now()}`, metadata);
+    } catch (e) {
+      console.warn("Download Failed", e);
+      return;
+    }
 
-    setShowToast(true);
-    setTimeout(() => setShowToast(false), 3000);
+    notify(t('downloadSuccess'));
   }
 
-  const handleWarning = useCallback(() => {
-    setWarningToast(true);
-    setTimeout(() => setWarningToast(false), 4000);
-  }, []);
+  const notify = (message: string) => {
+    setToastMessage(message);
+    setTimeout(() => setToastMessage(null), 3000);
+  };
 
-  const runGenerator = async () => {
-    const currentNodes = nodesRef.current;
-    const currentEdges = edgesRef.current;
+  const notifyError = (message: string) => {
+    setErrorToast(message);
+    setTimeout(() => setErrorToast(null), 5000);
+  };
 
-    const generatorNode = currentNodes.find((n: Node) => n.type === 'generatorNode');
-    if (!generatorNode) return;
+  // --- Persistence ---
 
-    const connectedEdges = currentEdges.filter((e: Edge) => e.target === generatorNode.id);
-    
-    let prompt = "";
-    let inputImages: string[] = [];
+  const loadDocument = (doc: WorkflowDocument, meta: WorkflowMeta) => {
+    const graph = documentToGraph(doc);
+    setNodes(graph.nodes);
+    setEdges(styleEdges(graph.nodes, graph.edges));
+    setWorkflowMeta(meta);
+    setGraphVersion(v => v + 1);
+    requestAnimationFrame(() => rfInstance?.fitView({ padding: 0.1, duration: 300 }));
+  };
 
-    connectedEdges.forEach((edge: Edge) => {
-        const sourceNode = currentNodes.find((n: Node) => n.id === edge.source);
-        if (!sourceNode) return;
-        
-        if (sourceNode.type === 'promptNode') {
-            prompt = sourceNode.data.prompt;
-        } else if (sourceNode.type === 'imageNode' && sourceNode.data.images) {
-            inputImages = [...inputImages, ...sourceNode.data.images];
+  // Restore the working copy from the last session
+  useEffect(() => {
+    getAutosave()
+      .then((saved) => {
+        if (saved) {
+          loadDocument(parseWorkflowDocument(saved.document), { id: saved.sourceId, name: saved.name });
         }
-    });
+      })
+      .catch((e) => console.warn("Workflow restore failed", e))
+      .finally(() => setIsRestored(true));
+  }, []);
 
-    if (!prompt) {
-        updateNodeData(generatorNode.id, { error: "No prompt provided" });
-        return;
-    }
+  useEffect(() => {
+    if (!isRestored) return;
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      putWorkflow({
+        id: AUTOSAVE_ID,
+        sourceId: workflowMeta.id,
+        name: workflowMeta.name,
+        createdAt: now,
+        updatedAt: now,
+        document: serializeWorkflow(workflowMeta.name, nodes, edges),
+      }).catch((e) => console.warn("Workflow autosave failed", e));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [nodes, edges, workflowMeta, isRestored]);
 
-    updateNodeData(generatorNode.id, { loading: true, error: null });
+  const handleNew = () => {
+    loadDocument(serializeWorkflow('', DEFAULT_NODES, DEFAULT_EDGES), { id: null, name: '' });
+  };
 
+  const handleSave = async () => {
+    const name = workflowMeta.name.trim() || t('wfUntitled');
+    const id = workflowMeta.id || createWorkflowId();
     try {
-      const { resolution, aspectRatio } = generatorNode.data;
-      // Limit images to 1 (only take the first one)
-      const limitedImages = inputImages.slice(0, 1);
-      
-      const result = await generateImage(prompt, limitedImages, resolution as Resolution, aspectRatio as AspectRatio);
-      
-      // Update main output
-      const outputEdges = currentEdges.filter((e: Edge) => e.source === generatorNode.id);
-      outputEdges.forEach((edge: Edge) => {
-          const targetNode = currentNodes.find((n: Node) => n.id === edge.target);
-          if (targetNode) {
-               if(targetNode.type === 'outputNode') {
-                   // Save settings for Refine Node
-                   updateNodeData(targetNode.id, { image: result, resolution, aspectRatio });
-               }
-          }
+      const existing = workflowMeta.id ? await getWorkflow(id) : undefined;
+      const now = Date.now();
+      await putWorkflow({
+        id,
+        name,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        document: serializeWorkflow(name, nodesRef.current, edgesRef.current),
       });
-      
-      updateNodeData(generatorNode.id, { outputImage: result });
-
-      // Create Refine Node if it doesn't exist
-      const refineNodeExists = currentNodes.some((n: Node) => n.id === 'refine-1');
-      if (!refineNodeExists) {
-         const newRefineNode = {
-            id: 'refine-1',
-            type: 'refineNode',
-            // Position below the Output Node
-            position: { x: 750, y: 550 }, 
-            data: {
-                prompt: '',
-                loading: false,
-                error: null,
-                outputImage: null,
-                onChange: (v: string) => updateNodeData('refine-1', { prompt: v }),
-                onRunRefine: runRefineLogic,
-                onPreview: handlePreview,
-                onDownload: handleDownload,
-                onWarning: handleWarning
-            }
-         };
-
-         // Connect Output Node (Source) to Refine Node (Target)
-         const newEdge1 = { id: 'e3-refine', source: '3', target: 'refine-1', sourceHandle: 'out', targetHandle: 'image-in', animated: true, style: { stroke: '#3b82f6' } };
-
-         setNodes((nds) => [...nds, newRefineNode]);
-         setEdges((eds) => [...eds, newEdge1]);
-      }
-
-    } catch (error: any) {
-      updateNodeData(generatorNode.id, { error: error.message || "Generation failed" });
-    } finally {
-      updateNodeData(generatorNode.id, { loading: false });
+      setWorkflowMeta({ id, name });
+      notify(t('wfSaved'));
+    } catch (e: any) {
+      notifyError(e.message || t('wfSaveFailed'));
     }
   };
 
-  const runRefineLogic = async (nodeId: string) => {
-      const currentNodes = nodesRef.current;
-      const currentEdges = edgesRef.current;
-      
-      updateNodeData(nodeId, { loading: true, error: null });
-
-      try {
-          const node = currentNodes.find((n: Node) => n.id === nodeId);
-          if (!node) return;
-
-          const prompt = node.data.prompt;
-          if (!prompt) throw new Error("Prompt required");
+  const handleOpenWorkflow = (workflow: SavedWorkflow) => {
+    try {
+      loadDocument(parseWorkflowDocument(workflow.document), { id: workflow.id, name: workflow.name });
+      setIsLibraryOpen(false);
+    } catch (e: any) {
+      notifyError(`${t('wfImportFailed')}: ${e.message}`);
+    }
+  };
 
-          // Find input connected to Refine Node (should be OutputNode)
-          const inputEdge = currentEdges.find((e: Edge) => e.target === nodeId);
-          if (!inputEdge) throw new Error("No input image connected");
+  const handleExport = () => {
+    const name = workflowMeta.name.trim() || t('wfUntitled');
+    const doc = serializeWorkflow(name, nodesRef.current, edgesRef.current, { embedImages });
+    const blob = new Blob([JSON.stringify(doc, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${slugify(name)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
 
-          const sourceNode = currentNodes.find((n: Node) => n.id === inputEdge.source);
-          if (!sourceNode) throw new Error("Source node not found");
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (importInputRef.current) importInputRef.current.value = '';
+    if (!file) return;
 
-          let inputImageBase64: string | null = null;
-          let inheritedResolution: Resolution = '1K';
-          let inheritedAspectRatio: AspectRatio = '1:1';
-          
-          if (sourceNode.type === 'outputNode') {
-              inputImageBase64 = sourceNode.data.image;
-              if (sourceNode.data.resolution) inheritedResolution = sourceNode.data.resolution;
-              if (sourceNode.data.aspectRatio) inheritedAspectRatio = sourceNode.data.aspectRatio;
-          }
+    try {
+      const doc = parseWorkflowDocument(JSON.parse(await file.text()));
+      // Imported graphs start unsaved so they never overwrite a library entry
+      loadDocument(doc, { id: null, name: doc.name });
+      notify(t('wfImported'));
+    } catch (err: any) {
+      notifyError(`${t('wfImportFailed')}: ${err.message}`);
+    }
+  };
 
-          if (!inputImageBase64) throw new Error("No image data from source. Run generator first.");
+  const handleWarning = useCallback(() => {
+    setWarningToast(true);
+    setTimeout(() => setWarningToast(false), 4000);
+  }, []);
 
-          const result = await generateImage(prompt, [inputImageBase64], inheritedResolution, inheritedAspectRatio);
+  const runFrom = async (fromNodeId?: string) => {
+    setActiveRuns(n => n + 1);
+    try {
+      await runWorkflow(nodesRef.current, edgesRef.current, {
+        fromNodeId,
+        updateNodeData,
+        t: tRef.current,
+      });
+    } finally {
+      setActiveRuns(n => n - 1);
+    }
+  };
 
-          updateNodeData(nodeId, { outputImage: result });
+  const addNode = (type: WorkflowNodeType) => {
+    const bounds = wrapperRef.current?.getBoundingClientRect();
+    const position = rfInstance && bounds
+      ? rfInstance.screenToFlowPosition({ x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 })
+      : { x: 0, y: 0 };
 
-      } catch (error: any) {
-          updateNodeData(nodeId, { error: error.message });
-      } finally {
-          updateNodeData(nodeId, { loading: false });
-      }
+    setNodes((nds) => [
+      ...nds,
+      { id: `${type}-${Date.now().toString(36)}`, type, position, data: createNodeData(type) },
+    ]);
   };
 
+  // Callbacks can't live in the initial node definitions (they close over
+  // component state), so they are (re)attached whenever nodes are added.
   useEffect(() => {
     setNodes(nds => nds.map(n => {
+        const onRun = () => runFrom(n.id);
+        if(n.type === 'promptNode') {
+            // Edits invalidate the last expansion that downstream runs reuse
+            return { ...n, data: {
+              ...n.data,
+              onRun,
+              onChange: (v:string)=>updateNodeData(n.id, {prompt:v, expandedPrompt:null}),
+              onVariablesChange: (v:Record<string,string>)=>updateNodeData(n.id, {variables:v, expandedPrompt:null}),
+              onModeChange: (v:ExpansionMode)=>updateNodeData(n.id, {expansionMode:v, expandedPrompt:null}),
+              onReroll: ()=>{
+                const current = nodesRef.current.find(node => node.id === n.id)?.data || {};
+                updateNodeData(n.id, current.expansionMode === 'sequential'
+                  ? {sequenceIndex:(current.sequenceIndex || 0) + 1}
+                  : {seed:randomSeed()});
+              },
+              onManageWildcards: ()=>setIsWildcardsOpen(true),
+            } }
+        }
+        if(n.type === 'imageNode') {
+            return { ...n, data: { ...n.data, onRun, onChange: (v:string[])=>updateNodeData(n.id, {images:v}) } }
+        }
         if(n.type === 'generatorNode') {
-            return { ...n, data: { ...n.data, onRun: runGenerator, onWarning: handleWarning, onResolutionChange: (v:string)=>updateNodeData(n.id, {resolution:v}), onAspectRatioChange: (v:string)=>updateNodeData(n.id, {aspectRatio:v}) } }
+            return { ...n, data: { ...n.data, onRun, onWarning: handleWarning, onResolutionChange: (v:string)=>updateNodeData(n.id, {resolution:v}), onAspectRatioChange: (v:string)=>updateNodeData(n.id, {aspectRatio:v}), onRatioFitChange: (v:string | null)=>updateNodeData(n.id, {ratioFit:v}) } }
         }
         if(n.type === 'refineNode') {
-            return { ...n, data: { ...n.data, onRunRefine: runRefineLogic, onWarning: handleWarning, onChange: (v:string)=>updateNodeData(n.id, {prompt:v}), onPreview: handlePreview, onDownload: handleDownload } }
+            return { ...n, data: { ...n.data, onRun, onWarning: handleWarning, onChange: (v:string)=>updateNodeData(n.id, {prompt:v}), onPreview: handlePreview, onDownload: handleDownload } }
+        }
+        if(n.type === 'enhanceNode') {
+            return { ...n, data: { ...n.data, onRun, onModeChange: (v:string)=>updateNodeData(n.id, {mode:v, outputPrompt:null}) } }
         }
         if(n.type === 'outputNode') {
             return { ...n, data: { ...n.data, onPreview: handlePreview, onDownload: handleDownload } }
         }
         return n;
     }));
-  }, [nodes.length, handleWarning]); 
+  }, [nodes.length, graphVersion, handleWarning]); 
+
+  const addableNodes: { type: WorkflowNodeType; label: string; icon: React.ElementType; color: string }[] = [
+    { type: 'promptNode', label: t('wfPromptNode'), icon: Type, color: 'text-yellow-500' },
+    { type: 'imageNode', label: t('wfImageNode'), icon: ImageIcon, color: 'text-green-500' },
+    { type: 'generatorNode', label: t('wfEngineNode'), icon: Zap, color: 'text-purple-500' },
+    { type: 'outputNode', label: t('wfOutputNode'), icon: Monitor, color: 'text-blue-500' },
+    { type: 'refineNode', label: t('wfRefineNode'), icon: Wand2, color: 'text-teal-400' },
+    { type: 'enhanceNode', label: t('wfEnhanceNode'), icon: Sparkles, color: 'text-fuchsia-400' },
+  ];
 
   return (
-    <div className="h-[650px] w-full border border-zinc-800 rounded-xl overflow-hidden bg-zinc-950 relative">
+    <div ref={wrapperRef} className="h-[650px] w-full border border-zinc-800 rounded-xl overflow-hidden bg-zinc-950 relative">
       {/* Toast Notification */}
-      {showToast && (
+      {toastMessage && (
         <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[150] bg-zinc-800 text-white px-4 py-2 rounded-full shadow-lg border border-zinc-700 flex items-center gap-2 animate-in fade-in slide-in-from-top-2">
             <CheckCircle2 className="w-4 h-4 text-green-500" />
-            <span className="text-sm font-medium">{t('downloadSuccess')}</span>
+            <span className="text-sm font-medium">{toastMessage}</span>
+        </div>
+      )}
+
+      {errorToast && (
+        <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[150] bg-zinc-800 text-white px-4 py-2 rounded-full shadow-lg border border-red-500/50 flex items-center gap-2 animate-in fade-in slide-in-from-top-2 max-w-[90vw]">
+            <AlertCircle className="w-4 h-4 text-red-500 shrink-0" />
+            <span className="text-sm font-medium text-red-100 truncate">{errorToast}</span>
         </div>
       )}
 
+      <WorkflowLibrary
+        open={isLibraryOpen}
+        currentId={workflowMeta.id}
+        onClose={() => setIsLibraryOpen(false)}
+        onOpenWorkflow={handleOpenWorkflow}
+        onCurrentDeleted={() => setWorkflowMeta(meta => ({ ...meta, id: null }))}
+      />
+
+      <WildcardManager open={isWildcardsOpen} onClose={() => setIsWildcardsOpen(false)} />
+
+      <input
+        type="file"
+        ref={importInputRef}
+        className="hidden"
+        accept=".json,application/json"
+        onChange={handleImport}
+      />
+
       {/* Warning Toast */}
       {warningToast && (
         <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[150] bg-zinc-800 text-white px-4 py-2 rounded-full shadow-lg border border-yellow-500/50 flex items-center gap-2 animate-in fade-in slide-in-from-top-2">
@@ -636,6 +895,64 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({ isVisible }) =>
         <div className="absolute top-4 left-4 z-10 bg-zinc-900/80 backdrop-blur p-3 rounded border border-zinc-800">
             <h3 className="text-sm font-bold text-zinc-200">{t('wfModeTitle')}</h3>
             <p className="text-xs text-zinc-500">{t('wfModeDesc')}</p>
+            <div className="flex items-center gap-1 mt-2">
+                <input
+                    value={workflowMeta.name}
+                    onChange={(e) => setWorkflowMeta(meta => ({ ...meta, name: e.target.value }))}
+                    placeholder={t('wfUntitled')}
+                    className="w-36 px-2 py-1 text-xs bg-zinc-950 border border-zinc-700 rounded text-zinc-200 focus:outline-none focus:border-zinc-500"
+                />
+                {[
+                    { icon: FilePlus, title: t('wfNew'), onClick: handleNew },
+                    { icon: Save, title: t('wfSave'), onClick: handleSave },
+                    { icon: Library, title: t('wfLibrary'), onClick: () => setIsLibraryOpen(true) },
+                    { icon: Upload, title: t('wfImport'), onClick: () => importInputRef.current?.click() },
+                    { icon: FileDown, title: t('wfExport'), onClick: handleExport },
+                ].map(({ icon: Icon, title, onClick }) => (
+                    <button
+                        key={title}
+                        onClick={onClick}
+                        className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+                        title={title}
+                    >
+                        <Icon className="w-3.5 h-3.5" />
+                    </button>
+                ))}
+            </div>
+            <label className="flex items-center gap-1.5 mt-1.5 text-[10px] text-zinc-500 cursor-pointer select-none">
+                <input
+                    type="checkbox"
+                    checked={embedImages}
+                    onChange={(e) => setEmbedImages(e.target.checked)}
+                    className="accent-purple-500"
+                />
+                {t('wfEmbedImages')}
+            </label>
+        </div>
+
+        <div className="absolute top-4 right-4 z-10 flex items-center gap-2">
+            <div className="flex items-center gap-1 bg-zinc-900/80 backdrop-blur p-1 rounded border border-zinc-800">
+                <span className="text-[10px] text-zinc-500 px-1.5">{t('wfAddNode')}</span>
+                {addableNodes.map(({ type, label, icon: Icon, color }) => (
+                    <button
+                        key={type}
+                        onClick={() => addNode(type)}
+                        className="p-1.5 rounded hover:bg-zinc-800 transition-colors"
+                        title={label}
+                    >
+                        <Icon className={clsx("w-4 h-4", color)} />
+                    </button>
+                ))}
+            </div>
+            <Button
+                variant="magic"
+                size="sm"
+                onClick={() => runFrom()}
+                isLoading={activeRuns > 0}
+                loadingText={t('generating')}
+            >
+                <Play className="w-3 h-3 mr-1" /> {t('wfRunAll')}
+            </Button>
         </div>
       </ReactFlow>
 
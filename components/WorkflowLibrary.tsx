@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { FolderOpen, Copy, Trash2, X, Library } from 'lucide-react';
+import { useLanguage } from './LanguageContext';
+import { AlertDialog } from './ui/AlertDialog';
+import { cn } from '../lib/utils';
+import { SavedWorkflow, listWorkflows, deleteWorkflow, duplicateWorkflow } from '../services/workflowStore';
+
+interface WorkflowLibraryProps {
+  open: boolean;
+  currentId: string | null;
+  onClose: () => void;
+  onOpenWorkflow: (workflow: SavedWorkflow) => void;
+  /** Called when the currently open workflow is deleted from the library. */
+  onCurrentDeleted: () => void;
+}
+
+export const WorkflowLibrary: React.FC<WorkflowLibraryProps> = ({
+  open,
+  currentId,
+  onClose,
+  onOpenWorkflow,
+  onCurrentDeleted,
+}) => {
+  const { t } = useLanguage();
+  const [workflows, setWorkflows] = useState<SavedWorkflow[]>([]);
+  const [toDelete, setToDelete] = useState<SavedWorkflow | null>(null);
+
+  const refresh = async () => {
+    try {
+      setWorkflows(await listWorkflows());
+    } catch (e) {
+      console.warn("Failed to list workflows", e);
+    }
+  };
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open]);
+
+  if (!open) return null;
+
+  const handleDuplicate = async (workflow: SavedWorkflow) => {
+    await duplicateWorkflow(workflow, `${workflow.name} ${t('wfCopySuffix')}`);
+    refresh();
+  };
+
+  const confirmDelete = async () => {
+    if (!toDelete) return;
+    await deleteWorkflow(toDelete.id);
+    if (toDelete.id === currentId) onCurrentDeleted();
+    setToDelete(null);
+    refresh();
+  };
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center p-6 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <AlertDialog
+        open={!!toDelete}
+        onOpenChange={(o) => !o && setToDelete(null)}
+        onConfirm={confirmDelete}
+        title={t('wfDeleteTitle')}
+        description={t('wfConfirmDelete')}
+        cancelText={t('cancel')}
+        confirmText={t('confirm')}
+      />
+
+      <div
+        className="w-full max-w-lg max-h-full flex flex-col bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <h3 className="text-sm font-bold text-zinc-200 flex items-center gap-2">
+            <Library className="w-4 h-4 text-zinc-400" />
+            {t('wfLibrary')}
+          </h3>
+          <button onClick={onClose} className="p-1.5 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {workflows.length === 0 ? (
+            <p className="text-xs text-zinc-500 text-center py-8">{t('wfLibraryEmpty')}</p>
+          ) : workflows.map((workflow) => (
+            <div
+              key={workflow.id}
+              className={cn(
+                "group flex items-center gap-3 p-3 rounded-lg transition-colors",
+                workflow.id === currentId ? "bg-zinc-900 ring-1 ring-purple-500/50" : "hover:bg-zinc-900"
+              )}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-zinc-200 truncate">{workflow.name}</p>
+                <p className="text-[10px] text-zinc-500 font-mono">
+                  {new Date(workflow.updatedAt).toLocaleString()} · {workflow.document.nodes.length} {t('wfNodesCount')}
+                </p>
+              </div>
+              <button
+                onClick={() => onOpenWorkflow(workflow)}
+                className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+                title={t('wfOpen')}
+              >
+                <FolderOpen className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDuplicate(workflow)}
+                className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+                title={t('wfDuplicate')}
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setToDelete(workflow)}
+                className="p-1.5 rounded text-zinc-400 hover:text-red-400 hover:bg-red-900/20 transition-colors"
+                title={t('wfDeleteTitle')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import { Collection, GeneratedImage } from '../types';
+
+/**
+ * Index of a backup archive. Image files sit next to it in the ZIP; the
+ * manifest holds everything else a history record stores.
+ */
+export const BACKUP_VERSION = 1;
+
+export const MANIFEST_FILE = 'manifest.json';
+
+export interface BackupRecord extends Omit<GeneratedImage, 'url'> {
+  /** Path of the image inside the archive. */
+  file: string;
+  mimeType: string;
+  /** Hex SHA-256 of the image bytes, used to spot records that already exist. */
+  hash: string;
+}
+
+/** A stored reference image, keyed by its content hash like the `uploads` store. */
+export interface BackupUpload {
+  hash: string;
+  file: string;
+  mimeType: string;
+  createdAt: number;
+}
+
+export interface BackupManifest {
+  schemaVersion: number;
+  exportedAt: number;
+  records: BackupRecord[];
+  uploads: BackupUpload[];
+  collections: Collection[];
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const fail = (message: string): never => {
+  throw new BackupError(message);
+};
+
+/**
+ * Checks the manifest's overall shape. Individual records are checked with
+ * `isValidBackupRecord` while importing, so one bad entry doesn't sink the rest.
+ */
+export const parseBackupManifest = (input: unknown): BackupManifest => {
+  if (!input || typeof input !== 'object') fail('Not a backup manifest');
+
+  const manifest: any = input;
+  if (typeof manifest.schemaVersion !== 'number') fail('Missing schema version');
+  if (manifest.schemaVersion > BACKUP_VERSION) {
+    fail(`Schema version ${manifest.schemaVersion} is newer than supported (${BACKUP_VERSION})`);
+  }
+  if (!Array.isArray(manifest.records)) fail('"records" must be an array');
+
+  return {
+    schemaVersion: manifest.schemaVersion,
+    exportedAt: typeof manifest.exportedAt === 'number' ? manifest.exportedAt : 0,
+    records: manifest.records,
+    uploads: Array.isArray(manifest.uploads) ? manifest.uploads : [],
+    collections: Array.isArray(manifest.collections) ? manifest.collections : [],
+  };
+};
+
+export const isValidBackupRecord = (record: any): record is BackupRecord => {
+  return !!record
+    && typeof record.id === 'string'
+    && typeof record.prompt === 'string'
+    && typeof record.timestamp === 'number'
+    && typeof record.file === 'string'
+    && typeof record.mimeType === 'string'
+    && typeof record.hash === 'string';
+};
+
+export const isValidBackupUpload = (upload: any): upload is BackupUpload => {
+  return !!upload
+    && typeof upload.hash === 'string'
+    && typeof upload.file === 'string'
+    && typeof upload.mimeType === 'string';
+};
+
+export const isValidCollection = (collection: any): collection is Collection => {
+  return !!collection
+    && typeof collection.id === 'string'
+    && typeof collection.name === 'string'
+    && typeof collection.createdAt === 'number';
+};
@@ -0,0 +1,22 @@
+// CRC-32 (IEEE), as used by PNG chunks and ZIP entries.
+
+let table: Uint32Array | null = null;
+
+const getTable = () => {
+  if (!table) {
+    table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      table[n] = c >>> 0;
+    }
+  }
+  return table;
+};
+
+export const crc32 = (bytes: Uint8Array): number => {
+  const lookup = getTable();
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = lookup[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
@@ -0,0 +1,68 @@
+import { AspectRatio, GeneratedImage, ImageOperation, Resolution } from '../types';
+
+// --- History Filtering ---
+// What the history grid shows. Every set criterion has to match; empty
+// lists and null bounds leave that criterion out.
+
+export interface HistoryFilter {
+  /** Whitespace separated terms; `#tag` terms match tags exactly. */
+  query: string;
+  favoritesOnly: boolean;
+  collectionId: string | null;
+  /** Inclusive timestamp bounds. */
+  from: number | null;
+  to: number | null;
+  resolutions: Resolution[];
+  aspectRatios: AspectRatio[];
+  operations: ImageOperation[];
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  query: '',
+  favoritesOnly: false,
+  collectionId: null,
+  from: null,
+  to: null,
+  resolutions: [],
+  aspectRatios: [],
+  operations: [],
+};
+
+export const isHistoryFiltered = (filter: HistoryFilter) => {
+  return filter.query.trim() !== ''
+    || filter.favoritesOnly
+    || filter.collectionId !== null
+    || filter.from !== null
+    || filter.to !== null
+    || filter.resolutions.length > 0
+    || filter.aspectRatios.length > 0
+    || filter.operations.length > 0;
+};
+
+const matchesQuery = (image: Omit<GeneratedImage, 'url'>, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const tags = image.tags || [];
+  const haystack = `${image.prompt}\n${image.template || ''}\n${tags.join(' ')}`.toLowerCase();
+  return terms.every(term => term.startsWith('#') && term.length > 1
+    ? tags.includes(term.slice(1))
+    : haystack.includes(term)
+  );
+};
+
+export const matchesHistoryFilter = (image: Omit<GeneratedImage, 'url'>, filter: HistoryFilter) => {
+  if (filter.favoritesOnly && !image.favorite) return false;
+  if (filter.collectionId && !image.collectionIds?.includes(filter.collectionId)) return false;
+  if (filter.from !== null && image.timestamp < filter.from) return false;
+  if (filter.to !== null && image.timestamp > filter.to) return false;
+  if (filter.resolutions.length > 0 && (!image.resolution || !filter.resolutions.includes(image.resolution))) return false;
+  if (filter.aspectRatios.length > 0 && (!image.aspectRatio || !filter.aspectRatios.includes(image.aspectRatio))) return false;
+  // Records from before operations were tracked are all generations
+  if (filter.operations.length > 0 && !filter.operations.includes(image.operation || 'generate')) return false;
+  return matchesQuery(image, filter.query);
+};
+
+/** Toggles `value` in a filter list. */
+export const toggleFilterValue = <T>(values: T[], value: T): T[] => {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+};
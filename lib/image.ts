@@ -0,0 +1,141 @@
+import { AspectRatio, RatioFit } from '../types';
+import { ImageMetadata, embedImageMetadata } from './imageMetadata';
+
+// --- Image Data Conversion Helpers ---
+
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } | null => {
+  const matches = dataUrl.match(/^data:(.+);base64,(.+)$/);
+  return matches && matches.length === 3 ? { mimeType: matches[1], data: matches[2] } : null;
+};
+
+/** Synchronous so it can run inside an IndexedDB upgrade transaction. */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) {
+    throw new Error("Invalid image data format");
+  }
+  const binary = atob(parsed.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: parsed.mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Model APIs need base64 input; history images may be held as object URLs.
+ */
+export const urlToDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const response = await fetch(url);
+  return blobToDataUrl(await response.blob());
+};
+
+export const loadImageElement = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Invalid image data format"));
+    img.src = src;
+  });
+};
+
+/** Hex SHA-256 of the decoded image bytes, used as a content address. */
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/** Small JPEG preview whose longest edge is at most `maxSize` pixels. */
+export const createThumbnail = async (url: string, maxSize: number = 128): Promise<string> => {
+  const img = await loadImageElement(url);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas context failed");
+  }
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+/**
+ * Brings an image to an exact aspect ratio: `crop` cuts the overhang from
+ * the center, `pad` letterboxes it over a blurred, enlarged copy of itself.
+ */
+export const fitToAspectRatio = async (url: string, ratio: AspectRatio, mode: RatioFit): Promise<string> => {
+  const img = await loadImageElement(url);
+  const [rw, rh] = ratio.split(':').map(Number);
+  const target = rw / rh;
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const fitsWidth = width / height > target;
+  const canvas = document.createElement('canvas');
+  if (mode === 'crop') {
+    canvas.width = fitsWidth ? Math.round(height * target) : width;
+    canvas.height = fitsWidth ? height : Math.round(width / target);
+  } else {
+    canvas.width = fitsWidth ? width : Math.round(height * target);
+    canvas.height = fitsWidth ? Math.round(width / target) : height;
+  }
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas context failed");
+  }
+
+  if (mode === 'pad') {
+    const cover = Math.max(canvas.width / width, canvas.height / height);
+    ctx.filter = `blur(${Math.round(Math.max(canvas.width, canvas.height) / 40)}px) brightness(0.6)`;
+    ctx.drawImage(img, (canvas.width - width * cover) / 2, (canvas.height - height * cover) / 2, width * cover, height * cover);
+    ctx.filter = 'none';
+  }
+  ctx.drawImage(img, (canvas.width - width) / 2, (canvas.height - height) / 2);
+  return canvas.toDataURL('image/png');
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+/** File extension for a mime type, falling back to png. */
+export const extensionForMime = (mimeType: string): string => EXTENSIONS[mimeType] || 'png';
+
+/**
+ * Saves an image as `<basename>.<ext>`, with the extension matching its
+ * actual type. `metadata` is embedded when the format supports it.
+ */
+export const downloadImage = async (url: string, basename: string, metadata?: ImageMetadata | null) => {
+  let blob = url.startsWith('data:') ? dataUrlToBlob(url) : await (await fetch(url)).blob();
+  if (metadata) {
+    // A file without metadata still beats no file
+    blob = await embedImageMetadata(blob, metadata).catch(e => {
+      console.warn("Metadata Embed Failed", e);
+      return blob;
+    });
+  }
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = `${basename}.${extensionForMime(blob.type)}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(objectUrl);
+};
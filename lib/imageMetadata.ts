@@ -0,0 +1,320 @@
+import { AspectRatio, GeneratedImage, ImageOperation, Resolution } from '../types';
+import { crc32 } from './crc32';
+
+// --- Embedded Generation Metadata ---
+// Downloads carry how they were made: PNGs in iTXt/tEXt chunks, JPEGs in
+// an XMP packet. Reading it back lets a file restore its settings later.
+
+export const IMAGE_METADATA_VERSION = 1;
+
+/** Chunk keyword (PNG) and XMP property name holding the JSON payload. */
+const METADATA_KEY = 'nano-banana';
+const SOFTWARE = 'Nano Banana Studio';
+const XMP_NAMESPACE = 'https://nano-banana.studio/ns/1.0/';
+
+export interface LineageEntry {
+  id: string;
+  operation?: ImageOperation;
+  prompt: string;
+  timestamp: number;
+}
+
+export interface ImageMetadata {
+  schemaVersion: number;
+  id?: string;
+  prompt: string;
+  template?: string;
+  operation?: ImageOperation;
+  model?: string;
+  resolution?: Resolution;
+  aspectRatio?: AspectRatio;
+  timestamp: number;
+  /** Records this image was derived from, root first. */
+  lineage: LineageEntry[];
+}
+
+type RecordMeta = Omit<GeneratedImage, 'url'>;
+
+/** `ancestors` are nearest parent first, the order `parentId` is walked in. */
+export const buildImageMetadata = (image: RecordMeta, ancestors: RecordMeta[] = []): ImageMetadata => ({
+  schemaVersion: IMAGE_METADATA_VERSION,
+  id: image.id,
+  prompt: image.prompt,
+  template: image.template,
+  operation: image.operation,
+  model: image.model,
+  resolution: image.resolution,
+  aspectRatio: image.aspectRatio,
+  timestamp: image.timestamp,
+  lineage: ancestors
+    .map(({ id, operation, prompt, timestamp }) => ({ id, operation, prompt, timestamp }))
+    .reverse(),
+});
+
+const RESOLUTIONS: Resolution[] = ['1K', '2K', '4K'];
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+/**
+ * Validates a payload read from a file. Unknown settings are dropped
+ * rather than rejected so files from newer versions still load.
+ */
+const parseImageMetadata = (input: unknown): ImageMetadata | null => {
+  if (!input || typeof input !== 'object') return null;
+  const meta: any = input;
+  if (typeof meta.prompt !== 'string') return null;
+  const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+  return {
+    schemaVersion: typeof meta.schemaVersion === 'number' ? meta.schemaVersion : IMAGE_METADATA_VERSION,
+    id: optionalString(meta.id),
+    prompt: meta.prompt,
+    template: optionalString(meta.template),
+    operation: optionalString(meta.operation) as ImageOperation | undefined,
+    model: optionalString(meta.model),
+    resolution: RESOLUTIONS.includes(meta.resolution) ? meta.resolution : undefined,
+    aspectRatio: ASPECT_RATIOS.includes(meta.aspectRatio) ? meta.aspectRatio : undefined,
+    timestamp: typeof meta.timestamp === 'number' ? meta.timestamp : 0,
+    lineage: Array.isArray(meta.lineage)
+      ? meta.lineage.filter((entry: any) => entry && typeof entry.id === 'string' && typeof entry.prompt === 'string')
+      : [],
+  };
+};
+
+const parseJson = (text: string): ImageMetadata | null => {
+  try {
+    return parseImageMetadata(JSON.parse(text));
+  } catch {
+    return null;
+  }
+};
+
+const encoder = new TextEncoder();
+const utf8 = new TextDecoder();
+const latin1 = new TextDecoder('latin1');
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// --- PNG ---
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+  /** Offset of the chunk's length field. */
+  start: number;
+  end: number;
+}
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length), start: offset, end });
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const typeAndData = concatBytes([encoder.encode(type), data]);
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return out;
+};
+
+/** tEXt is Latin-1 only, so it is kept to ASCII values. */
+const textChunk = (keyword: string, text: string) => {
+  return pngChunk('tEXt', concatBytes([encoder.encode(keyword), new Uint8Array([0]), encoder.encode(text)]));
+};
+
+/** Uncompressed iTXt: keyword, flags, empty language tags, UTF-8 text. */
+const internationalTextChunk = (keyword: string, text: string) => {
+  return pngChunk('iTXt', concatBytes([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+};
+
+/** Keyword and text of a tEXt or uncompressed iTXt chunk. */
+const readTextChunk = (chunk: PngChunk): { keyword: string; text: string } | null => {
+  const separator = chunk.data.indexOf(0);
+  if (separator < 0) return null;
+  const keyword = latin1.decode(chunk.data.subarray(0, separator));
+  if (chunk.type === 'tEXt') {
+    return { keyword, text: latin1.decode(chunk.data.subarray(separator + 1)) };
+  }
+  if (chunk.type !== 'iTXt' || chunk.data[separator + 1] !== 0) return null;
+  // Skip the compression bytes, then the language tag and translated keyword
+  let offset = separator + 3;
+  for (let i = 0; i < 2; i++) {
+    const next = chunk.data.indexOf(0, offset);
+    if (next < 0) return null;
+    offset = next + 1;
+  }
+  return { keyword, text: utf8.decode(chunk.data.subarray(offset)) };
+};
+
+const OWN_PNG_KEYWORDS = [METADATA_KEY, 'Description', 'Software', 'Creation Time'];
+
+const embedPng = (bytes: Uint8Array, meta: ImageMetadata): Uint8Array => {
+  const chunks = readPngChunks(bytes);
+  if (chunks[0]?.type !== 'IHDR') throw new Error("Invalid PNG data");
+  const added = [
+    internationalTextChunk('Description', meta.prompt),
+    textChunk('Software', SOFTWARE),
+    textChunk('Creation Time', new Date(meta.timestamp).toUTCString()),
+    internationalTextChunk(METADATA_KEY, JSON.stringify(meta)),
+  ];
+  // Replace what an earlier export wrote instead of stacking duplicates
+  const kept = chunks.slice(1).filter(chunk => {
+    const text = chunk.type === 'tEXt' || chunk.type === 'iTXt' ? readTextChunk(chunk) : null;
+    return !text || !OWN_PNG_KEYWORDS.includes(text.keyword);
+  });
+  return concatBytes([
+    bytes.subarray(0, chunks[0].end),
+    ...added,
+    ...kept.map(chunk => bytes.subarray(chunk.start, chunk.end)),
+  ]);
+};
+
+const readPng = (bytes: Uint8Array): ImageMetadata | null => {
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type !== 'tEXt' && chunk.type !== 'iTXt') continue;
+    const text = readTextChunk(chunk);
+    if (text?.keyword === METADATA_KEY) return parseJson(text.text);
+  }
+  return null;
+};
+
+// --- JPEG ---
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+/** An APP segment's length field counts itself, so the payload tops out here. */
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+interface JpegSegment {
+  marker: number;
+  start: number;
+  end: number;
+  payload: Uint8Array;
+}
+
+/** Segments up to the start of scan; image data follows and is copied as is. */
+const readJpegSegments = (bytes: Uint8Array): { segments: JpegSegment[]; dataStart: number } => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (end > bytes.length) break;
+    segments.push({ marker, start: offset, end, payload: bytes.subarray(offset + 4, end) });
+    offset = end;
+  }
+  return { segments, dataStart: offset };
+};
+
+const isXmpSegment = (segment: JpegSegment) => {
+  return segment.marker === 0xe1 && latin1.decode(segment.payload.subarray(0, XMP_HEADER.length)) === XMP_HEADER;
+};
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string) => text
+  .replace(/&quot;/g, '"')
+  .replace(/&gt;/g, '>')
+  .replace(/&lt;/g, '<')
+  .replace(/&amp;/g, '&');
+
+const xmpPacket = (meta: ImageMetadata) => [
+  '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+  '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+  `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:nb="${XMP_NAMESPACE}"`,
+  ` xmp:CreatorTool="${SOFTWARE}" xmp:CreateDate="${new Date(meta.timestamp).toISOString()}"`,
+  ` nb:metadata="${escapeXml(JSON.stringify(meta))}">`,
+  `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(meta.prompt)}</rdf:li></rdf:Alt></dc:description>`,
+  '</rdf:Description>',
+  '</rdf:RDF>',
+  '</x:xmpmeta>',
+  '<?xpacket end="w"?>',
+].join('');
+
+const xmpSegment = (meta: ImageMetadata): Uint8Array => {
+  let payload = encoder.encode(XMP_HEADER + xmpPacket(meta));
+  // One segment is all XMP gets without extended XMP; long lineages lose their oldest steps first
+  let trimmed = meta;
+  while (payload.length > MAX_SEGMENT_PAYLOAD && trimmed.lineage.length > 0) {
+    trimmed = { ...trimmed, lineage: trimmed.lineage.slice(1) };
+    payload = encoder.encode(XMP_HEADER + xmpPacket(trimmed));
+  }
+  if (payload.length > MAX_SEGMENT_PAYLOAD) throw new Error("Metadata too large");
+  const header = new Uint8Array([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  return concatBytes([header, payload]);
+};
+
+const embedJpeg = (bytes: Uint8Array, meta: ImageMetadata): Uint8Array => {
+  const { segments, dataStart } = readJpegSegments(bytes);
+  // XMP goes after the JFIF/EXIF headers, which readers expect first
+  const leading = segments.filter(s => s.marker === 0xe0 || (s.marker === 0xe1 && !isXmpSegment(s)));
+  const rest = segments.filter(s => !leading.includes(s) && !isXmpSegment(s));
+  return concatBytes([
+    bytes.subarray(0, 2),
+    ...leading.map(s => bytes.subarray(s.start, s.end)),
+    xmpSegment(meta),
+    ...rest.map(s => bytes.subarray(s.start, s.end)),
+    bytes.subarray(dataStart),
+  ]);
+};
+
+const readJpeg = (bytes: Uint8Array): ImageMetadata | null => {
+  const segment = readJpegSegments(bytes).segments.find(isXmpSegment);
+  if (!segment) return null;
+  const xmp = utf8.decode(segment.payload.subarray(XMP_HEADER.length));
+  const match = xmp.match(/nb:metadata="([^"]*)"/);
+  return match ? parseJson(unescapeXml(match[1])) : null;
+};
+
+// --- Public API ---
+
+/**
+ * Returns `blob` with `meta` embedded. Formats without a writer (e.g. WebP)
+ * are returned unchanged.
+ */
+export const embedImageMetadata = async (blob: Blob, meta: ImageMetadata): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (isPng(bytes)) return new Blob([embedPng(bytes, meta)], { type: 'image/png' });
+  if (isJpeg(bytes)) return new Blob([embedJpeg(bytes, meta)], { type: 'image/jpeg' });
+  return blob;
+};
+
+/** Metadata a previous download embedded in `blob`, or null if it has none. */
+export const readImageMetadata = async (blob: Blob): Promise<ImageMetadata | null> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (isPng(bytes)) return readPng(bytes);
+  if (isJpeg(bytes)) return readJpeg(bytes);
+  return null;
+};
@@ -0,0 +1,78 @@
+import { loadImageElement } from './image';
+
+// --- Inpainting Mask Helpers ---
+// The editor paints with any opaque colour; only the alpha channel matters.
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas context failed");
+  }
+  return { canvas, ctx };
+};
+
+export const isMaskEmpty = (maskCanvas: HTMLCanvasElement): boolean => {
+  const ctx = maskCanvas.getContext('2d');
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(0, 0, maskCanvas.width, maskCanvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+/** Black/white PNG as sent to the model: white is the editable area. */
+export const exportMask = (maskCanvas: HTMLCanvasElement): string => {
+  const { canvas, ctx } = createCanvas(maskCanvas.width, maskCanvas.height);
+  ctx.drawImage(maskCanvas, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Takes pixels from `edited` where the mask is white and from `original`
+ * everywhere else, so the unmasked area comes back bit-for-bit unchanged.
+ * The edited image is scaled to the original's size first, since models
+ * don't always keep the input dimensions.
+ */
+export const compositeMasked = async (original: string, edited: string, mask: string): Promise<string> => {
+  const [originalImg, editedImg, maskImg] = await Promise.all([
+    loadImageElement(original),
+    loadImageElement(edited),
+    loadImageElement(mask),
+  ]);
+  const width = originalImg.naturalWidth;
+  const height = originalImg.naturalHeight;
+
+  const base = createCanvas(width, height);
+  base.ctx.drawImage(originalImg, 0, 0);
+  const output = base.ctx.getImageData(0, 0, width, height);
+
+  const layer = createCanvas(width, height);
+  layer.ctx.drawImage(editedImg, 0, 0, width, height);
+  const editedData = layer.ctx.getImageData(0, 0, width, height).data;
+
+  layer.ctx.clearRect(0, 0, width, height);
+  layer.ctx.drawImage(maskImg, 0, 0, width, height);
+  const maskData = layer.ctx.getImageData(0, 0, width, height).data;
+
+  for (let i = 0; i < output.data.length; i += 4) {
+    // Hard threshold: blending would alter pixels outside the painted area
+    if (maskData[i] < 128) continue;
+    output.data[i] = editedData[i];
+    output.data[i + 1] = editedData[i + 1];
+    output.data[i + 2] = editedData[i + 2];
+    output.data[i + 3] = editedData[i + 3];
+  }
+
+  base.ctx.putImageData(output, 0, 0);
+  return base.canvas.toDataURL('image/png');
+};
@@ -0,0 +1,82 @@
+import { AspectRatio, RatioFit, Resolution } from '../types';
+
+// --- Model Capabilities ---
+// What each image model accepts. The UI reads this to explain limits up
+// front and the service checks requests against it, so nothing is dropped
+// or substituted without the user knowing.
+
+export interface ModelCapabilities {
+  model: string;
+  maxReferenceImages: number;
+  aspectRatios: AspectRatio[];
+  resolutions: Resolution[];
+  /** Whether reference images can be combined with 4K output. */
+  referencesAt4K: boolean;
+}
+
+export const MODEL_CAPABILITIES: Record<string, ModelCapabilities> = {
+  'gemini-3-pro-image-preview': {
+    model: 'gemini-3-pro-image-preview',
+    maxReferenceImages: 14,
+    aspectRatios: ['1:1', '3:4', '4:3', '9:16', '16:9', '21:9'],
+    resolutions: ['1K', '2K', '4K'],
+    referencesAt4K: false,
+  },
+  // Mirrors the Gemini limits so demos behave like the real thing
+  'mock-image': {
+    model: 'mock-image',
+    maxReferenceImages: 14,
+    aspectRatios: ['1:1', '3:4', '4:3', '9:16', '16:9', '21:9'],
+    resolutions: ['1K', '2K', '4K'],
+    referencesAt4K: false,
+  },
+};
+
+export type CapabilityIssue =
+  | { kind: 'tooManyReferences'; model: string; count: number; max: number }
+  | { kind: 'referencesAt4K'; model: string }
+  | { kind: 'resolution'; model: string; resolution: Resolution }
+  | { kind: 'aspectRatio'; model: string; aspectRatio: AspectRatio; nearest: AspectRatio };
+
+export interface GenerateRequestShape {
+  referenceCount: number;
+  resolution: Resolution;
+  aspectRatio: AspectRatio;
+  /** Allows unsupported ratios by generating at the nearest one and fitting locally. */
+  ratioFit?: RatioFit;
+}
+
+const ratioValue = (ratio: AspectRatio) => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+/** The supported ratio closest to `ratio`, compared on a log scale so 2:1 and 1:2 are equally far from 1:1. */
+export const nearestAspectRatio = (capabilities: ModelCapabilities, ratio: AspectRatio): AspectRatio => {
+  if (capabilities.aspectRatios.includes(ratio)) return ratio;
+  const target = Math.log(ratioValue(ratio));
+  return capabilities.aspectRatios.reduce((best, candidate) =>
+    Math.abs(Math.log(ratioValue(candidate)) - target) < Math.abs(Math.log(ratioValue(best)) - target) ? candidate : best
+  );
+};
+
+/** The first limit `request` runs into, or null when the model supports it. */
+export const checkGenerateRequest = (
+  capabilities: ModelCapabilities,
+  { referenceCount, resolution, aspectRatio, ratioFit }: GenerateRequestShape
+): CapabilityIssue | null => {
+  const { model } = capabilities;
+  if (!capabilities.resolutions.includes(resolution)) {
+    return { kind: 'resolution', model, resolution };
+  }
+  if (!ratioFit && !capabilities.aspectRatios.includes(aspectRatio)) {
+    return { kind: 'aspectRatio', model, aspectRatio, nearest: nearestAspectRatio(capabilities, aspectRatio) };
+  }
+  if (referenceCount > capabilities.maxReferenceImages) {
+    return { kind: 'tooManyReferences', model, count: referenceCount, max: capabilities.maxReferenceImages };
+  }
+  if (referenceCount > 0 && resolution === '4K' && !capabilities.referencesAt4K) {
+    return { kind: 'referencesAt4K', model };
+  }
+  return null;
+};
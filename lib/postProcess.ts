@@ -0,0 +1,118 @@
+// --- Local Post-Processing ---
+// Canvas operations applied after generation: rotate/flip, crop, resize and
+// brightness/contrast, in that order, then export to a chosen format.
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['image/png', 'image/jpeg', 'image/webp'];
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+/** Width/height of the crop, or null to keep the whole frame. */
+export type CropPreset = [number, number] | null;
+
+export interface PostProcessSettings {
+  rotation: Rotation;
+  flipH: boolean;
+  flipV: boolean;
+  crop: CropPreset;
+  /** Share of the largest crop of `crop`'s ratio that is kept, 0.1–1. */
+  cropZoom: number;
+  /** Where the crop sits inside the frame, 0–1 on each axis. */
+  cropX: number;
+  cropY: number;
+  /** Output size relative to the crop, in percent. */
+  scale: number;
+  /** Percent, 100 is unchanged. */
+  brightness: number;
+  contrast: number;
+}
+
+export const DEFAULT_POST_PROCESS: PostProcessSettings = {
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  crop: null,
+  cropZoom: 1,
+  cropX: 0.5,
+  cropY: 0.5,
+  scale: 100,
+  brightness: 100,
+  contrast: 100,
+};
+
+export const isUnchanged = (settings: PostProcessSettings) => {
+  return (Object.keys(DEFAULT_POST_PROCESS) as (keyof PostProcessSettings)[])
+    .every(key => settings[key] === DEFAULT_POST_PROCESS[key]);
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas context failed");
+  }
+  return { canvas, ctx };
+};
+
+/** Crop rectangle in the rotated frame's pixels. */
+const cropRect = (width: number, height: number, settings: PostProcessSettings) => {
+  let cropWidth = width;
+  let cropHeight = height;
+  if (settings.crop) {
+    const [rw, rh] = settings.crop;
+    if (width / height > rw / rh) {
+      cropWidth = height * rw / rh;
+    } else {
+      cropHeight = width * rh / rw;
+    }
+  }
+  cropWidth *= settings.cropZoom;
+  cropHeight *= settings.cropZoom;
+  return {
+    x: (width - cropWidth) * settings.cropX,
+    y: (height - cropHeight) * settings.cropY,
+    width: cropWidth,
+    height: cropHeight,
+  };
+};
+
+/** Size of the result for a source of `width`×`height`. */
+export const outputSize = (width: number, height: number, settings: PostProcessSettings) => {
+  const turned = settings.rotation % 180 !== 0;
+  const rect = cropRect(turned ? height : width, turned ? width : height, settings);
+  return {
+    width: Math.max(1, Math.round(rect.width * settings.scale / 100)),
+    height: Math.max(1, Math.round(rect.height * settings.scale / 100)),
+  };
+};
+
+/** Renders `source` with every setting applied. */
+export const renderPostProcess = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  settings: PostProcessSettings
+): HTMLCanvasElement => {
+  const turned = settings.rotation % 180 !== 0;
+  const rotated = createCanvas(turned ? height : width, turned ? width : height);
+  rotated.ctx.translate(rotated.canvas.width / 2, rotated.canvas.height / 2);
+  rotated.ctx.rotate(settings.rotation * Math.PI / 180);
+  rotated.ctx.scale(settings.flipH ? -1 : 1, settings.flipV ? -1 : 1);
+  rotated.ctx.drawImage(source, -width / 2, -height / 2, width, height);
+
+  const rect = cropRect(rotated.canvas.width, rotated.canvas.height, settings);
+  const size = outputSize(width, height, settings);
+  const output = createCanvas(size.width, size.height);
+  output.ctx.imageSmoothingQuality = 'high';
+  output.ctx.filter = `brightness(${settings.brightness}%) contrast(${settings.contrast}%)`;
+  output.ctx.drawImage(rotated.canvas, rect.x, rect.y, rect.width, rect.height, 0, 0, size.width, size.height);
+  return output.canvas;
+};
+
+/** `quality` (0–1) only applies to lossy formats. */
+export const exportCanvas = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): string => {
+  return canvas.toDataURL(format, format === 'image/png' ? undefined : quality);
+};
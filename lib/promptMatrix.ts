@@ -0,0 +1,190 @@
+import { AspectRatio, Resolution } from '../types';
+import { loadImageElement } from './image';
+
+// --- Prompt Matrix ---
+// `{a|b|c}` in a prompt is an axis; every combination of all axes becomes
+// one cell of a comparison grid.
+
+export type MatrixAxisKind = 'prompt' | 'resolution' | 'aspectRatio';
+
+export interface MatrixAxis {
+  kind: MatrixAxisKind;
+  values: string[];
+}
+
+export interface MatrixCell {
+  prompt: string;
+  resolution: Resolution;
+  aspectRatio: AspectRatio;
+  /** Index into each axis' values, in axis order. */
+  coords: number[];
+}
+
+/** Keeps a single request from fanning out into hundreds of generations. */
+export const MAX_MATRIX_CELLS = 36;
+
+const AXIS_PATTERN = /\{([^{}]*\|[^{}]*)\}/g;
+
+/** Axes found in the prompt, in order of appearance. Groups need at least one `|`. */
+export const parsePromptAxes = (prompt: string): MatrixAxis[] => {
+  return Array.from(prompt.matchAll(AXIS_PATTERN), match => ({
+    kind: 'prompt' as const,
+    values: match[1].split('|').map(v => v.trim()),
+  }));
+};
+
+export interface MatrixSettings {
+  resolutions: Resolution[];
+  aspectRatios: AspectRatio[];
+}
+
+/** Prompt axes plus resolution/ratio axes when more than one value is picked. */
+export const buildMatrixAxes = (prompt: string, settings: MatrixSettings): MatrixAxis[] => {
+  const axes = parsePromptAxes(prompt);
+  if (settings.resolutions.length > 1) axes.push({ kind: 'resolution', values: settings.resolutions });
+  if (settings.aspectRatios.length > 1) axes.push({ kind: 'aspectRatio', values: settings.aspectRatios });
+  return axes;
+};
+
+export const countMatrixCells = (axes: MatrixAxis[]): number => {
+  return axes.reduce((total, axis) => total * Math.max(1, axis.values.length), 1);
+};
+
+/**
+ * Every combination of `axes`, with the first axis varying fastest.
+ * Prompt axes are substituted in order; resolution and ratio axes override
+ * the given defaults.
+ */
+export const expandMatrix = (
+  prompt: string,
+  axes: MatrixAxis[],
+  defaults: { resolution: Resolution; aspectRatio: AspectRatio }
+): MatrixCell[] => {
+  const total = countMatrixCells(axes);
+  const cells: MatrixCell[] = [];
+
+  for (let n = 0; n < total; n++) {
+    const coords: number[] = [];
+    let rest = n;
+    for (const axis of axes) {
+      coords.push(rest % axis.values.length);
+      rest = Math.floor(rest / axis.values.length);
+    }
+
+    let promptAxis = 0;
+    const promptCoords = axes
+      .map((axis, i) => axis.kind === 'prompt' ? axis.values[coords[i]] : null)
+      .filter((value): value is string => value !== null);
+    const cellPrompt = prompt.replace(AXIS_PATTERN, () => promptCoords[promptAxis++] ?? '');
+
+    const pick = (kind: MatrixAxisKind) => {
+      const index = axes.findIndex(axis => axis.kind === kind);
+      return index >= 0 ? axes[index].values[coords[index]] : undefined;
+    };
+
+    cells.push({
+      prompt: cellPrompt,
+      resolution: (pick('resolution') as Resolution) || defaults.resolution,
+      aspectRatio: (pick('aspectRatio') as AspectRatio) || defaults.aspectRatio,
+      coords,
+    });
+  }
+  return cells;
+};
+
+const TILE_SIZE = 384;
+const LABEL_HEIGHT = 48;
+const LABEL_WIDTH = 200;
+const GAP = 8;
+
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}…`;
+};
+
+/**
+ * Lays the cells out as an X/Y plot: the first axis runs along the columns,
+ * all remaining axes are combined into the rows. Failed cells (null) are
+ * drawn as empty, crossed-out tiles. Returns a PNG data URL.
+ */
+export const composeMatrixGrid = async (
+  axes: MatrixAxis[],
+  cells: MatrixCell[],
+  images: (string | null)[]
+): Promise<string> => {
+  const [xAxis, ...yAxes] = axes;
+  const columns = xAxis.values.length;
+  const rows = countMatrixCells(yAxes);
+  const hasRowLabels = yAxes.length > 0;
+
+  const left = hasRowLabels ? LABEL_WIDTH : 0;
+  const canvas = document.createElement('canvas');
+  canvas.width = left + columns * (TILE_SIZE + GAP) + GAP;
+  canvas.height = LABEL_HEIGHT + rows * (TILE_SIZE + GAP) + GAP;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas context failed");
+  }
+
+  ctx.fillStyle = '#09090b';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.font = '600 18px Inter, sans-serif';
+  ctx.fillStyle = '#e4e4e7';
+  ctx.textBaseline = 'middle';
+
+  ctx.textAlign = 'center';
+  xAxis.values.forEach((value, col) => {
+    const x = left + GAP + col * (TILE_SIZE + GAP) + TILE_SIZE / 2;
+    ctx.fillText(fitText(ctx, value, TILE_SIZE - 16), x, LABEL_HEIGHT / 2);
+  });
+
+  ctx.textAlign = 'left';
+  for (let row = 0; row < rows; row++) {
+    if (!hasRowLabels) break;
+    let rest = row;
+    const parts = yAxes.map(axis => {
+      const value = axis.values[rest % axis.values.length];
+      rest = Math.floor(rest / axis.values.length);
+      return value;
+    });
+    const y = LABEL_HEIGHT + row * (TILE_SIZE + GAP) + TILE_SIZE / 2;
+    ctx.fillText(fitText(ctx, parts.join(' · '), LABEL_WIDTH - 24), 16, y);
+  }
+
+  const loaded = await Promise.all(images.map(url => url ? loadImageElement(url).catch(() => null) : null));
+
+  cells.forEach((cell, i) => {
+    const col = cell.coords[0];
+    const row = Math.floor(i / columns);
+    const x = left + GAP + col * (TILE_SIZE + GAP);
+    const y = LABEL_HEIGHT + row * (TILE_SIZE + GAP);
+    const img = loaded[i];
+
+    ctx.fillStyle = '#18181b';
+    ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+
+    if (!img) {
+      ctx.strokeStyle = '#7f1d1d';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(x + 24, y + 24);
+      ctx.lineTo(x + TILE_SIZE - 24, y + TILE_SIZE - 24);
+      ctx.moveTo(x + TILE_SIZE - 24, y + 24);
+      ctx.lineTo(x + 24, y + TILE_SIZE - 24);
+      ctx.stroke();
+      return;
+    }
+
+    // Contain, so different aspect ratios stay comparable
+    const scale = Math.min(TILE_SIZE / img.naturalWidth, TILE_SIZE / img.naturalHeight);
+    const w = img.naturalWidth * scale;
+    const h = img.naturalHeight * scale;
+    ctx.drawImage(img, x + (TILE_SIZE - w) / 2, y + (TILE_SIZE - h) / 2, w, h);
+  });
+
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,83 @@
+import { AspectRatio, Resolution } from '../types';
+
+/**
+ * Shareable prompt library export. Reference images travel as data URLs
+ * since the receiving browser doesn't have the originals.
+ */
+export const PROMPT_PACK_VERSION = 1;
+
+export interface PromptPackEntry {
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+  resolution?: Resolution;
+  aspectRatio?: AspectRatio;
+  favorite?: boolean;
+  references?: string[];
+}
+
+export interface PromptPack {
+  schemaVersion: number;
+  prompts: PromptPackEntry[];
+}
+
+export class PromptPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptPackError';
+  }
+}
+
+const RESOLUTIONS: Resolution[] = ['1K', '2K', '4K'];
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+const fail = (message: string): never => {
+  throw new PromptPackError(message);
+};
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+};
+
+/**
+ * Validates untrusted input (an imported file) and returns its entries.
+ * Throws PromptPackError when unusable.
+ */
+export const parsePromptPack = (input: unknown): PromptPack => {
+  if (!input || typeof input !== 'object') fail('Not a prompt pack');
+
+  const pack: any = input;
+  if (typeof pack.schemaVersion !== 'number') fail('Missing schema version');
+  if (pack.schemaVersion > PROMPT_PACK_VERSION) {
+    fail(`Schema version ${pack.schemaVersion} is newer than supported (${PROMPT_PACK_VERSION})`);
+  }
+  if (!Array.isArray(pack.prompts)) fail('"prompts" must be an array');
+
+  pack.prompts.forEach((p: any, i: number) => {
+    if (!p || typeof p.id !== 'string') fail(`Prompt ${i} has no id`);
+    if (typeof p.title !== 'string' || typeof p.body !== 'string') fail(`Prompt "${p.id}" needs a title and body`);
+    if (!isStringArray(p.tags)) fail(`Prompt "${p.id}" has invalid tags`);
+    if (p.resolution !== undefined && !RESOLUTIONS.includes(p.resolution)) {
+      fail(`Prompt "${p.id}" has unknown resolution "${p.resolution}"`);
+    }
+    if (p.aspectRatio !== undefined && !ASPECT_RATIOS.includes(p.aspectRatio)) {
+      fail(`Prompt "${p.id}" has unknown aspect ratio "${p.aspectRatio}"`);
+    }
+    if (p.references !== undefined) {
+      const valid = isStringArray(p.references) && p.references.every(ref => ref.startsWith('data:image/'));
+      if (!valid) fail(`Prompt "${p.id}" has invalid reference images`);
+    }
+  });
+
+  return pack as PromptPack;
+};
+
+/** Comma or whitespace separated tags, deduplicated, `#` prefixes dropped. */
+export const parseTags = (text: string): string[] => {
+  const tags = text
+    .split(/[,，\s]+/)
+    .map(tag => tag.replace(/^#/, '').trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+};
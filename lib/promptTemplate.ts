@@ -0,0 +1,105 @@
+// --- Prompt Templates ---
+// `__name__` picks a term from the wildcard list `name`; `${name}` is a
+// variable filled in by the user. Wildcard terms may contain further
+// wildcards and variables.
+
+export type ExpansionMode = 'random' | 'sequential';
+
+export interface ExpansionOptions {
+  wildcards: Record<string, string[]>;
+  variables: Record<string, string>;
+  mode: ExpansionMode;
+  /** Random mode: same seed, same picks, so a preview matches what is sent. */
+  seed: number;
+  /** Sequential mode: the n-th expansion takes the n-th term of every list. */
+  index: number;
+}
+
+export interface Expansion {
+  prompt: string;
+  /** Wildcards referenced but not defined; left in the prompt as written. */
+  missingWildcards: string[];
+  /** Variables referenced but left empty. */
+  missingVariables: string[];
+}
+
+const WILDCARD_PATTERN = /__([\w-]+)__/g;
+const VARIABLE_PATTERN = /\$\{(\w+)\}/g;
+// Guards against wildcards that (indirectly) contain themselves
+const MAX_DEPTH = 5;
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+export const findWildcards = (template: string): string[] => {
+  return unique(Array.from(template.matchAll(WILDCARD_PATTERN), m => m[1]));
+};
+
+export const findVariables = (template: string): string[] => {
+  return unique(Array.from(template.matchAll(VARIABLE_PATTERN), m => m[1]));
+};
+
+export const isTemplate = (text: string): boolean => {
+  return findWildcards(text).length > 0 || findVariables(text).length > 0;
+};
+
+/** mulberry32: tiny seeded PRNG, good enough for picking list entries. */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+export const expandTemplate = (template: string, options: ExpansionOptions): Expansion => {
+  const random = createRandom(options.seed);
+  const missingWildcards = new Set<string>();
+  const missingVariables = new Set<string>();
+
+  const expand = (text: string, depth: number): string => {
+    const withVariables = text.replace(VARIABLE_PATTERN, (token, name: string) => {
+      const value = options.variables[name];
+      if (!value) {
+        missingVariables.add(name);
+        return token;
+      }
+      return value;
+    });
+
+    return withVariables.replace(WILDCARD_PATTERN, (token, name: string) => {
+      const terms = options.wildcards[name];
+      if (!terms || terms.length === 0 || depth >= MAX_DEPTH) {
+        missingWildcards.add(name);
+        return token;
+      }
+      const term = options.mode === 'sequential'
+        ? terms[options.index % terms.length]
+        : terms[Math.floor(random() * terms.length)];
+      return expand(term, depth + 1);
+    });
+  };
+
+  return {
+    prompt: expand(template, 0),
+    missingWildcards: Array.from(missingWildcards),
+    missingVariables: Array.from(missingVariables),
+  };
+};
+
+/** One term per line; blank lines and `#` comments are skipped. */
+export const parseWildcardText = (text: string): string[] => {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+};
+
+/** Wildcard names double as `__name__` tokens, so keep them token-safe. */
+export const toWildcardName = (raw: string): string => {
+  return raw.trim().replace(/\.txt$/i, '').replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '');
+};
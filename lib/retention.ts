@@ -0,0 +1,77 @@
+// --- History Retention ---
+// Which history records a cleanup removes. Limits keep the newest records;
+// everything past the first limit reached goes, oldest last to be kept.
+
+export interface RetentionPolicy {
+  maxCount: number | null;
+  maxBytes: number | null;
+  maxAgeDays: number | null;
+  /** Favorites are never removed, though they still count toward the limits. */
+  keepFavorites: boolean;
+  /** Clean up after every save rather than only when asked. */
+  auto: boolean;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  maxCount: null,
+  maxBytes: null,
+  maxAgeDays: null,
+  keepFavorites: true,
+  auto: false,
+};
+
+/** A history entry as retention sees it; a matrix grid includes its cells. */
+export interface RetentionItem {
+  id: string;
+  prompt: string;
+  timestamp: number;
+  /** Bytes stored for the entry. */
+  size: number;
+  favorite?: boolean;
+  /** Records removed along with this one. */
+  cellIds?: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const hasRetentionLimits = (policy: RetentionPolicy) => {
+  return policy.maxCount !== null || policy.maxBytes !== null || policy.maxAgeDays !== null;
+};
+
+/** Entries `policy` would remove, oldest first. */
+export const selectForRetention = (
+  items: RetentionItem[],
+  policy: RetentionPolicy,
+  now: number = Date.now()
+): RetentionItem[] => {
+  if (!hasRetentionLimits(policy)) return [];
+
+  const isKept = (item: RetentionItem) => policy.keepFavorites && !!item.favorite;
+  const cutoff = policy.maxAgeDays !== null ? now - policy.maxAgeDays * DAY_MS : -Infinity;
+  const newestFirst = [...items].sort((a, b) => b.timestamp - a.timestamp || b.id.localeCompare(a.id));
+
+  // Protected records take their share of the limits before anything else
+  let count = 0;
+  let bytes = 0;
+  for (const item of newestFirst) {
+    if (!isKept(item)) continue;
+    count++;
+    bytes += item.size;
+  }
+
+  const removed: RetentionItem[] = [];
+  let full = false;
+  for (const item of newestFirst) {
+    if (isKept(item)) continue;
+    full = full
+      || (policy.maxCount !== null && count + 1 > policy.maxCount)
+      || (policy.maxBytes !== null && bytes + item.size > policy.maxBytes);
+    if (full || item.timestamp < cutoff) {
+      removed.push(item);
+      continue;
+    }
+    count++;
+    bytes += item.size;
+  }
+  return removed.reverse();
+};
@@ -0,0 +1,100 @@
+import { createThumbnail, dataUrlToBlob } from './image';
+
+// --- Gallery Thumbnails ---
+// History tiles show a small JPEG stored with each record instead of the
+// full image. Rendering happens in a worker where OffscreenCanvas exists,
+// and on the main thread otherwise.
+
+/** Longest edge of a gallery thumbnail; enough for a sharp tile on 2x screens. */
+export const GALLERY_THUMBNAIL_SIZE = 384;
+
+export interface ThumbnailRequest {
+  id: number;
+  blob: Blob;
+  maxSize: number;
+}
+
+export type ThumbnailResponse = { id: number; blob: Blob } | { id: number; error: string };
+
+/** Draws `blob` with its longest edge at most `maxSize` pixels, as JPEG. */
+export const renderThumbnail = async (blob: Blob, maxSize: number): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = new OffscreenCanvas(
+      Math.max(1, Math.round(bitmap.width * scale)),
+      Math.max(1, Math.round(bitmap.height * scale))
+    );
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error("Canvas context failed");
+    }
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+  } finally {
+    bitmap.close();
+  }
+};
+
+type Pending = { resolve: (blob: Blob) => void; reject: (error: Error) => void };
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, Pending>();
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    workerFailed = true;
+    return null;
+  }
+  try {
+    worker = new Worker(new URL('./thumbnail.worker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    console.warn("Thumbnail worker unavailable", e);
+    workerFailed = true;
+    return null;
+  }
+  worker.onmessage = (e: MessageEvent<ThumbnailResponse>) => {
+    const request = pending.get(e.data.id);
+    if (!request) return;
+    pending.delete(e.data.id);
+    if ('blob' in e.data) request.resolve(e.data.blob);
+    else request.reject(new Error(e.data.error));
+  };
+  // A worker that fails to load takes its queue with it; later calls render inline
+  worker.onerror = (e) => {
+    console.warn("Thumbnail worker failed", e);
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    pending.forEach(request => request.reject(new Error("Thumbnail worker failed")));
+    pending.clear();
+  };
+  return worker;
+};
+
+/** Without OffscreenCanvas, through an image element and a DOM canvas. */
+const renderWithElement = async (blob: Blob, maxSize: number): Promise<Blob> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    return dataUrlToBlob(await createThumbnail(url, maxSize));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/** Gallery thumbnail for an image blob. */
+export const createThumbnailBlob = (blob: Blob, maxSize: number = GALLERY_THUMBNAIL_SIZE): Promise<Blob> => {
+  const target = getWorker();
+  if (!target) {
+    return typeof OffscreenCanvas === 'undefined' ? renderWithElement(blob, maxSize) : renderThumbnail(blob, maxSize);
+  }
+
+  const id = nextRequestId++;
+  return new Promise<Blob>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    target.postMessage({ id, blob, maxSize } as ThumbnailRequest);
+  });
+};
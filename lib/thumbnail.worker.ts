@@ -0,0 +1,14 @@
+import { ThumbnailRequest, ThumbnailResponse, renderThumbnail } from './thumbnail';
+
+// Runs `renderThumbnail` off the main thread for `createThumbnailBlob`
+
+self.onmessage = async (e: MessageEvent<ThumbnailRequest>) => {
+  const { id, blob, maxSize } = e.data;
+  let response: ThumbnailResponse;
+  try {
+    response = { id, blob: await renderThumbnail(blob, maxSize) };
+  } catch (error: any) {
+    response = { id, error: error?.message || String(error) };
+  }
+  self.postMessage(response);
+};
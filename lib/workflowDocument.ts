@@ -0,0 +1,194 @@
+import type { Node, Edge } from 'reactflow';
+
+/**
+ * Serializable workflow format. Bump WORKFLOW_SCHEMA_VERSION whenever the
+ * shape changes and add a step to `migrations` that upgrades the previous one.
+ */
+export const WORKFLOW_SCHEMA_VERSION = 1;
+
+export type WorkflowNodeType = 'promptNode' | 'imageNode' | 'generatorNode' | 'refineNode' | 'outputNode' | 'enhanceNode';
+
+export interface WorkflowNodeDoc {
+  id: string;
+  type: WorkflowNodeType;
+  position: { x: number; y: number };
+  /** User-editable parameters only; results and callbacks are never stored. */
+  params: Record<string, unknown>;
+}
+
+export interface WorkflowEdgeDoc {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+}
+
+export interface WorkflowDocument {
+  schemaVersion: number;
+  name: string;
+  nodes: WorkflowNodeDoc[];
+  edges: WorkflowEdgeDoc[];
+}
+
+export class WorkflowDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowDocumentError';
+  }
+}
+
+const NODE_PARAMS: Record<WorkflowNodeType, string[]> = {
+  promptNode: ['prompt', 'variables', 'expansionMode'],
+  imageNode: ['images'],
+  generatorNode: ['resolution', 'aspectRatio', 'ratioFit'],
+  refineNode: ['prompt'],
+  enhanceNode: ['mode'],
+  outputNode: [],
+};
+
+const isNodeType = (value: unknown): value is WorkflowNodeType => {
+  return typeof value === 'string' && value in NODE_PARAMS;
+};
+
+/** Default `data` for a freshly created node of the given type. */
+export const createNodeData = (type: WorkflowNodeType): Record<string, any> => {
+  switch (type) {
+    case 'promptNode':
+      return { prompt: '', variables: {}, expansionMode: 'random' };
+    case 'imageNode':
+      return { images: [] };
+    case 'generatorNode':
+      return { loading: false, resolution: '1K', aspectRatio: '1:1', error: null };
+    case 'refineNode':
+      return { prompt: '', loading: false, error: null, outputImage: null };
+    case 'outputNode':
+      return { image: null, error: null };
+    case 'enhanceNode':
+      return { mode: 'enhance', outputPrompt: null, loading: false, error: null };
+  }
+};
+
+const pickParams = (type: WorkflowNodeType, data: Record<string, any>, embedImages: boolean) => {
+  const params: Record<string, unknown> = {};
+  for (const key of NODE_PARAMS[type]) {
+    if (data[key] === undefined) continue;
+    params[key] = key === 'images' && !embedImages ? [] : data[key];
+  }
+  return params;
+};
+
+export const serializeWorkflow = (
+  name: string,
+  nodes: Node[],
+  edges: Edge[],
+  { embedImages = true }: { embedImages?: boolean } = {}
+): WorkflowDocument => ({
+  schemaVersion: WORKFLOW_SCHEMA_VERSION,
+  name,
+  nodes: nodes
+    .filter(n => isNodeType(n.type))
+    .map(n => ({
+      id: n.id,
+      type: n.type as WorkflowNodeType,
+      position: { x: n.position.x, y: n.position.y },
+      params: pickParams(n.type as WorkflowNodeType, n.data || {}, embedImages),
+    })),
+  edges: edges.map(e => ({
+    id: e.id,
+    source: e.source,
+    target: e.target,
+    sourceHandle: e.sourceHandle ?? null,
+    targetHandle: e.targetHandle ?? null,
+  })),
+});
+
+/** Builds React Flow nodes/edges (without callbacks) from a document. */
+export const documentToGraph = (doc: WorkflowDocument) => ({
+  nodes: doc.nodes.map(n => ({
+    id: n.id,
+    type: n.type,
+    position: { ...n.position },
+    data: { ...createNodeData(n.type), ...n.params },
+  })),
+  edges: doc.edges.map(e => ({ ...e })),
+});
+
+// --- Migration ---
+
+type Migration = (doc: any) => any;
+
+/**
+ * Keyed by the version being upgraded *from*. Version 0 is an unversioned
+ * React Flow `toObject()` dump, where parameters sit inside `data`.
+ */
+const migrations: Record<number, Migration> = {
+  0: (doc) => ({
+    schemaVersion: 1,
+    name: typeof doc.name === 'string' ? doc.name : 'Untitled',
+    nodes: (doc.nodes || []).map((n: any) => ({
+      id: n.id,
+      type: n.type,
+      position: n.position,
+      params: isNodeType(n.type) ? pickParams(n.type, n.data || {}, true) : {},
+    })),
+    edges: doc.edges || [],
+  }),
+};
+
+const fail = (message: string): never => {
+  throw new WorkflowDocumentError(message);
+};
+
+const validate = (doc: any): WorkflowDocument => {
+  if (typeof doc.name !== 'string') fail('Missing workflow name');
+  if (!Array.isArray(doc.nodes)) fail('"nodes" must be an array');
+  if (!Array.isArray(doc.edges)) fail('"edges" must be an array');
+
+  const ids = new Set<string>();
+  doc.nodes.forEach((n: any, i: number) => {
+    if (!n || typeof n.id !== 'string') fail(`Node ${i} has no id`);
+    if (ids.has(n.id)) fail(`Duplicate node id "${n.id}"`);
+    if (!isNodeType(n.type)) fail(`Node "${n.id}" has unknown type "${n.type}"`);
+    if (typeof n.position?.x !== 'number' || typeof n.position?.y !== 'number') {
+      fail(`Node "${n.id}" has an invalid position`);
+    }
+    if (!n.params || typeof n.params !== 'object') fail(`Node "${n.id}" has no params`);
+    if (n.params.images !== undefined) {
+      const valid = Array.isArray(n.params.images)
+        && n.params.images.every((img: unknown) => typeof img === 'string' && img.startsWith('data:image/'));
+      if (!valid) fail(`Node "${n.id}" has invalid embedded images`);
+    }
+    ids.add(n.id);
+  });
+
+  doc.edges.forEach((e: any, i: number) => {
+    if (!e || typeof e.id !== 'string') fail(`Edge ${i} has no id`);
+    if (!ids.has(e.source) || !ids.has(e.target)) {
+      fail(`Edge "${e.id}" references a missing node`);
+    }
+  });
+
+  return doc as WorkflowDocument;
+};
+
+/**
+ * Validates untrusted input (e.g. an imported file) and upgrades it to the
+ * current schema version. Throws WorkflowDocumentError when unusable.
+ */
+export const parseWorkflowDocument = (input: unknown): WorkflowDocument => {
+  if (!input || typeof input !== 'object') fail('Not a workflow document');
+
+  let doc: any = input;
+  let version = typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 0;
+  if (version > WORKFLOW_SCHEMA_VERSION) {
+    fail(`Schema version ${version} is newer than supported (${WORKFLOW_SCHEMA_VERSION})`);
+  }
+  while (version < WORKFLOW_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) fail(`No migration from schema version ${version}`);
+    doc = migrate(doc);
+    version = doc.schemaVersion;
+  }
+  return validate(doc);
+};
@@ -0,0 +1,81 @@
+export interface GraphEdge {
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+}
+
+export interface TopologicalResult {
+  /** Node ids in dependency order (only the acyclic part of the graph). */
+  order: string[];
+  /** Node ids that sit on a cycle. Empty when the graph is a DAG. */
+  cycle: string[];
+}
+
+const buildAdjacency = (nodeIds: string[], edges: GraphEdge[]) => {
+  const ids = new Set(nodeIds);
+  const outgoing = new Map<string, string[]>();
+  const inDegree = new Map<string, number>();
+  nodeIds.forEach(id => {
+    outgoing.set(id, []);
+    inDegree.set(id, 0);
+  });
+  for (const edge of edges) {
+    if (!ids.has(edge.source) || !ids.has(edge.target)) continue;
+    outgoing.get(edge.source)!.push(edge.target);
+    inDegree.set(edge.target, inDegree.get(edge.target)! + 1);
+  }
+  return { outgoing, inDegree };
+};
+
+/**
+ * Kahn's algorithm restricted to `nodeIds`. Nodes left over are either on a
+ * cycle or downstream of one; the latter are pruned so only the offending
+ * nodes are reported.
+ */
+export const topologicalSort = (nodeIds: string[], edges: GraphEdge[]): TopologicalResult => {
+  const { outgoing, inDegree } = buildAdjacency(nodeIds, edges);
+  const queue = nodeIds.filter(id => inDegree.get(id) === 0);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const next of outgoing.get(id)!) {
+      const degree = inDegree.get(next)! - 1;
+      inDegree.set(next, degree);
+      if (degree === 0) queue.push(next);
+    }
+  }
+
+  const remaining = new Set(nodeIds.filter(id => !order.includes(id)));
+  let pruned = true;
+  while (pruned) {
+    pruned = false;
+    for (const id of remaining) {
+      if (!outgoing.get(id)!.some(next => remaining.has(next))) {
+        remaining.delete(id);
+        pruned = true;
+      }
+    }
+  }
+
+  return { order, cycle: Array.from(remaining) };
+};
+
+/** All nodes reachable from `nodeId` by following edges forward. */
+export const getDescendants = (nodeId: string, edges: GraphEdge[]): Set<string> => {
+  const result = new Set<string>();
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    for (const edge of edges) {
+      if (edge.source === current && !result.has(edge.target)) {
+        result.add(edge.target);
+        stack.push(edge.target);
+      }
+    }
+  }
+  result.delete(nodeId);
+  return result;
+};
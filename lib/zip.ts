@@ -0,0 +1,183 @@
+import { crc32 } from './crc32';
+
+// --- ZIP Archives ---
+// Just enough of the format for backups: writing stores entries
+// uncompressed (images are compressed already), reading also accepts
+// deflated entries so archives repacked by other tools still open.
+// No ZIP64, so archives are limited to 4 GB and 65535 entries.
+
+export interface ZipInput {
+  name: string;
+  data: Uint8Array;
+  lastModified?: number;
+}
+
+export interface ZipEntry {
+  name: string;
+  /** Uncompressed size in bytes. */
+  size: number;
+  read: () => Promise<Uint8Array>;
+}
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const STORED = 0;
+const DEFLATED = 8;
+/** Bit 11: names are UTF-8. */
+const UTF8_FLAG = 0x0800;
+const MAX_UINT32 = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** MS-DOS time and date fields. */
+const dosDateTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+/** Builds an archive from `entries`; the parts are handed to a Blob without being joined in memory first. */
+export const createZip = (entries: ZipInput[]): Blob => {
+  // The entry count is a 16-bit field; more would silently wrap around
+  if (entries.length > MAX_ENTRIES) throw new ZipError(`Too many files for a ZIP archive (${entries.length}, max ${MAX_ENTRIES})`);
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const { time, date } = dosDateTime(entry.lastModified ?? Date.now());
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+    if (offset + 30 + name.length + size > MAX_UINT32) throw new ZipError("Archive too large");
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, UTF8_FLAG, true);
+    lv.setUint16(8, STORED, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, size, true);
+    lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const cv = new DataView(header.buffer);
+    cv.setUint32(0, CENTRAL_HEADER, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, UTF8_FLAG, true);
+    cv.setUint16(10, STORED, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, size, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    parts.push(local, entry.data);
+    central.push(header);
+    offset += local.length + size;
+  }
+
+  const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Lists the entries of an archive. Only the central directory is read up
+ * front; each entry's data is sliced from `blob` when it is read.
+ */
+export const readZip = async (blob: Blob): Promise<ZipEntry[]> => {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  const tailStart = Math.max(0, blob.size - 22 - 0xffff);
+  const tail = new Uint8Array(await blob.slice(tailStart).arrayBuffer());
+  const tv = new DataView(tail.buffer);
+  let endOffset = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tv.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new ZipError("Not a ZIP archive");
+
+  const count = tv.getUint16(endOffset + 10, true);
+  const centralSize = tv.getUint32(endOffset + 12, true);
+  const centralOffset = tv.getUint32(endOffset + 16, true);
+  if (centralOffset === MAX_UINT32 || centralOffset + centralSize > blob.size) {
+    throw new ZipError("Unsupported ZIP archive");
+  }
+
+  const directory = new Uint8Array(await blob.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+  const dv = new DataView(directory.buffer);
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (pos + 46 > directory.length || dv.getUint32(pos, true) !== CENTRAL_HEADER) {
+      throw new ZipError("Corrupt ZIP directory");
+    }
+    const method = dv.getUint16(pos + 10, true);
+    const crc = dv.getUint32(pos + 16, true);
+    const compressedSize = dv.getUint32(pos + 20, true);
+    const size = dv.getUint32(pos + 24, true);
+    const nameLength = dv.getUint16(pos + 28, true);
+    const extraLength = dv.getUint16(pos + 30, true);
+    const commentLength = dv.getUint16(pos + 32, true);
+    const localOffset = dv.getUint32(pos + 42, true);
+    const name = decoder.decode(directory.subarray(pos + 46, pos + 46 + nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    // Folders carry no data
+    if (name.endsWith('/')) continue;
+
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        if (method !== STORED && method !== DEFLATED) throw new ZipError(`Unsupported compression in "${name}"`);
+        const header = new DataView(await blob.slice(localOffset, localOffset + 30).arrayBuffer());
+        if (header.getUint32(0, true) !== LOCAL_HEADER) throw new ZipError(`Corrupt entry "${name}"`);
+        const dataStart = localOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+        const raw = new Uint8Array(await blob.slice(dataStart, dataStart + compressedSize).arrayBuffer());
+        const data = method === DEFLATED ? await inflateRaw(raw) : raw;
+        if (crc32(data) !== crc) throw new ZipError(`Checksum mismatch in "${name}"`);
+        return data;
+      },
+    });
+  }
+  return entries;
+};
@@ -0,0 +1,208 @@
+import { Collection } from '../types';
+import { extensionForMime, hashBlob } from '../lib/image';
+import { ZipInput, createZip, readZip } from '../lib/zip';
+import {
+  BACKUP_VERSION,
+  BackupError,
+  BackupManifest,
+  BackupRecord,
+  MANIFEST_FILE,
+  isValidBackupRecord,
+  isValidBackupUpload,
+  isValidCollection,
+  parseBackupManifest,
+} from '../lib/backupManifest';
+import { initDB, promisifyRequest, transactionDone, STORES } from './db';
+import { HistoryRecord, createHistoryId } from './historyStore';
+import { UploadRecord } from './uploadStore';
+import { broadcastHistoryChange } from './historySync';
+
+// Records are written in small transactions so a large import doesn't hold
+// every image in one long-running write
+const IMPORT_BATCH_SIZE = 25;
+
+export type BackupProgress = (done: number, total: number) => void;
+
+export type BackupSkipReason = 'invalid' | 'missingFile' | 'corrupt';
+
+export interface BackupImportReport {
+  imported: number;
+  /** Records whose image is already stored, under any id. */
+  duplicates: number;
+  /** Ids already taken by a different image; these came in under a new id. */
+  conflicts: { id: string; newId: string; prompt: string }[];
+  skipped: { id: string; reason: BackupSkipReason }[];
+  uploads: number;
+  collections: number;
+}
+
+const readAll = async () => {
+  const db = await initDB();
+  const tx = db.transaction([STORES.images, STORES.uploads, STORES.collections], 'readonly');
+  const [records, uploads, collections] = await Promise.all([
+    promisifyRequest(tx.objectStore(STORES.images).getAll() as IDBRequest<HistoryRecord[]>),
+    promisifyRequest(tx.objectStore(STORES.uploads).getAll() as IDBRequest<UploadRecord[]>),
+    promisifyRequest(tx.objectStore(STORES.collections).getAll() as IDBRequest<Collection[]>),
+  ]);
+  return { records, uploads, collections };
+};
+
+const toBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+/**
+ * Packs every history record, stored reference image and board into a ZIP:
+ * images under `images/` and `uploads/`, metadata in `manifest.json`.
+ * The archive is assembled in memory, so very large histories need room.
+ */
+export const exportBackup = async (onProgress?: BackupProgress): Promise<Blob> => {
+  const { records, uploads, collections } = await readAll();
+  const total = records.length + uploads.length;
+  const files: ZipInput[] = [];
+  const manifest: BackupManifest = {
+    schemaVersion: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    records: [],
+    uploads: [],
+    collections,
+  };
+
+  // Thumbnails are left out; they are rendered again when the records are listed
+  for (const { blob, thumbnail, ...meta } of records) {
+    const file = `images/${meta.id}.${extensionForMime(blob.type)}`;
+    files.push({ name: file, data: await toBytes(blob), lastModified: meta.timestamp });
+    manifest.records.push({ ...meta, file, mimeType: blob.type, hash: await hashBlob(blob) });
+    onProgress?.(files.length, total);
+  }
+  for (const upload of uploads) {
+    const file = `uploads/${upload.hash}.${extensionForMime(upload.blob.type)}`;
+    files.push({ name: file, data: await toBytes(upload.blob), lastModified: upload.createdAt });
+    manifest.uploads.push({ hash: upload.hash, file, mimeType: upload.blob.type, createdAt: upload.createdAt });
+    onProgress?.(files.length, total);
+  }
+
+  const manifestFile = { name: MANIFEST_FILE, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) };
+  return createZip([manifestFile, ...files]);
+};
+
+const writeRecords = async (records: HistoryRecord[]) => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.images, 'readwrite');
+  const store = tx.objectStore(STORES.images);
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+  broadcastHistoryChange({ type: 'added', ids: records.map(record => record.id) });
+};
+
+/**
+ * Restores an archive made by `exportBackup`. Images already stored (same
+ * content hash) are skipped; an id taken by a different image gets a fresh
+ * id, and links between the imported records follow it. Existing records
+ * are never overwritten.
+ */
+export const importBackup = async (archive: Blob, onProgress?: BackupProgress): Promise<BackupImportReport> => {
+  const entries = new Map((await readZip(archive)).map(entry => [entry.name, entry]));
+  const manifestEntry = entries.get(MANIFEST_FILE);
+  if (!manifestEntry) throw new BackupError(`Archive has no ${MANIFEST_FILE}`);
+
+  let manifest: BackupManifest;
+  try {
+    manifest = parseBackupManifest(JSON.parse(new TextDecoder().decode(await manifestEntry.read())));
+  } catch (e) {
+    if (e instanceof BackupError) throw e;
+    throw new BackupError(`Unreadable ${MANIFEST_FILE}`);
+  }
+
+  const existing = await readAll();
+  const idByHash = new Map<string, string>();
+  for (const record of existing.records) {
+    idByHash.set(await hashBlob(record.blob), record.id);
+  }
+  const takenIds = new Set(existing.records.map(record => record.id));
+
+  const report: BackupImportReport = { imported: 0, duplicates: 0, conflicts: [], skipped: [], uploads: 0, collections: 0 };
+
+  // Decide every record's id first, so parents and grid cells can be relinked
+  const idMap = new Map<string, string>();
+  const toImport: BackupRecord[] = [];
+  for (const record of manifest.records) {
+    if (!isValidBackupRecord(record)) {
+      report.skipped.push({ id: String((record as any)?.id ?? '?'), reason: 'invalid' });
+      continue;
+    }
+    const duplicateOf = idByHash.get(record.hash);
+    if (duplicateOf) {
+      idMap.set(record.id, duplicateOf);
+      report.duplicates++;
+      continue;
+    }
+    let id = record.id;
+    if (takenIds.has(id)) {
+      id = createHistoryId();
+      report.conflicts.push({ id: record.id, newId: id, prompt: record.prompt });
+    }
+    idMap.set(record.id, id);
+    idByHash.set(record.hash, id);
+    takenIds.add(id);
+    toImport.push(record);
+  }
+
+  const relink = (id: string) => idMap.get(id) || id;
+  const total = toImport.length + manifest.uploads.length;
+  let done = 0;
+  let batch: HistoryRecord[] = [];
+
+  for (const { file, mimeType, hash, ...meta } of toImport) {
+    const entry = entries.get(file);
+    const data = entry && await entry.read().catch(() => null);
+    const blob = data && new Blob([data], { type: mimeType });
+    if (!blob) {
+      report.skipped.push({ id: meta.id, reason: entry ? 'corrupt' : 'missingFile' });
+    } else if (await hashBlob(blob) !== hash) {
+      report.skipped.push({ id: meta.id, reason: 'corrupt' });
+    } else {
+      batch.push({
+        ...meta,
+        id: relink(meta.id),
+        parentId: meta.parentId ? relink(meta.parentId) : meta.parentId,
+        gridId: meta.gridId && relink(meta.gridId),
+        cellIds: meta.cellIds?.map(relink),
+        blob,
+      });
+      report.imported++;
+    }
+    if (batch.length >= IMPORT_BATCH_SIZE) {
+      await writeRecords(batch);
+      batch = [];
+    }
+    onProgress?.(++done, total);
+  }
+  if (batch.length > 0) await writeRecords(batch);
+
+  const knownUploads = new Set(existing.uploads.map(upload => upload.hash));
+  for (const upload of manifest.uploads) {
+    onProgress?.(++done, total);
+    if (!isValidBackupUpload(upload) || knownUploads.has(upload.hash)) continue;
+    const data = await entries.get(upload.file)?.read().catch(() => null);
+    if (!data) continue;
+    const db = await initDB();
+    const tx = db.transaction(STORES.uploads, 'readwrite');
+    const record: UploadRecord = { hash: upload.hash, blob: new Blob([data], { type: upload.mimeType }), createdAt: upload.createdAt || Date.now() };
+    tx.objectStore(STORES.uploads).put(record);
+    await transactionDone(tx);
+    report.uploads++;
+  }
+
+  // Boards merge by id; an existing board keeps its name
+  const knownCollections = new Set(existing.collections.map(collection => collection.id));
+  const newCollections = manifest.collections.filter(c => isValidCollection(c) && !knownCollections.has(c.id));
+  if (newCollections.length > 0) {
+    const db = await initDB();
+    const tx = db.transaction(STORES.collections, 'readwrite');
+    newCollections.forEach(collection => tx.objectStore(STORES.collections).put(collection));
+    await transactionDone(tx);
+    broadcastHistoryChange({ type: 'collections' });
+    report.collections = newCollections.length;
+  }
+
+  return report;
+};
@@ -0,0 +1,44 @@
+import { Collection } from '../types';
+import { initDB, promisifyRequest, transactionDone, STORES } from './db';
+import { HistoryRecord } from './historyStore';
+import { broadcastHistoryChange } from './historySync';
+
+export const createCollectionId = () => `col-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Oldest first, so boards keep their place as new ones are added. */
+export const listCollections = async (): Promise<Collection[]> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.collections, 'readonly');
+  const all = await promisifyRequest(tx.objectStore(STORES.collections).getAll() as IDBRequest<Collection[]>);
+  return all.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const putCollection = async (collection: Collection): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.collections, 'readwrite');
+  tx.objectStore(STORES.collections).put(collection);
+  await transactionDone(tx);
+  broadcastHistoryChange({ type: 'collections' });
+};
+
+/** Removes the board; its records stay in history, just no longer on it. */
+export const deleteCollection = async (id: string): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction([STORES.collections, STORES.images], 'readwrite');
+  tx.objectStore(STORES.collections).delete(id);
+  const images = tx.objectStore(STORES.images);
+  const members = await promisifyRequest(images.index('collectionIds').getAll(id) as IDBRequest<HistoryRecord[]>);
+  const updated = members.map(record => ({ ...record, collectionIds: record.collectionIds?.filter(c => c !== id) }));
+  updated.forEach(record => images.put(record));
+  await transactionDone(tx);
+  broadcastHistoryChange({ type: 'collections' });
+  broadcastHistoryChange({
+    type: 'updated',
+    records: updated.map(record => ({
+      id: record.id,
+      tags: record.tags,
+      favorite: record.favorite,
+      collectionIds: record.collectionIds,
+    })),
+  });
+};
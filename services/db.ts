@@ -0,0 +1,132 @@
+import { dataUrlToBlob } from '../lib/image';
+
+// --- IndexedDB Helpers ---
+// Single place for the database schema so every store is created by the
+// same upgrade path, whichever feature happens to open the DB first.
+export const IDB_NAME = 'NanoBananaDB';
+export const IDB_VERSION = 12;
+
+export const STORES = {
+  images: 'images',
+  workflows: 'workflows',
+  uploads: 'uploads',
+  jobs: 'jobs',
+  wildcards: 'wildcards',
+  prompts: 'prompts',
+  editSessions: 'editSessions',
+  collections: 'collections',
+} as const;
+
+// Up to version 4 the whole history lived as one array under the 'recent' key
+const LEGACY_HISTORY_STORE = 'history';
+
+export const createRecordId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const migrateLegacyHistory = (tx: IDBTransaction) => {
+  const legacy = tx.objectStore(LEGACY_HISTORY_STORE);
+  const images = tx.objectStore(STORES.images);
+  const req = legacy.get('recent');
+
+  req.onsuccess = () => {
+    const items: unknown[] = Array.isArray(req.result) ? req.result : [];
+    const now = Date.now();
+    items.forEach((item: any, index) => {
+      // Oldest layout stored bare data URLs
+      const entry = typeof item === 'string'
+        ? { url: item, prompt: 'Legacy Image', timestamp: now - index }
+        : item;
+      try {
+        images.put({
+          id: createRecordId(),
+          prompt: entry.prompt || '',
+          timestamp: entry.timestamp || now - index,
+          blob: dataUrlToBlob(entry.url),
+        });
+      } catch (e) {
+        console.warn("Skipping unreadable legacy history item", e);
+      }
+    });
+    tx.db.deleteObjectStore(LEGACY_HISTORY_STORE);
+  };
+};
+
+export const initDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = (e) => {
+      const db = request.result;
+      const tx = request.transaction!;
+
+      if (e.oldVersion < 4) {
+        const workflows = db.createObjectStore(STORES.workflows, { keyPath: 'id' });
+        workflows.createIndex('updatedAt', 'updatedAt');
+      }
+
+      if (e.oldVersion < 5) {
+        const images = db.createObjectStore(STORES.images, { keyPath: 'id' });
+        images.createIndex('timestamp', 'timestamp');
+        // Tie-safe ordering for pagination when timestamps collide
+        images.createIndex('timestamp_id', ['timestamp', 'id']);
+        if (db.objectStoreNames.contains(LEGACY_HISTORY_STORE)) {
+          migrateLegacyHistory(tx);
+        }
+      }
+
+      if (e.oldVersion < 6) {
+        // Reference images, content-addressed so repeats are stored once
+        db.createObjectStore(STORES.uploads, { keyPath: 'hash' });
+      }
+
+      if (e.oldVersion < 7) {
+        // Edit lineage lookups; root records (parentId null) are not indexed
+        tx.objectStore(STORES.images).createIndex('parentId', 'parentId');
+      }
+
+      if (e.oldVersion < 8) {
+        // Generation jobs still waiting to run, resumed after a reload
+        db.createObjectStore(STORES.jobs, { keyPath: 'id' });
+      }
+
+      if (e.oldVersion < 9) {
+        // Term lists for `__name__` prompt wildcards, keyed by name
+        db.createObjectStore(STORES.wildcards, { keyPath: 'name' });
+      }
+
+      if (e.oldVersion < 10) {
+        const prompts = db.createObjectStore(STORES.prompts, { keyPath: 'id' });
+        prompts.createIndex('updatedAt', 'updatedAt');
+      }
+
+      if (e.oldVersion < 11) {
+        // Multi-turn edit conversations, looked up by the image they started from
+        const sessions = db.createObjectStore(STORES.editSessions, { keyPath: 'id' });
+        sessions.createIndex('baseId', 'baseId');
+      }
+
+      if (e.oldVersion < 12) {
+        db.createObjectStore(STORES.collections, { keyPath: 'id' });
+        // Board membership, so deleting a board finds its records
+        tx.objectStore(STORES.images).createIndex('collectionIds', 'collectionIds', { multiEntry: true });
+      }
+    };
+  });
+};
+
+/** Wraps a single request in a promise. */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/** Resolves once a readwrite transaction has been committed. */
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,85 @@
+import { ChatEditMessage, EditSession, EditSessionTurn } from '../types';
+import { urlToDataUrl } from '../lib/image';
+import { initDB, promisifyRequest, transactionDone, STORES } from './db';
+import { getHistoryRecord, releaseImageUrl } from './historyStore';
+
+// Images are the bulk of a request; older versions add little context
+const MAX_HISTORY_IMAGES = 2;
+
+export const createSessionId = () => `es-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getEditSession = async (id: string): Promise<EditSession | undefined> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.editSessions, 'readonly');
+  return promisifyRequest(tx.objectStore(STORES.editSessions).get(id) as IDBRequest<EditSession | undefined>);
+};
+
+export const putEditSession = async (session: EditSession): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.editSessions, 'readwrite');
+  tx.objectStore(STORES.editSessions).put(session);
+  return transactionDone(tx);
+};
+
+/** Sessions started from `baseId`, most recently updated first. */
+export const listEditSessions = async (baseId: string): Promise<EditSession[]> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.editSessions, 'readonly');
+  const index = tx.objectStore(STORES.editSessions).index('baseId');
+  const sessions = await promisifyRequest(index.getAll(baseId) as IDBRequest<EditSession[]>);
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const loadImage = async (id: string): Promise<string | undefined> => {
+  const record = await getHistoryRecord(id);
+  if (!record) return undefined;
+  try {
+    return await urlToDataUrl(record.url);
+  } finally {
+    releaseImageUrl(record);
+  }
+};
+
+/** The image a session continues from: its last result, or the base before the first turn. */
+export const latestSessionImageId = (session: EditSession): string => {
+  const last = [...session.turns].reverse().find(turn => turn.role === 'model' && turn.imageId);
+  return last?.imageId || session.baseId;
+};
+
+/**
+ * Turns a stored session into provider messages ending with `instruction`.
+ * Every instruction and reply text is kept, but only the base image and the
+ * latest results are attached. `currentImage` is the data URL of
+ * `latestSessionImageId(session)`, which the caller already has loaded.
+ */
+export const buildChatMessages = async (
+  session: EditSession,
+  currentImage: string,
+  instruction: string
+): Promise<ChatEditMessage[]> => {
+  const modelTurns = session.turns.filter(turn => turn.role === 'model' && turn.imageId);
+  const withImages = new Set(modelTurns.slice(-MAX_HISTORY_IMAGES));
+  const lastModelTurn = modelTurns[modelTurns.length - 1];
+  const messages: ChatEditMessage[] = [];
+
+  for (const turn of session.turns) {
+    let image: string | undefined;
+    if (turn === lastModelTurn) {
+      image = currentImage;
+    } else if (withImages.has(turn) && turn.imageId) {
+      image = await loadImage(turn.imageId);
+    }
+    // Replies whose record was deleted and carried no text are dropped
+    if (image || turn.text) messages.push({ role: turn.role, text: turn.text, image });
+  }
+
+  if (messages.length === 0) {
+    messages.push({ role: 'user', text: instruction, image: currentImage });
+    return messages;
+  }
+  // The base image goes with the first instruction
+  const baseImage = await loadImage(session.baseId);
+  if (baseImage) messages[0] = { ...messages[0], image: baseImage };
+  messages.push({ role: 'user', text: instruction });
+  return messages;
+};
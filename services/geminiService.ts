@@ -1,5 +1,23 @@
 
-import { GoogleGenAI } from "@google/genai";
+import { ApiError, GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { Resolution, AspectRatio, ImageResult, ChatEditMessage, PromptRewriteMode, PromptRewriteResult, ReferenceRole } from "../types";
+import { ImageProvider } from "./imageProvider";
+import { parseDataUrl } from "../lib/image";
+import { MODEL_CAPABILITIES } from "../lib/modelCapabilities";
+import {
+  ImageGenerationError,
+  InvalidArgumentError,
+  NetworkError,
+  NoImageError,
+  QuotaError,
+  SafetyBlockError,
+  TimeoutError,
+} from "./imageErrors";
+
+const GENERATE_MODEL = 'gemini-3-pro-image-preview';
+const GENERATE_CAPABILITIES = MODEL_CAPABILITIES[GENERATE_MODEL];
+const EDIT_MODEL = 'gemini-2.5-flash-image';
+const TEXT_MODEL = 'gemini-2.5-flash';
 
 const getClient = () => {
   const apiKey = process.env.API_KEY;
@@ -9,19 +27,112 @@ const getClient = () => {
   return new GoogleGenAI({ apiKey });
 };
 
-export type Resolution = '1K' | '2K' | '4K';
-export type AspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '4:5' | '5:4' | '9:16' | '16:9' | '21:9';
+// Finish reasons that mean the output was withheld by a filter
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+/**
+ * Picks the first inline image out of a response, keeping any text the
+ * model wrote next to it. Blocked and text-only responses are surfaced as
+ * typed errors.
+ */
+const extractImageResult = (response: GenerateContentResponse, model: string): ImageResult => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(blockReason, response.promptFeedback?.blockReasonMessage);
+  }
+
+  const candidate = response.candidates?.[0];
+  const parts = candidate?.content?.parts || [];
+  const imagePart = parts.find(p => p.inlineData?.data);
+  const text = parts.filter(p => p.text).map(p => p.text).join('\n').trim();
+
+  if (imagePart?.inlineData) {
+    const mimeType = imagePart.inlineData.mimeType || 'image/png';
+    return {
+      url: `data:${mimeType};base64,${imagePart.inlineData.data}`,
+      model,
+      text: text || undefined,
+    };
+  }
+  if (candidate?.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+    throw new SafetyBlockError(candidate.finishReason, text || undefined);
+  }
+  throw new NoImageError(text || undefined);
+};
+
+interface ApiErrorBody {
+  code?: number;
+  message?: string;
+  status?: string;
+  details?: { retryDelay?: string }[];
+}
+
+/** The SDK embeds the JSON error body in the message text. */
+const parseApiErrorBody = (message: string): ApiErrorBody => {
+  const jsonMatch = message.match(/(\{[\s\S]*\})/);
+  if (!jsonMatch) return {};
+  try {
+    const parsed = JSON.parse(jsonMatch[1]);
+    return parsed.error || parsed;
+  } catch (e) {
+    return {};
+  }
+};
+
+/** RetryInfo details carry the wait as a duration string like "21s". */
+const parseRetryDelay = (details: ApiErrorBody['details']): number | undefined => {
+  const delay = details?.find(d => typeof d?.retryDelay === 'string')?.retryDelay;
+  const seconds = delay ? parseFloat(delay) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+/** Maps SDK and transport failures onto the shared error classes. */
+const toImageError = (error: unknown): Error => {
+  if (error instanceof ImageGenerationError) return error;
+  // Cancellation is reported as-is so callers can tell it apart
+  if (error instanceof Error && error.name === 'AbortError') return error;
+
+  const rawMessage = (error instanceof Error && error.message) || "Unknown error occurred";
+  const body = parseApiErrorBody(rawMessage);
+  const message = body.message || rawMessage;
+  const status = error instanceof ApiError ? error.status : body.code;
+
+  if (status === 429 || body.status === 'RESOURCE_EXHAUSTED') {
+    return new QuotaError(message, parseRetryDelay(body.details));
+  }
+  if (status === 504 || body.status === 'DEADLINE_EXCEEDED') {
+    return new TimeoutError(message);
+  }
+  if (status === 400 || body.status === 'INVALID_ARGUMENT' || body.status === 'FAILED_PRECONDITION') {
+    return new InvalidArgumentError(message);
+  }
+  // fetch() rejects with a TypeError when the connection itself fails
+  if ((status !== undefined && status >= 500) || error instanceof TypeError) {
+    return new NetworkError(message);
+  }
+  return new ImageGenerationError('unknown', message);
+};
+
+// Sent right before a labeled reference so the model knows what to take from it
+const REFERENCE_ROLE_HINTS: Record<ReferenceRole, string> = {
+  subject: "Use the next image as the subject: keep its identity and key features.",
+  style: "Use the next image only as a style reference: match its palette, medium and mood, not its content.",
+  composition: "Use the next image only as a composition reference: follow its layout and framing, not its content.",
+};
 
 /**
  * Generates an image using the Gemini 3 Pro Image Preview model.
  * Supports text-to-image and image-to-image (multimodal).
  */
-export const generateImage = async (
+const generateImage = async (
   prompt: string, 
   referenceImages: string[] = [],
   resolution: Resolution = '1K',
-  aspectRatio: AspectRatio = '1:1'
-): Promise<string> => {
+  aspectRatio: AspectRatio = '1:1',
+  signal?: AbortSignal,
+  seed?: number,
+  referenceRoles: (ReferenceRole | undefined)[] = []
+): Promise<ImageResult> => {
   try {
     const ai = getClient();
     
@@ -31,12 +142,11 @@ export const generateImage = async (
     // Add text prompt
     parts.push({ text: prompt });
 
-    // Add reference images
-    // Update: Support up to 2 images.
-    // Loop through provided images, max 2
-    const imagesToProcess = referenceImages.slice(0, 2);
-    
-    for (const imgData of imagesToProcess) {
+    // Add reference images; the facade already checked the count against the model's limit
+    for (const [index, imgData] of referenceImages.entries()) {
+      const role = referenceRoles[index];
+      if (role) parts.push({ text: REFERENCE_ROLE_HINTS[role] });
+
       const matches = imgData.match(/^data:(.+);base64,(.+)$/);
       if (matches && matches.length === 3) {
         parts.push({
@@ -48,78 +158,45 @@ export const generateImage = async (
       }
     }
 
-    // Sanitize Aspect Ratio - Gemini 3 Pro Image Preview only supports specific ratios
-    const validRatios = ["1:1", "3:4", "4:3", "9:16", "16:9", "21:9"];
-    const finalAspectRatio = validRatios.includes(aspectRatio) ? aspectRatio : "1:1";
-
     const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
+      model: GENERATE_MODEL,
       contents: parts,
       config: {
         imageConfig: {
           imageSize: resolution,
-          aspectRatio: finalAspectRatio,
+          aspectRatio,
         },
+        abortSignal: signal,
+        seed,
       },
     });
 
-    let base64Image = null;
-    if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          const mimeType = part.inlineData.mimeType || 'image/png';
-          base64Image = `data:${mimeType};base64,${part.inlineData.data}`;
-          break;
-        }
-      }
-    }
-    
-    if (base64Image) {
-      return base64Image;
-    } else {
-      const textPart = response.candidates?.[0]?.content?.parts?.find(p => p.text);
-      if (textPart) {
-        throw new Error(textPart.text || "Generation failed");
-      }
-      throw new Error("No image data found in response");
-    }
-  } catch (error: any) {
+    return extractImageResult(response, GENERATE_MODEL);
+  } catch (error) {
     console.error("Gemini Image Generation Error:", error);
-    
-    let errorMessage = error.message || "Unknown error occurred";
-
-    if (typeof errorMessage === 'string' && (errorMessage.includes('{') || errorMessage.includes('['))) {
-      try {
-        const jsonMatch = errorMessage.match(/(\{[\s\S]*\})/);
-        const jsonStr = jsonMatch ? jsonMatch[1] : errorMessage;
-        const parsed = JSON.parse(jsonStr);
-        if (parsed.error?.message) {
-          errorMessage = parsed.error.message;
-        } else if (parsed.message) {
-          errorMessage = parsed.message;
-        }
-      } catch (e) {
-        // Ignore parse error
-      }
-    }
-    
-    throw new Error(errorMessage);
+    throw toImageError(error);
   }
 };
 
+const MASK_INSTRUCTION =
+  "The second image is a mask for the first one. Only change the area that is white in the mask; " +
+  "keep everything in the black area exactly as it is.";
+
 /**
  * Edits an existing image using Gemini 2.5 Flash Image model.
  */
-export const editImage = async (
+const editImage = async (
   prompt: string,
-  inputImageBase64: string
-): Promise<string> => {
+  inputImageBase64: string,
+  maskBase64?: string,
+  signal?: AbortSignal
+): Promise<ImageResult> => {
   try {
     const ai = getClient();
     const parts: any[] = [];
 
     // Add instruction/prompt
-    parts.push({ text: prompt });
+    parts.push({ text: maskBase64 ? `${prompt}\n\n${MASK_INSTRUCTION}` : prompt });
 
     // Add input image
     const matches = inputImageBase64.match(/^data:(.+);base64,(.+)$/);
@@ -131,50 +208,122 @@ export const editImage = async (
         }
       });
     } else {
-      throw new Error("Invalid image data format");
+      throw new InvalidArgumentError("Invalid image data format");
+    }
+
+    if (maskBase64) {
+      const mask = parseDataUrl(maskBase64);
+      if (!mask) {
+        throw new InvalidArgumentError("Invalid image data format");
+      }
+      parts.push({ inlineData: mask });
     }
 
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image', // Using Flash for editing as per request/example
+      model: EDIT_MODEL, // Using Flash for editing as per request/example
       contents: parts,
       // Flash image model doesn't support imageConfig like aspect ratio/size in the same way as Pro-Vision or it infers from input
+      config: { abortSignal: signal },
     });
 
-    let base64Image = null;
-    if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          const mimeType = part.inlineData.mimeType || 'image/png';
-          base64Image = `data:${mimeType};base64,${part.inlineData.data}`;
-          break;
+    return extractImageResult(response, EDIT_MODEL);
+  } catch (error) {
+    console.error("Gemini Image Edit Error:", error);
+    throw toImageError(error);
+  }
+};
+
+/**
+ * Continues a multi-turn edit. Earlier instructions, images and model
+ * replies are sent as conversation history so follow-ups like "now make it
+ * warmer" refer to the previous result.
+ */
+const chatEditImage = async (
+  messages: ChatEditMessage[],
+  signal?: AbortSignal
+): Promise<ImageResult> => {
+  try {
+    const ai = getClient();
+    const contents = messages.map(message => {
+      const parts: any[] = [];
+      if (message.image) {
+        const image = parseDataUrl(message.image);
+        if (!image) {
+          throw new InvalidArgumentError("Invalid image data format");
         }
+        parts.push({ inlineData: image });
       }
-    }
+      if (message.text) parts.push({ text: message.text });
+      return { role: message.role, parts };
+    });
 
-    if (base64Image) {
-      return base64Image;
-    } else {
-      const textPart = response.candidates?.[0]?.content?.parts?.find(p => p.text);
-      if (textPart) {
-        throw new Error(textPart.text || "Edit failed");
-      }
-      throw new Error("No image data found in response");
+    const response = await ai.models.generateContent({
+      model: EDIT_MODEL,
+      contents,
+      config: { abortSignal: signal },
+    });
+
+    return extractImageResult(response, EDIT_MODEL);
+  } catch (error) {
+    console.error("Gemini Chat Edit Error:", error);
+    throw toImageError(error);
+  }
+};
+
+const REWRITE_INSTRUCTIONS: Record<PromptRewriteMode, string> = {
+  enhance:
+    "You improve prompts for an image generation model. Rewrite the user's prompt into one detailed prompt: " +
+    "keep its subject and intent, and add concrete detail about composition, lighting, style, materials and mood. " +
+    "Answer in the same language as the prompt. Reply with the rewritten prompt only, no quotes or commentary.",
+  toEnglish:
+    "Translate the user's image generation prompt into natural English. Keep its meaning, tone and any technical terms. " +
+    "Reply with the translation only, no quotes or commentary.",
+  toChinese:
+    "Translate the user's image generation prompt into natural Simplified Chinese. Keep its meaning, tone and any technical terms. " +
+    "Reply with the translation only, no quotes or commentary.",
+};
+
+/**
+ * Rewrites a prompt with a text-only Gemini model. The instruction goes into
+ * the system prompt so the user's prompt is never read as a command.
+ */
+const rewritePrompt = async (
+  prompt: string,
+  mode: PromptRewriteMode,
+  signal?: AbortSignal
+): Promise<PromptRewriteResult> => {
+  try {
+    const ai = getClient();
+    const response = await ai.models.generateContent({
+      model: TEXT_MODEL,
+      contents: prompt,
+      config: {
+        systemInstruction: REWRITE_INSTRUCTIONS[mode],
+        abortSignal: signal,
+      },
+    });
+
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new SafetyBlockError(blockReason, response.promptFeedback?.blockReasonMessage);
     }
-  } catch (error: any) {
-    console.error("Gemini Image Edit Error:", error);
-    let errorMessage = error.message || "Unknown error occurred";
-    if (typeof errorMessage === 'string' && (errorMessage.includes('{') || errorMessage.includes('['))) {
-      try {
-        const jsonMatch = errorMessage.match(/(\{[\s\S]*\})/);
-        const jsonStr = jsonMatch ? jsonMatch[1] : errorMessage;
-        const parsed = JSON.parse(jsonStr);
-        if (parsed.error?.message) {
-          errorMessage = parsed.error.message;
-        } else if (parsed.message) {
-          errorMessage = parsed.message;
-        }
-      } catch (e) { }
+    const text = response.text?.trim();
+    if (!text) {
+      throw new ImageGenerationError('unknown', 'The model returned no text');
     }
-    throw new Error(errorMessage);
+    return { text, model: TEXT_MODEL };
+  } catch (error) {
+    console.error("Gemini Prompt Rewrite Error:", error);
+    throw toImageError(error);
   }
 };
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  capabilities: GENERATE_CAPABILITIES,
+  generateImage,
+  editImage,
+  chatEditImage,
+  rewritePrompt,
+};
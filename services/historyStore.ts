@@ -0,0 +1,287 @@
+import { GeneratedImage } from '../types';
+import { dataUrlToBlob } from '../lib/image';
+import { ImageMetadata, buildImageMetadata } from '../lib/imageMetadata';
+import { HistoryFilter, matchesHistoryFilter } from '../lib/historyFilter';
+import { createThumbnailBlob } from '../lib/thumbnail';
+import { initDB, promisifyRequest, transactionDone, createRecordId, STORES } from './db';
+import { broadcastHistoryChange } from './historySync';
+
+/**
+ * Shape persisted in the `images` store: one record per generation, with
+ * the image itself kept as a Blob rather than a data URL.
+ */
+export interface HistoryRecord extends Omit<GeneratedImage, 'url' | 'thumbnailUrl'> {
+  blob: Blob;
+  /** Gallery preview; records saved before thumbnails existed get one when first listed. */
+  thumbnail?: Blob;
+}
+
+export interface HistoryPage {
+  items: GeneratedImage[];
+  /** Pass back as `after` to fetch the next (older) page; null when exhausted. */
+  cursor: HistoryCursor | null;
+}
+
+export type HistoryCursor = [timestamp: number, id: string];
+
+export const HISTORY_PAGE_SIZE = 30;
+
+export const createHistoryId = createRecordId;
+
+type HistoryListener = (image: GeneratedImage) => void;
+const listeners = new Set<HistoryListener>();
+
+/**
+ * Notifies about records added anywhere in the app (e.g. workflow runs),
+ * so views holding a history list can merge them in.
+ */
+export const subscribeHistory = (listener: HistoryListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const withoutBlob = ({ blob, thumbnail, ...meta }: HistoryRecord): Omit<HistoryRecord, 'blob' | 'thumbnail'> => meta;
+
+// An object URL doesn't read the blob, so the full image stays on disk
+// until something displays or fetches it
+const toGeneratedImage = ({ blob, thumbnail, ...meta }: HistoryRecord): GeneratedImage => ({
+  ...meta,
+  url: URL.createObjectURL(blob),
+  ...(thumbnail && { thumbnailUrl: URL.createObjectURL(thumbnail) }),
+});
+
+/** Releases the object URLs created for a record loaded from the DB. */
+export const releaseImageUrl = (image: GeneratedImage) => {
+  if (image.url.startsWith('blob:')) URL.revokeObjectURL(image.url);
+  if (image.thumbnailUrl) URL.revokeObjectURL(image.thumbnailUrl);
+};
+
+const createThumbnailOrNothing = (blob: Blob): Promise<Blob | undefined> => {
+  return createThumbnailBlob(blob).catch(e => {
+    console.warn("Thumbnail Failed", e);
+    return undefined;
+  });
+};
+
+/**
+ * Stores `image` with a gallery thumbnail (matrix cells, which the gallery
+ * never shows, go without). Resolves to the image with its `thumbnailUrl`,
+ * which is also what subscribers receive.
+ */
+export const addHistoryRecord = async (image: GeneratedImage): Promise<GeneratedImage> => {
+  const { url, thumbnailUrl, ...meta } = image;
+  const blob = url.startsWith('data:') ? dataUrlToBlob(url) : await (await fetch(url)).blob();
+  const thumbnail = meta.gridId ? undefined : await createThumbnailOrNothing(blob);
+  const record: HistoryRecord = { ...meta, blob, thumbnail };
+  const db = await initDB();
+  const tx = db.transaction(STORES.images, 'readwrite');
+  tx.objectStore(STORES.images).put(record);
+  await transactionDone(tx);
+  broadcastHistoryChange({ type: 'added', ids: [image.id] });
+
+  const saved: GeneratedImage = thumbnail ? { ...image, thumbnailUrl: URL.createObjectURL(thumbnail) } : image;
+  listeners.forEach(listener => listener(saved));
+  return saved;
+};
+
+/** Renders and stores thumbnails for records that predate them. */
+const backfillThumbnails = async (records: HistoryRecord[]): Promise<void> => {
+  const thumbnails = new Map<string, Blob>();
+  for (const record of records) {
+    const thumbnail = await createThumbnailOrNothing(record.blob);
+    if (thumbnail) {
+      thumbnails.set(record.id, thumbnail);
+      record.thumbnail = thumbnail;
+    }
+  }
+  if (thumbnails.size === 0) return;
+
+  const db = await initDB();
+  const tx = db.transaction(STORES.images, 'readwrite');
+  const store = tx.objectStore(STORES.images);
+  // Re-read so organization changes made meanwhile aren't overwritten
+  await Promise.all([...thumbnails].map(async ([id, thumbnail]) => {
+    const current = await promisifyRequest(store.get(id) as IDBRequest<HistoryRecord | undefined>);
+    if (current && !current.thumbnail) store.put({ ...current, thumbnail });
+  }));
+  return transactionDone(tx);
+};
+
+export const getHistoryRecord = async (id: string): Promise<GeneratedImage | undefined> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.images, 'readonly');
+  const record = await promisifyRequest(tx.objectStore(STORES.images).get(id) as IDBRequest<HistoryRecord | undefined>);
+  return record ? toGeneratedImage(record) : undefined;
+};
+
+/**
+ * Newest first, `limit` records older than `after` that match `filter`.
+ * Matrix cells are skipped.
+ */
+export const getHistoryPage = async (
+  after: HistoryCursor | null = null,
+  limit: number = HISTORY_PAGE_SIZE,
+  filter?: HistoryFilter
+): Promise<HistoryPage> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.images, 'readonly');
+  const index = tx.objectStore(STORES.images).index('timestamp_id');
+  // Scanning runs newest first, so the date range bounds where it starts and stops
+  const start: HistoryCursor | null = after || (filter?.to != null ? [filter.to, '\uffff'] : null);
+  const range = start ? IDBKeyRange.upperBound(start, !!after) : null;
+
+  const { records, cursor } = await new Promise<{ records: HistoryRecord[]; cursor: HistoryCursor | null }>((resolve, reject) => {
+    const records: HistoryRecord[] = [];
+    const req = index.openCursor(range, 'prev');
+    req.onerror = () => reject(req.error);
+    req.onsuccess = () => {
+      const cursor = req.result;
+      const pastRange = !!cursor && filter?.from != null && cursor.value.timestamp < filter.from;
+      if (cursor && !pastRange && records.length < limit) {
+        const record: HistoryRecord = cursor.value;
+        if (!record.gridId && (!filter || matchesHistoryFilter(record, filter))) records.push(record);
+        cursor.continue();
+        return;
+      }
+      const last = records[records.length - 1];
+      resolve({
+        records,
+        // A live cursor here means more records may match
+        cursor: cursor && !pastRange && last ? [last.timestamp, last.id] : null,
+      });
+    };
+  });
+
+  const missing = records.filter(record => !record.thumbnail);
+  if (missing.length > 0) {
+    await backfillThumbnails(missing).catch(e => console.warn("IDB Thumbnail Save Failed", e));
+  }
+  return { items: records.map(toGeneratedImage), cursor };
+};
+
+export type HistoryOrganization = Pick<GeneratedImage, 'tags' | 'favorite' | 'collectionIds'>;
+
+/**
+ * Rewrites the tags, favorite flag and collections of several records in
+ * one transaction. Callers apply the same `update` to the records they hold.
+ */
+export const updateHistoryRecords = async (
+  ids: string[],
+  update: (current: HistoryOrganization) => HistoryOrganization
+): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.images, 'readwrite');
+  const store = tx.objectStore(STORES.images);
+  const updated: ({ id: string } & HistoryOrganization)[] = [];
+  // Each record is re-read inside the transaction, so changes another tab
+  // made to other fields are kept
+  await Promise.all(ids.map(async id => {
+    const record = await promisifyRequest(store.get(id) as IDBRequest<HistoryRecord | undefined>);
+    if (!record) return;
+    const organization = update(record);
+    store.put({ ...record, ...organization });
+    updated.push({ id, ...organization });
+  }));
+  await transactionDone(tx);
+  broadcastHistoryChange({ type: 'updated', records: updated });
+};
+
+export const countHistory = async (): Promise<number> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.images, 'readonly');
+  return promisifyRequest(tx.objectStore(STORES.images).count());
+};
+
+export const deleteHistoryRecord = async (id: string): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.images, 'readwrite');
+  tx.objectStore(STORES.images).delete(id);
+  await transactionDone(tx);
+  broadcastHistoryChange({ type: 'deleted', ids: [id] });
+};
+
+/** Removes several records atomically, e.g. a whole edit branch. */
+export const deleteHistoryRecords = async (ids: string[]): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.images, 'readwrite');
+  const store = tx.objectStore(STORES.images);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+  broadcastHistoryChange({ type: 'deleted', ids });
+};
+
+export interface LineageNode {
+  image: GeneratedImage;
+  children: LineageNode[];
+}
+
+/**
+ * The full version tree an image belongs to: walks `parentId` up to the
+ * root, then collects every descendant of that root.
+ */
+export const getLineage = async (id: string): Promise<LineageNode | null> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.images, 'readonly');
+  const store = tx.objectStore(STORES.images);
+  const byParent = store.index('parentId');
+
+  let root = await promisifyRequest(store.get(id) as IDBRequest<HistoryRecord | undefined>);
+  if (!root) return null;
+  const visited = new Set([root.id]);
+  while (root.parentId) {
+    const parent: HistoryRecord | undefined = await promisifyRequest(store.get(root.parentId));
+    // Stop at deleted parents and guard against corrupt loops
+    if (!parent || visited.has(parent.id)) break;
+    visited.add(parent.id);
+    root = parent;
+  }
+
+  const build = async (record: HistoryRecord): Promise<LineageNode> => {
+    const children: HistoryRecord[] = await promisifyRequest(byParent.getAll(record.id));
+    children.sort((a, b) => a.timestamp - b.timestamp);
+    return {
+      image: toGeneratedImage(record),
+      children: await Promise.all(children.map(build)),
+    };
+  };
+  return build(root);
+};
+
+/**
+ * What an exported copy of a record should carry: its own settings and
+ * the chain of records it was derived from. Null if it isn't stored.
+ */
+export const getImageMetadata = async (id: string): Promise<ImageMetadata | null> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.images, 'readonly');
+  const store = tx.objectStore(STORES.images);
+
+  const record = await promisifyRequest(store.get(id) as IDBRequest<HistoryRecord | undefined>);
+  if (!record) return null;
+  const ancestors: Omit<HistoryRecord, 'blob'>[] = [];
+  const visited = new Set([record.id]);
+  let parentId = record.parentId;
+  while (parentId) {
+    const parent: HistoryRecord | undefined = await promisifyRequest(store.get(parentId));
+    if (!parent || visited.has(parent.id)) break;
+    visited.add(parent.id);
+    ancestors.push(withoutBlob(parent));
+    parentId = parent.parentId;
+  }
+  return buildImageMetadata(withoutBlob(record), ancestors);
+};
+
+/** Ids of a node and all of its descendants. */
+export const collectBranchIds = (node: LineageNode): string[] => {
+  return [node.image.id, ...node.children.flatMap(collectBranchIds)];
+};
+
+export const clearHistory = async (): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.images, 'readwrite');
+  tx.objectStore(STORES.images).clear();
+  await transactionDone(tx);
+  broadcastHistoryChange({ type: 'cleared' });
+};
@@ -0,0 +1,80 @@
+import { HistoryOrganization } from './historyStore';
+
+// --- Cross-Tab History Sync ---
+// Every tab keeps its own copy of the history list, while records are
+// written one transaction per change. Each write is announced to the other
+// tabs, which merge it into their list by record id. BroadcastChannel
+// carries the messages; where it's missing, a localStorage key does.
+
+export type HistoryChange =
+  | { type: 'added'; ids: string[] }
+  | { type: 'updated'; records: ({ id: string } & HistoryOrganization)[] }
+  | { type: 'deleted'; ids: string[] }
+  | { type: 'cleared' }
+  | { type: 'collections' };
+
+type HistoryChangeListener = (change: HistoryChange) => void;
+
+const CHANNEL_NAME = 'nano-banana-history';
+const STORAGE_KEY = 'historySync';
+
+const listeners = new Set<HistoryChangeListener>();
+let channel: BroadcastChannel | null = null;
+let isListening = false;
+
+const dispatch = (change: HistoryChange) => listeners.forEach(listener => listener(change));
+
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+const handleStorage = (e: StorageEvent) => {
+  if (e.key !== STORAGE_KEY || !e.newValue) return;
+  try {
+    dispatch(JSON.parse(e.newValue).change);
+  } catch (err) {
+    console.warn("History Sync Message Unreadable", err);
+  }
+};
+
+const listen = () => {
+  if (isListening) return;
+  isListening = true;
+  const target = getChannel();
+  if (target) {
+    target.onmessage = (e: MessageEvent<HistoryChange>) => dispatch(e.data);
+  } else {
+    window.addEventListener('storage', handleStorage);
+  }
+};
+
+/** Tells the other open tabs about a change this tab has written. */
+export const broadcastHistoryChange = (change: HistoryChange) => {
+  try {
+    const target = getChannel();
+    if (target) {
+      target.postMessage(change);
+      return;
+    }
+    // Storage events only fire when the value changes, so each message is unique
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ change, sentAt: Date.now(), nonce: Math.random() }));
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    console.warn("History Sync Failed", e);
+  }
+};
+
+/**
+ * Calls `listener` for changes written by other tabs. The tab's own
+ * changes are never echoed back.
+ */
+export const subscribeRemoteHistory = (listener: HistoryChangeListener) => {
+  listen();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
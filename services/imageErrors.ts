@@ -0,0 +1,178 @@
+import { ImageErrorKind } from '../types';
+import { CapabilityIssue } from '../lib/modelCapabilities';
+
+/**
+ * Base class for everything a provider can fail with. `retryable` marks
+ * transient failures that the request layer retries with backoff.
+ */
+export class ImageGenerationError extends Error {
+  readonly kind: ImageErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: ImageErrorKind, message: string, retryable: boolean = false) {
+    super(message);
+    this.name = 'ImageGenerationError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+/** Rate limit or exhausted quota (HTTP 429). */
+export class QuotaError extends ImageGenerationError {
+  /** Server-suggested wait before retrying, when it sent one. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super('quota', message, true);
+    this.name = 'QuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** The prompt or the generated image was blocked by a safety filter. */
+export class SafetyBlockError extends ImageGenerationError {
+  /** Block or finish reason as reported by the model, e.g. IMAGE_SAFETY. */
+  readonly reason: string;
+
+  constructor(reason: string, message: string = `Blocked: ${reason}`) {
+    super('safety', message);
+    this.name = 'SafetyBlockError';
+    this.reason = reason;
+  }
+}
+
+/** The request itself was rejected (HTTP 400), retrying won't help. */
+export class InvalidArgumentError extends ImageGenerationError {
+  constructor(message: string) {
+    super('invalidArgument', message);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+/** The request asks for something the model can't do; see `issue`. */
+export class CapabilityError extends InvalidArgumentError {
+  readonly issue: CapabilityIssue;
+
+  constructor(issue: CapabilityIssue) {
+    super(`${issue.model} does not support this request (${issue.kind})`);
+    this.name = 'CapabilityError';
+    this.issue = issue;
+  }
+}
+
+/** Connection failures and 5xx responses. */
+export class NetworkError extends ImageGenerationError {
+  constructor(message: string) {
+    super('network', message, true);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ImageGenerationError {
+  constructor(message: string = 'Request timed out') {
+    super('timeout', message, true);
+    this.name = 'TimeoutError';
+  }
+}
+
+/** The model answered, but without an image. */
+export class NoImageError extends ImageGenerationError {
+  readonly modelText?: string;
+
+  constructor(modelText?: string) {
+    super('noImage', modelText || 'No image data found in response');
+    this.name = 'NoImageError';
+    this.modelText = modelText;
+  }
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+/**
+ * Exponential backoff with "equal jitter": half the step is fixed, half is
+ * random, so parallel jobs hitting the same rate limit spread out.
+ */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const step = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return step / 2 + Math.random() * (step / 2);
+};
+
+/**
+ * Runs `request` until it succeeds, fails with a non-retryable error, or
+ * runs out of retries. Cancellation via `signal` is never retried.
+ */
+export const withRetry = async <T>(
+  request: () => Promise<T>,
+  { retries = 3, baseDelayMs = 1000, maxDelayMs = 16000, signal }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const retryable = error instanceof ImageGenerationError && error.retryable;
+      if (!retryable || attempt >= retries || signal?.aborted) throw error;
+
+      const suggested = error instanceof QuotaError ? error.retryAfterMs : undefined;
+      const wait = Math.max(suggested || 0, backoffDelay(attempt, baseDelayMs, maxDelayMs));
+      console.warn(`Request failed (${error.kind}), retrying in ${Math.round(wait)}ms`, error);
+      await sleep(wait, signal);
+    }
+  }
+};
+
+/** Localized explanation of a model limit, for inline hints and errors. */
+export const describeCapabilityIssue = (issue: CapabilityIssue, t: (key: string) => string): string => {
+  switch (issue.kind) {
+    case 'tooManyReferences':
+      return t('capTooManyReferences')
+        .replace('{model}', issue.model)
+        .replace('{max}', String(issue.max))
+        .replace('{count}', String(issue.count));
+    case 'referencesAt4K':
+      return t('capReferencesAt4K').replace('{model}', issue.model);
+    case 'resolution':
+      return t('capResolution').replace('{model}', issue.model).replace('{resolution}', issue.resolution);
+    case 'aspectRatio':
+      return t('capAspectRatio')
+        .replace('{model}', issue.model)
+        .replace('{ratio}', issue.aspectRatio)
+        .replace('{nearest}', issue.nearest);
+  }
+};
+
+/** Localized, actionable text for an error, for toasts and node badges. */
+export const describeError = (error: unknown, t: (key: string) => string): string => {
+  if (error instanceof CapabilityError) {
+    return describeCapabilityIssue(error.issue, t);
+  }
+  if (error instanceof SafetyBlockError) {
+    return t('errSafety').replace('{reason}', error.reason);
+  }
+  if (error instanceof NoImageError) {
+    return error.modelText
+      ? t('errNoImageWithText').replace('{text}', error.modelText)
+      : t('errNoImage');
+  }
+  if (error instanceof InvalidArgumentError) {
+    return t('errInvalidArgument').replace('{detail}', error.message);
+  }
+  if (error instanceof QuotaError) return t('errQuota');
+  if (error instanceof NetworkError) return t('errNetwork');
+  if (error instanceof TimeoutError) return t('errTimeout');
+  return (error instanceof Error && error.message) || t('errorGen');
+};
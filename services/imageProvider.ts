@@ -0,0 +1,43 @@
+import { Resolution, AspectRatio, ImageResult, ChatEditMessage, PromptRewriteMode, PromptRewriteResult, ReferenceRole } from '../types';
+import { ModelCapabilities } from '../lib/modelCapabilities';
+
+export type ImageProviderId = 'gemini' | 'mock';
+
+/**
+ * A backend capable of producing images for the studio.
+ * All images are exchanged as base64 data URLs.
+ */
+export interface ImageProvider {
+  id: ImageProviderId;
+  /** Human readable name shown in the provider switcher. */
+  label: string;
+  /** Limits of the model behind `generateImage`. */
+  capabilities: ModelCapabilities;
+
+  generateImage(
+    prompt: string,
+    referenceImages: string[],
+    resolution: Resolution,
+    aspectRatio: AspectRatio,
+    signal?: AbortSignal,
+    /** Varies the output between otherwise identical requests. */
+    seed?: number,
+    referenceRoles?: (ReferenceRole | undefined)[]
+  ): Promise<ImageResult>;
+
+  /**
+   * `maskBase64`, when given, is a black/white PNG of the input's size where
+   * white marks the only region allowed to change.
+   */
+  editImage(prompt: string, inputImageBase64: string, maskBase64?: string, signal?: AbortSignal): Promise<ImageResult>;
+
+  /**
+   * Continues an edit conversation. `messages` alternate between user and
+   * model and end with the new user instruction; the reply's image is the
+   * next version.
+   */
+  chatEditImage(messages: ChatEditMessage[], signal?: AbortSignal): Promise<ImageResult>;
+
+  /** Expands a prompt into a more detailed one, or translates it between zh and en. */
+  rewritePrompt(prompt: string, mode: PromptRewriteMode, signal?: AbortSignal): Promise<PromptRewriteResult>;
+}
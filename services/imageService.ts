@@ -0,0 +1,130 @@
+import { Resolution, AspectRatio, ImageResult, ChatEditMessage, PromptRewriteMode, PromptRewriteResult, RatioFit, ReferenceRole } from "../types";
+import { ImageProvider, ImageProviderId } from "./imageProvider";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { CapabilityError, TimeoutError, withRetry } from "./imageErrors";
+import { ModelCapabilities, checkGenerateRequest, nearestAspectRatio } from "../lib/modelCapabilities";
+import { fitToAspectRatio } from "../lib/image";
+
+export const imageProviders: Record<ImageProviderId, ImageProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const PROVIDER_STORAGE_KEY = 'imageProvider';
+
+const isProviderId = (value: unknown): value is ImageProviderId => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(imageProviders, value);
+};
+
+/**
+ * Resolution order: choice saved from the UI, then the IMAGE_PROVIDER
+ * env var, then Gemini.
+ */
+export const getActiveProviderId = (): ImageProviderId => {
+  try {
+    const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (isProviderId(saved)) return saved;
+  } catch (e) {}
+
+  const fromEnv = process.env.IMAGE_PROVIDER;
+  return isProviderId(fromEnv) ? fromEnv : 'gemini';
+};
+
+export const setActiveProviderId = (id: ImageProviderId) => {
+  try {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  } catch (e) {}
+};
+
+const getProvider = (): ImageProvider => imageProviders[getActiveProviderId()];
+
+/** Limits of the active provider's generation model. */
+export const getGenerateCapabilities = (): ModelCapabilities => getProvider().capabilities;
+
+// 4K generations regularly take over a minute
+const REQUEST_TIMEOUT_MS = 180_000;
+
+/** One attempt, aborted and reported as a TimeoutError if it takes too long. */
+const withTimeout = <T>(run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError());
+    }, REQUEST_TIMEOUT_MS);
+  });
+
+  return Promise.race([run(controller.signal), timeout]).finally(() => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  });
+};
+
+/** Transient failures (rate limits, network, timeouts) are retried with backoff. */
+const request = <T>(run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  return withRetry(() => withTimeout(run, signal), { signal });
+};
+
+/**
+ * Generates an image with the active provider.
+ * Supports text-to-image and image-to-image (multimodal). Requests beyond
+ * the model's limits fail with a CapabilityError instead of being trimmed.
+ * With `ratioFit`, an unsupported ratio is generated at the nearest
+ * supported one and then cropped or padded to the exact ratio.
+ */
+export const generateImage = async (
+  prompt: string,
+  referenceImages: string[] = [],
+  resolution: Resolution = '1K',
+  aspectRatio: AspectRatio = '1:1',
+  signal?: AbortSignal,
+  seed?: number,
+  referenceRoles?: (ReferenceRole | undefined)[],
+  ratioFit?: RatioFit
+): Promise<ImageResult> => {
+  const provider = getProvider();
+  const issue = checkGenerateRequest(provider.capabilities, {
+    referenceCount: referenceImages.length,
+    resolution,
+    aspectRatio,
+    ratioFit,
+  });
+  if (issue) throw new CapabilityError(issue);
+
+  const modelRatio = nearestAspectRatio(provider.capabilities, aspectRatio);
+  const result = await request(s => provider.generateImage(prompt, referenceImages, resolution, modelRatio, s, seed, referenceRoles), signal);
+  if (modelRatio === aspectRatio || !ratioFit) return result;
+  return { ...result, url: await fitToAspectRatio(result.url, aspectRatio, ratioFit) };
+};
+
+/**
+ * Edits an existing image with the active provider, optionally restricted
+ * to the white area of a mask.
+ */
+export const editImage = (
+  prompt: string,
+  inputImageBase64: string,
+  maskBase64?: string,
+  signal?: AbortSignal
+): Promise<ImageResult> => {
+  return request(s => getProvider().editImage(prompt, inputImageBase64, maskBase64, s), signal);
+};
+
+/** Sends the next instruction of a multi-turn edit to the active provider. */
+export const chatEditImage = (messages: ChatEditMessage[], signal?: AbortSignal): Promise<ImageResult> => {
+  return request(s => getProvider().chatEditImage(messages, s), signal);
+};
+
+/** Rewrites a prompt with the active provider's text model. */
+export const rewritePrompt = (
+  prompt: string,
+  mode: PromptRewriteMode,
+  signal?: AbortSignal
+): Promise<PromptRewriteResult> => {
+  return request(s => getProvider().rewritePrompt(prompt, mode, s), signal);
+};
@@ -0,0 +1,295 @@
+import { GeneratedImage, GenerationJob, ImageResult, JobInput, JobSource } from '../types';
+import { generateImage, editImage, chatEditImage } from './imageService';
+import { addHistoryRecord, createHistoryId } from './historyStore';
+import { listStoredJobs, getStoredJob, putStoredJob, deleteStoredJob } from './jobStore';
+import { createRecordId } from './db';
+
+export interface JobRequest {
+  source: JobSource;
+  prompt: string;
+  input: JobInput;
+  record?: GenerationJob['record'];
+}
+
+export interface JobOutcome {
+  result: ImageResult;
+  /** The saved history record, for `record` jobs. */
+  image?: GeneratedImage;
+  /** Time spent running, excluding the wait in the queue. */
+  durationMs: number;
+}
+
+/** Rejection reason for jobs cancelled from the queue panel. */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export const MAX_CONCURRENCY = 4;
+const CONCURRENCY_STORAGE_KEY = 'jobConcurrency';
+const DEFAULT_CONCURRENCY = 2;
+
+let jobs: GenerationJob[] = [];
+const controllers = new Map<string, AbortController>();
+// Callers awaiting a job; resumed jobs have none
+const waiters = new Map<string, { resolve: (outcome: JobOutcome) => void; reject: (reason: unknown) => void }>();
+// Pending writes of persistent jobs to IndexedDB; a job must not start before
+// its write settles, and must not be deleted before it either
+const storing = new Map<string, Promise<void>>();
+
+// Every persistent job is owned by the tab holding its Web Lock, from
+// enqueueing (or resuming) until it settles. The browser drops the lock
+// when that tab closes or reloads, which is what lets another tab resume it.
+const JOB_LOCK_PREFIX = 'nano-banana-job-';
+const lockReleases = new Map<string, () => void>();
+
+/**
+ * Resolves once this tab holds the job's lock, or to false if `ifAvailable`
+ * is set and another tab has it. Without Web Locks every tab counts as owner.
+ */
+const acquireJobLock = (id: string, options: LockOptions = {}): Promise<boolean> => {
+  if (!navigator.locks) return Promise.resolve(true);
+  return new Promise(resolve => {
+    navigator.locks
+      .request(JOB_LOCK_PREFIX + id, options, (lock) => {
+        if (!lock) {
+          resolve(false);
+          return;
+        }
+        resolve(true);
+        // Held until releaseJobLock settles this promise
+        return new Promise<void>(release => lockReleases.set(id, release));
+      })
+      .catch(e => {
+        console.warn("Job lock failed", e);
+        resolve(false);
+      });
+  });
+};
+
+const releaseJobLock = (id: string) => {
+  lockReleases.get(id)?.();
+  lockReleases.delete(id);
+};
+
+type JobsListener = (jobs: GenerationJob[]) => void;
+const listeners = new Set<JobsListener>();
+
+export const subscribeJobs = (listener: JobsListener) => {
+  listeners.add(listener);
+  listener(jobs);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener(jobs));
+
+const updateJob = (id: string, patch: Partial<GenerationJob>) => {
+  jobs = jobs.map(job => job.id === id ? { ...job, ...patch } : job);
+  notify();
+};
+
+export const getJobConcurrency = (): number => {
+  try {
+    const saved = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+    if (saved >= 1 && saved <= MAX_CONCURRENCY) return saved;
+  } catch (e) {}
+  return DEFAULT_CONCURRENCY;
+};
+
+export const setJobConcurrency = (value: number) => {
+  try {
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(value));
+  } catch (e) {}
+  pump();
+};
+
+const runInput = (prompt: string, input: JobInput, signal: AbortSignal): Promise<ImageResult> => {
+  switch (input.operation) {
+    case 'generate':
+      return generateImage(prompt, input.referenceImages, input.resolution, input.aspectRatio, signal, input.seed, input.referenceRoles, input.ratioFit);
+    case 'edit':
+      return editImage(prompt, input.inputImage, input.mask, signal);
+    case 'chat':
+      return chatEditImage(input.messages, signal);
+  }
+};
+
+const forgetStored = (job: GenerationJob) => {
+  if (!job.record) return;
+  // A delete racing the initial write would be undone by it
+  (storing.get(job.id) || Promise.resolve())
+    .then(() => deleteStoredJob(job.id))
+    .catch(e => console.warn("IDB Delete Failed", e))
+    .finally(() => releaseJobLock(job.id));
+};
+
+const start = async (job: GenerationJob) => {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  const startedAt = Date.now();
+  updateJob(job.id, { status: 'running', startedAt });
+
+  // Providers get the signal too, but a cancel must settle the job even
+  // if a request ignores it
+  const cancelled = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(new JobCancelledError()), { once: true });
+  });
+
+  try {
+    const result = await Promise.race([runInput(job.prompt, job.input, controller.signal), cancelled]);
+    let image: GeneratedImage | undefined;
+
+    if (job.record) {
+      image = {
+        id: createHistoryId(),
+        url: result.url,
+        prompt: job.prompt,
+        timestamp: Date.now(),
+        // A chat turn is stored like any other edit of its input
+        operation: job.input.operation === 'chat' ? 'edit' : job.input.operation,
+        model: result.model,
+        ...(job.input.operation === 'generate' && {
+          resolution: job.input.resolution,
+          aspectRatio: job.input.aspectRatio,
+        }),
+        references: job.record.references,
+        parentId: job.record.parentId ?? null,
+        durationMs: Date.now() - startedAt,
+        modelText: result.text,
+        template: job.record.template,
+      };
+      await addHistoryRecord(image);
+    }
+
+    updateJob(job.id, { status: 'succeeded', finishedAt: Date.now(), resultId: image?.id });
+    waiters.get(job.id)?.resolve({ result, image, durationMs: Date.now() - startedAt });
+  } catch (error) {
+    const wasCancelled = controller.signal.aborted;
+    updateJob(job.id, {
+      status: wasCancelled ? 'cancelled' : 'failed',
+      finishedAt: Date.now(),
+      error: wasCancelled ? undefined : error,
+    });
+    waiters.get(job.id)?.reject(wasCancelled ? new JobCancelledError() : error);
+  } finally {
+    controllers.delete(job.id);
+    waiters.delete(job.id);
+    forgetStored(job);
+    pump();
+  }
+};
+
+/** Starts queued jobs, oldest first, until the concurrency limit is reached. */
+const pump = () => {
+  const limit = getJobConcurrency();
+  let running = jobs.filter(job => job.status === 'running').length;
+  for (const job of jobs) {
+    if (running >= limit) break;
+    if (job.status !== 'queued' || storing.has(job.id)) continue;
+    running++;
+    start(job);
+  }
+};
+
+/**
+ * Adds a job to the queue and resolves once it has produced an image.
+ * Rejects with JobCancelledError if it is cancelled first, either from the
+ * queue panel or through `signal`.
+ */
+export const enqueueJob = (request: JobRequest, { signal }: { signal?: AbortSignal } = {}): Promise<JobOutcome> => {
+  const job: GenerationJob = {
+    ...request,
+    id: createRecordId(),
+    status: 'queued',
+    createdAt: Date.now(),
+  };
+
+  const outcome = new Promise<JobOutcome>((resolve, reject) => {
+    waiters.set(job.id, { resolve, reject });
+  });
+
+  jobs = [...jobs, job];
+  notify();
+  signal?.addEventListener('abort', () => cancelJob(job.id), { once: true });
+
+  if (job.record) {
+    // A fresh id is never locked elsewhere, so this doesn't wait
+    const write = acquireJobLock(job.id)
+      .then(() => putStoredJob(job))
+      .catch(e => console.warn("IDB Save Failed", e))
+      .finally(() => {
+        storing.delete(job.id);
+        pump();
+      });
+    storing.set(job.id, write);
+  } else {
+    pump();
+  }
+  return outcome;
+};
+
+export const cancelJob = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (!job) return;
+
+  if (job.status === 'running') {
+    controllers.get(id)?.abort();
+  } else if (job.status === 'queued') {
+    updateJob(id, { status: 'cancelled', finishedAt: Date.now() });
+    waiters.get(id)?.reject(new JobCancelledError());
+    waiters.delete(id);
+    forgetStored(job);
+  }
+};
+
+/** Drops finished, failed and cancelled jobs from the panel. */
+export const clearFinishedJobs = () => {
+  jobs = jobs.filter(job => job.status === 'queued' || job.status === 'running');
+  notify();
+};
+
+let resumed = false;
+
+/**
+ * Takes over a stored job once no other tab owns it. The record is read
+ * again under the lock: if the owner finished it meanwhile, it is gone.
+ */
+const resumeStoredJob = async (id: string) => {
+  await acquireJobLock(id);
+  try {
+    const job = await getStoredJob(id);
+    if (!job || jobs.some(j => j.id === id)) {
+      releaseJobLock(id);
+      return;
+    }
+    const restored: GenerationJob = { ...job, status: 'queued', startedAt: undefined };
+    jobs = [...jobs, restored].sort((a, b) => a.createdAt - b.createdAt);
+    notify();
+    pump();
+  } catch (e) {
+    releaseJobLock(id);
+    console.warn("IDB Load Failed", e);
+  }
+};
+
+/**
+ * Re-queues jobs left over from a previous session. Jobs that were running
+ * when the page closed start again from scratch. Jobs another open tab
+ * still owns are left to it, and taken over only if that tab goes away
+ * before finishing them.
+ */
+export const resumeStoredJobs = async () => {
+  if (resumed) return;
+  resumed = true;
+  try {
+    // Skip jobs queued in this session while the list was loading
+    const stored = (await listStoredJobs()).filter(job => !jobs.some(j => j.id === job.id));
+    stored.forEach(job => resumeStoredJob(job.id));
+  } catch (e) {
+    console.warn("IDB Load Failed", e);
+  }
+};
@@ -0,0 +1,29 @@
+import { GenerationJob } from '../types';
+import { initDB, promisifyRequest, transactionDone, STORES } from './db';
+
+export const listStoredJobs = async (): Promise<GenerationJob[]> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.jobs, 'readonly');
+  const jobs = await promisifyRequest(tx.objectStore(STORES.jobs).getAll() as IDBRequest<GenerationJob[]>);
+  return jobs.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const getStoredJob = async (id: string): Promise<GenerationJob | undefined> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.jobs, 'readonly');
+  return promisifyRequest(tx.objectStore(STORES.jobs).get(id) as IDBRequest<GenerationJob | undefined>);
+};
+
+export const putStoredJob = async (job: GenerationJob): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.jobs, 'readwrite');
+  tx.objectStore(STORES.jobs).put(job);
+  return transactionDone(tx);
+};
+
+export const deleteStoredJob = async (id: string): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.jobs, 'readwrite');
+  tx.objectStore(STORES.jobs).delete(id);
+  return transactionDone(tx);
+};
@@ -0,0 +1,293 @@
+import { Resolution, AspectRatio, ImageResult, ChatEditMessage, PromptRewriteMode, PromptRewriteResult, ReferenceRole } from "../types";
+import { ImageProvider } from "./imageProvider";
+import { loadImageElement } from "../lib/image";
+import { MODEL_CAPABILITIES } from "../lib/modelCapabilities";
+
+// Simulated network latency so loading states remain visible during demos
+const MOCK_LATENCY_MS = 800;
+const MOCK_MODEL = 'mock-image';
+const MOCK_TEXT_MODEL = 'mock-text';
+
+const LONG_EDGE: Record<Resolution, number> = {
+  '1K': 1024,
+  '2K': 2048,
+  '4K': 4096,
+};
+
+// FNV-1a: small, stable hash used to derive colors from the prompt
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+const getDimensions = (resolution: Resolution, aspectRatio: AspectRatio) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const longEdge = LONG_EDGE[resolution];
+  return w >= h
+    ? { width: longEdge, height: Math.round(longEdge * h / w) }
+    : { width: Math.round(longEdge * w / h), height: longEdge };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas context failed");
+  }
+  return { canvas, ctx };
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  // Split per character for CJK text, per word otherwise
+  const tokens = /\s/.test(text) ? text.split(/(\s+)/) : Array.from(text);
+  for (const token of tokens) {
+    const candidate = current + token;
+    if (ctx.measureText(candidate).width > maxWidth && current.trim()) {
+      lines.push(current.trim());
+      current = token.trimStart();
+    } else {
+      current = candidate;
+    }
+  }
+  if (current.trim()) lines.push(current.trim());
+  return lines;
+};
+
+const drawCaption = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  title: string,
+  text: string,
+  footer: string
+) => {
+  const unit = Math.min(width, height) / 24;
+  const padding = unit * 1.5;
+  const maxLines = 8;
+
+  ctx.font = `600 ${unit}px Inter, sans-serif`;
+  const lines = wrapText(ctx, text || '—', width - padding * 4);
+  const visible = lines.slice(0, maxLines);
+  if (lines.length > maxLines) visible[maxLines - 1] += ' …';
+
+  const boxHeight = unit * 1.4 * (visible.length + 2) + padding * 2;
+  const boxTop = height - boxHeight - padding;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(padding, boxTop, width - padding * 2, boxHeight);
+
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.font = `500 ${unit * 0.7}px Inter, sans-serif`;
+  ctx.fillText(title, padding * 2, boxTop + padding);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `600 ${unit}px Inter, sans-serif`;
+  visible.forEach((line, i) => {
+    ctx.fillText(line, padding * 2, boxTop + padding + unit * 1.4 * (i + 1));
+  });
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.font = `500 ${unit * 0.7}px Inter, sans-serif`;
+  ctx.fillText(footer, padding * 2, boxTop + padding + unit * 1.4 * (visible.length + 1));
+};
+
+/**
+ * Renders a deterministic placeholder: the same prompt, references,
+ * settings and seed always produce the same pixels.
+ */
+const generateImage = async (
+  prompt: string,
+  referenceImages: string[] = [],
+  resolution: Resolution = '1K',
+  aspectRatio: AspectRatio = '1:1',
+  signal?: AbortSignal,
+  seed?: number,
+  referenceRoles: (ReferenceRole | undefined)[] = []
+): Promise<ImageResult> => {
+  await delay(MOCK_LATENCY_MS, signal);
+
+  const { width, height } = getDimensions(resolution, aspectRatio);
+  const { canvas, ctx } = createCanvas(width, height);
+  const variant = seed === undefined ? prompt : `${prompt}#${seed}`;
+  const hue = hashString(variant) % 360;
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 70%, 20%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // Concentric rings give each prompt a recognizable silhouette
+  const rings = 3 + (hashString(variant + aspectRatio) % 5);
+  ctx.strokeStyle = `hsla(${(hue + 180) % 360}, 80%, 70%, 0.35)`;
+  ctx.lineWidth = Math.min(width, height) / 80;
+  for (let i = 1; i <= rings; i++) {
+    ctx.beginPath();
+    ctx.arc(width / 2, height / 3, (Math.min(width, height) / 3) * (i / rings), 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  // Reference images as inset thumbnails along the top edge, wrapping into
+  // more rows when there are many, each tagged with its role
+  const thumbSize = Math.min(width, height) / (referenceImages.length > 4 ? 8 : 5);
+  const perRow = Math.max(1, Math.floor((width - thumbSize * 0.25) / (thumbSize * 1.1)));
+  for (let i = 0; i < referenceImages.length; i++) {
+    const ref = await loadImageElement(referenceImages[i]);
+    const x = thumbSize * 0.25 + (i % perRow) * thumbSize * 1.1;
+    const y = thumbSize * 0.25 + Math.floor(i / perRow) * thumbSize * 1.1;
+    ctx.drawImage(ref, x, y, thumbSize, thumbSize);
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, thumbSize, thumbSize);
+
+    const role = referenceRoles[i];
+    if (role) {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(x, y + thumbSize * 0.8, thumbSize, thumbSize * 0.2);
+      ctx.fillStyle = '#ffffff';
+      ctx.font = `600 ${thumbSize * 0.12}px Inter, sans-serif`;
+      ctx.textBaseline = 'middle';
+      ctx.fillText(role.toUpperCase(), x + thumbSize * 0.06, y + thumbSize * 0.9);
+    }
+  }
+
+  const footer = `${resolution} · ${aspectRatio} · ${width}×${height}${seed === undefined ? '' : ` · seed ${seed}`}`;
+  drawCaption(ctx, width, height, 'MOCK · GENERATE', prompt, footer);
+
+  return {
+    url: canvas.toDataURL('image/png'),
+    model: MOCK_MODEL,
+    text: `Mock render of "${prompt}" at ${width}×${height}.`,
+  };
+};
+
+/**
+ * Redraws the input image with a tint derived from the instruction and
+ * stamps the instruction on top, keeping the original dimensions.
+ */
+const renderEdit = async (prompt: string, inputImageBase64: string, title: string, footer = '') => {
+  const source = await loadImageElement(inputImageBase64);
+  const width = source.naturalWidth;
+  const height = source.naturalHeight;
+  const { canvas, ctx } = createCanvas(width, height);
+
+  ctx.drawImage(source, 0, 0, width, height);
+  ctx.fillStyle = `hsla(${hashString(prompt) % 360}, 80%, 50%, 0.25)`;
+  ctx.fillRect(0, 0, width, height);
+
+  drawCaption(ctx, width, height, title, prompt, `${width}×${height}${footer}`);
+  return canvas.toDataURL('image/png');
+};
+
+const editImage = async (
+  prompt: string,
+  inputImageBase64: string,
+  maskBase64?: string,
+  signal?: AbortSignal
+): Promise<ImageResult> => {
+  await delay(MOCK_LATENCY_MS, signal);
+
+  return {
+    url: await renderEdit(prompt, inputImageBase64, 'MOCK · EDIT'),
+    model: MOCK_MODEL,
+    // The whole frame is tinted; masked edits are composited by the caller
+    text: `Mock ${maskBase64 ? 'masked ' : ''}edit applying "${prompt}".`,
+  };
+};
+
+/** Edits the latest image in the conversation with the last instruction. */
+const chatEditImage = async (
+  messages: ChatEditMessage[],
+  signal?: AbortSignal
+): Promise<ImageResult> => {
+  await delay(MOCK_LATENCY_MS, signal);
+
+  const instruction = messages[messages.length - 1]?.text || '';
+  const latest = [...messages].reverse().find(m => m.image)?.image;
+  if (!latest) {
+    throw new Error("No image in the conversation");
+  }
+  const turn = messages.filter(m => m.role === 'user').length;
+
+  return {
+    url: await renderEdit(instruction, latest, 'MOCK · CHAT', ` · turn ${turn}`),
+    model: MOCK_MODEL,
+    text: `Mock turn ${turn}: applied "${instruction}".`,
+  };
+};
+
+const ENHANCE_DETAILS: Record<'en' | 'zh', string[]> = {
+  en: [
+    'soft golden hour lighting',
+    'shallow depth of field',
+    'rich textures and fine detail',
+    'cinematic composition',
+    'muted pastel palette',
+    'dramatic rim light',
+    'shot on 35mm film',
+    'high contrast, crisp focus',
+  ],
+  zh: [
+    '柔和的黄金时刻光线',
+    '浅景深',
+    '丰富的质感与细节',
+    '电影感构图',
+    '柔和的马卡龙配色',
+    '戏剧性的轮廓光',
+    '35mm 胶片质感',
+    '高对比度，清晰锐利',
+  ],
+};
+
+const hasChinese = (text: string) => /[\u4e00-\u9fff]/.test(text);
+
+/**
+ * Deterministic stand-in for the text model: enhancing appends three detail
+ * phrases picked by hashing the prompt, translating only tags the prompt.
+ */
+const rewritePrompt = async (
+  prompt: string,
+  mode: PromptRewriteMode,
+  signal?: AbortSignal
+): Promise<PromptRewriteResult> => {
+  await delay(MOCK_LATENCY_MS / 2, signal);
+
+  const trimmed = prompt.trim();
+  if (mode === 'toEnglish') return { text: `[EN] ${trimmed}`, model: MOCK_TEXT_MODEL };
+  if (mode === 'toChinese') return { text: `[中文] ${trimmed}`, model: MOCK_TEXT_MODEL };
+
+  const language = hasChinese(trimmed) ? 'zh' : 'en';
+  const details = ENHANCE_DETAILS[language];
+  const start = hashString(trimmed) % details.length;
+  const picked = [0, 1, 2].map(i => details[(start + i * 3) % details.length]);
+  const separator = language === 'zh' ? '，' : ', ';
+  return { text: [trimmed, ...picked].join(separator), model: MOCK_TEXT_MODEL };
+};
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Mock',
+  capabilities: MODEL_CAPABILITIES[MOCK_MODEL],
+  generateImage,
+  editImage,
+  chatEditImage,
+  rewritePrompt,
+};
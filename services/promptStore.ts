@@ -0,0 +1,74 @@
+import { SavedPrompt } from '../types';
+import { PROMPT_PACK_VERSION, PromptPack } from '../lib/promptPack';
+import { initDB, promisifyRequest, transactionDone, STORES } from './db';
+import { getUpload, saveUpload } from './uploadStore';
+
+export const createPromptId = () => `pr-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Most recently updated first. */
+export const listPrompts = async (): Promise<SavedPrompt[]> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.prompts, 'readonly');
+  const index = tx.objectStore(STORES.prompts).index('updatedAt');
+  const all = await promisifyRequest(index.getAll() as IDBRequest<SavedPrompt[]>);
+  return all.reverse();
+};
+
+export const putPrompt = async (prompt: SavedPrompt): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.prompts, 'readwrite');
+  tx.objectStore(STORES.prompts).put(prompt);
+  return transactionDone(tx);
+};
+
+export const deletePrompt = async (id: string): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.prompts, 'readwrite');
+  tx.objectStore(STORES.prompts).delete(id);
+  return transactionDone(tx);
+};
+
+/** Embeds reference images, falling back to thumbnails for removed uploads. */
+export const exportPromptPack = async (prompts: SavedPrompt[]): Promise<PromptPack> => ({
+  schemaVersion: PROMPT_PACK_VERSION,
+  prompts: await Promise.all(prompts.map(async ({ id, title, body, tags, resolution, aspectRatio, favorite, references }) => ({
+    id,
+    title,
+    body,
+    tags,
+    resolution,
+    aspectRatio,
+    favorite,
+    references: references && await Promise.all(references.map(async ref =>
+      (await getUpload(ref.hash).catch(() => undefined)) || ref.thumbnail
+    )),
+  }))),
+});
+
+/**
+ * Saves every entry of a parsed pack. Ids are kept, so importing an updated
+ * pack replaces the entries it brought in before. Returns the count saved.
+ */
+export const importPromptPack = async (pack: PromptPack): Promise<number> => {
+  const now = Date.now();
+  const prompts: SavedPrompt[] = await Promise.all(pack.prompts.map(async (entry, i) => ({
+    id: entry.id,
+    title: entry.title,
+    body: entry.body,
+    tags: entry.tags,
+    resolution: entry.resolution,
+    aspectRatio: entry.aspectRatio,
+    references: entry.references && await Promise.all(entry.references.map(saveUpload)),
+    favorite: !!entry.favorite,
+    createdAt: now,
+    // Keeps the pack's order in the library
+    updatedAt: now - i,
+  })));
+
+  const db = await initDB();
+  const tx = db.transaction(STORES.prompts, 'readwrite');
+  const store = tx.objectStore(STORES.prompts);
+  prompts.forEach(prompt => store.put(prompt));
+  await transactionDone(tx);
+  return prompts.length;
+};
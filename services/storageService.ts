@@ -0,0 +1,137 @@
+import { EditSession, ReferenceImageInfo, SavedPrompt } from '../types';
+import { DEFAULT_RETENTION_POLICY, RetentionItem, RetentionPolicy, selectForRetention } from '../lib/retention';
+import { initDB, promisifyRequest, STORES } from './db';
+import { HistoryRecord, deleteHistoryRecords } from './historyStore';
+import { UploadRecord } from './uploadStore';
+import { SavedWorkflow } from './workflowStore';
+
+const RETENTION_STORAGE_KEY = 'retentionPolicy';
+
+export type StorageCategory = 'images' | 'thumbnails' | 'workflows' | 'uploads';
+
+export interface StorageUsage {
+  /** What the browser reports for the whole origin; null where unsupported. */
+  usage: number | null;
+  quota: number | null;
+  /** Bytes counted per category from the stores themselves. */
+  categories: Record<StorageCategory, number>;
+  persisted: boolean;
+}
+
+const thumbnailBytes = (refs: ReferenceImageInfo[] | undefined) => {
+  return (refs || []).reduce((sum, ref) => sum + (ref.thumbnail?.length || 0), 0);
+};
+
+/**
+ * Usage as reported by `navigator.storage.estimate()`, broken down by what
+ * the app keeps. Category sizes are estimates: strings are counted by length
+ * and the browser's own overhead ends up in neither.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const db = await initDB();
+  const tx = db.transaction([STORES.images, STORES.uploads, STORES.workflows, STORES.editSessions, STORES.prompts], 'readonly');
+  const [records, uploads, workflows, sessions, prompts] = await Promise.all([
+    promisifyRequest(tx.objectStore(STORES.images).getAll() as IDBRequest<HistoryRecord[]>),
+    promisifyRequest(tx.objectStore(STORES.uploads).getAll() as IDBRequest<UploadRecord[]>),
+    promisifyRequest(tx.objectStore(STORES.workflows).getAll() as IDBRequest<SavedWorkflow[]>),
+    promisifyRequest(tx.objectStore(STORES.editSessions).getAll() as IDBRequest<EditSession[]>),
+    promisifyRequest(tx.objectStore(STORES.prompts).getAll() as IDBRequest<SavedPrompt[]>),
+  ]);
+
+  const categories: Record<StorageCategory, number> = { images: 0, thumbnails: 0, workflows: 0, uploads: 0 };
+  records.forEach(record => {
+    categories.images += record.blob.size;
+    categories.thumbnails += (record.thumbnail?.size || 0) + thumbnailBytes(record.references);
+  });
+  sessions.forEach(session => session.turns.forEach(turn => {
+    categories.thumbnails += turn.thumbnail?.length || 0;
+  }));
+  prompts.forEach(prompt => {
+    categories.thumbnails += thumbnailBytes(prompt.references);
+  });
+  workflows.forEach(workflow => {
+    categories.workflows += JSON.stringify(workflow).length;
+  });
+  uploads.forEach(upload => {
+    categories.uploads += upload.blob.size;
+  });
+
+  let usage: number | null = null;
+  let quota: number | null = null;
+  let persisted = false;
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage = estimate.usage ?? null;
+    quota = estimate.quota ?? null;
+  }
+  if (navigator.storage?.persisted) {
+    persisted = await navigator.storage.persisted();
+  }
+  return { usage, quota, categories, persisted };
+};
+
+/**
+ * Asks the browser not to evict the app's data under storage pressure.
+ * Resolves to whether storage is persistent afterwards.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+};
+
+/** True for errors thrown when a write would exceed the storage quota. */
+export const isQuotaError = (error: unknown) => {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+};
+
+export const getRetentionPolicy = (): RetentionPolicy => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RETENTION_STORAGE_KEY) || 'null');
+    if (saved && typeof saved === 'object') return { ...DEFAULT_RETENTION_POLICY, ...saved };
+  } catch (e) {}
+  return DEFAULT_RETENTION_POLICY;
+};
+
+export const setRetentionPolicy = (policy: RetentionPolicy) => {
+  try {
+    localStorage.setItem(RETENTION_STORAGE_KEY, JSON.stringify(policy));
+  } catch (e) {}
+};
+
+/** History entries as retention sees them; matrix cells are folded into their grid. */
+const listRetentionItems = async (): Promise<RetentionItem[]> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.images, 'readonly');
+  const records = await promisifyRequest(tx.objectStore(STORES.images).getAll() as IDBRequest<HistoryRecord[]>);
+
+  const sizes = new Map(records.map(record => [record.id, record.blob.size + (record.thumbnail?.size || 0)]));
+  return records
+    .filter(record => !record.gridId)
+    .map(record => ({
+      id: record.id,
+      prompt: record.prompt,
+      timestamp: record.timestamp,
+      size: [record.id, ...(record.cellIds || [])].reduce((sum, id) => sum + (sizes.get(id) || 0), 0),
+      favorite: record.favorite,
+      cellIds: record.cellIds,
+    }));
+};
+
+/** What a cleanup under `policy` would delete right now, oldest first. */
+export const previewRetention = async (policy: RetentionPolicy): Promise<RetentionItem[]> => {
+  return selectForRetention(await listRetentionItems(), policy);
+};
+
+/** Deletes `items` and their grid cells; returns every id removed. */
+export const pruneHistory = async (items: RetentionItem[]): Promise<string[]> => {
+  const ids = items.flatMap(item => [item.id, ...(item.cellIds || [])]);
+  if (ids.length > 0) await deleteHistoryRecords(ids);
+  return ids;
+};
+
+/** Runs the saved policy if it is set to clean up on its own. */
+export const enforceRetentionPolicy = async (): Promise<string[]> => {
+  const policy = getRetentionPolicy();
+  if (!policy.auto) return [];
+  return pruneHistory(await previewRetention(policy));
+};
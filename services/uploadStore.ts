@@ -0,0 +1,37 @@
+import { ReferenceImageInfo } from '../types';
+import { blobToDataUrl, createThumbnail, dataUrlToBlob, hashBlob } from '../lib/image';
+import { initDB, promisifyRequest, transactionDone, STORES } from './db';
+
+export interface UploadRecord {
+  hash: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+/**
+ * Persists a reference image (once per distinct content) and returns what
+ * a history record keeps about it.
+ */
+export const saveUpload = async (dataUrl: string): Promise<ReferenceImageInfo> => {
+  const blob = dataUrlToBlob(dataUrl);
+  const [hash, thumbnail] = await Promise.all([hashBlob(blob), createThumbnail(dataUrl)]);
+
+  const db = await initDB();
+  const tx = db.transaction(STORES.uploads, 'readwrite');
+  const store = tx.objectStore(STORES.uploads);
+  const existing = await promisifyRequest(store.getKey(hash));
+  if (existing === undefined) {
+    store.put({ hash, blob, createdAt: Date.now() } as UploadRecord);
+  }
+  await transactionDone(tx);
+
+  return { hash, thumbnail };
+};
+
+/** Full-size data URL of a stored reference image, if it still exists. */
+export const getUpload = async (hash: string): Promise<string | undefined> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.uploads, 'readonly');
+  const record = await promisifyRequest(tx.objectStore(STORES.uploads).get(hash) as IDBRequest<UploadRecord | undefined>);
+  return record ? blobToDataUrl(record.blob) : undefined;
+};
@@ -0,0 +1,55 @@
+import { Wildcard } from '../types';
+import { initDB, promisifyRequest, transactionDone, STORES } from './db';
+
+type WildcardListener = () => void;
+const listeners = new Set<WildcardListener>();
+
+/** Fires after any change to the library, so open editors and nodes can reload. */
+export const subscribeWildcards = (listener: WildcardListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const listWildcards = async (): Promise<Wildcard[]> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.wildcards, 'readonly');
+  const wildcards = await promisifyRequest(tx.objectStore(STORES.wildcards).getAll() as IDBRequest<Wildcard[]>);
+  return wildcards.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/** Name → terms, the shape `expandTemplate` takes. */
+export const loadWildcardMap = async (): Promise<Record<string, string[]>> => {
+  const wildcards = await listWildcards();
+  return Object.fromEntries(wildcards.map(w => [w.name, w.values]));
+};
+
+export const putWildcard = async (wildcard: Wildcard): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.wildcards, 'readwrite');
+  tx.objectStore(STORES.wildcards).put(wildcard);
+  await transactionDone(tx);
+  notify();
+};
+
+/** Renames are a delete plus a put in one transaction. */
+export const renameWildcard = async (oldName: string, wildcard: Wildcard): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.wildcards, 'readwrite');
+  const store = tx.objectStore(STORES.wildcards);
+  store.delete(oldName);
+  store.put(wildcard);
+  await transactionDone(tx);
+  notify();
+};
+
+export const deleteWildcard = async (name: string): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.wildcards, 'readwrite');
+  tx.objectStore(STORES.wildcards).delete(name);
+  await transactionDone(tx);
+  notify();
+};
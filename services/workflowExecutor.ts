@@ -0,0 +1,345 @@
+import type { Node, Edge } from 'reactflow';
+import { Resolution, AspectRatio, RatioFit, ImageOperation, ImageResult } from '../types';
+import { enqueueJob, JobCancelledError } from './jobQueue';
+import { rewritePrompt } from './imageService';
+import { describeError } from './imageErrors';
+import { addHistoryRecord, createHistoryId } from './historyStore';
+import { saveUpload } from './uploadStore';
+import { loadWildcardMap } from './wildcardStore';
+import { topologicalSort, getDescendants } from '../lib/workflowGraph';
+import { expandTemplate, isTemplate, randomSeed } from '../lib/promptTemplate';
+
+/** Values a node hands to its downstream neighbours. */
+export interface NodeOutput {
+  prompt?: string;
+  /** The prompt node's text before wildcards and variables were filled in. */
+  template?: string;
+  images?: string[];
+  image?: string;
+  resolution?: Resolution;
+  aspectRatio?: AspectRatio;
+  ratioFit?: RatioFit;
+  /** History record of `image`, so derived results can link back to it. */
+  recordId?: string;
+}
+
+type InputKind = 'prompt' | 'images' | 'image';
+
+/**
+ * Input ports per node type, keyed by target handle id. Handles left
+ * unnamed on the canvas resolve to the `default` entry.
+ */
+const INPUT_PORTS: Record<string, Record<string, InputKind>> = {
+  generatorNode: { 'prompt-in': 'prompt', 'image-in': 'images' },
+  outputNode: { 'in': 'image', default: 'image' },
+  refineNode: { 'image-in': 'image', default: 'image' },
+  enhanceNode: { 'prompt-in': 'prompt', default: 'prompt' },
+};
+
+interface ResolvedInputs {
+  prompt: string[];
+  /** Per prompt input: its template, or the prompt itself when it had none. */
+  template: string[];
+  images: string[];
+  image: NodeOutput[];
+}
+
+export interface WorkflowRunOptions {
+  /** Run only this node and everything downstream of it. */
+  fromNodeId?: string;
+  /** Patch a node's `data`, e.g. loading flags, errors and results. */
+  updateNodeData: (id: string, data: Record<string, any>) => void;
+  t: (key: string) => string;
+}
+
+type WildcardMap = Record<string, string[]>;
+
+/**
+ * A prompt node's output. Templates are expanded with the node's own
+ * variables, mode, seed and position, the same inputs its preview uses.
+ * `missing` lists the slots that could not be filled.
+ */
+const expandPromptNode = (data: Record<string, any>, wildcards: WildcardMap): { output: NodeOutput; missing: string[] } => {
+  const template: string = data.prompt || '';
+  if (!isTemplate(template)) return { output: { prompt: template }, missing: [] };
+
+  const expansion = expandTemplate(template, {
+    wildcards,
+    variables: data.variables || {},
+    mode: data.expansionMode || 'random',
+    seed: data.seed || 0,
+    index: data.sequenceIndex || 0,
+  });
+  return {
+    output: { prompt: expansion.prompt, template },
+    missing: [
+      ...expansion.missingVariables.map(name => `\${${name}}`),
+      ...expansion.missingWildcards.map(name => `__${name}__`),
+    ],
+  };
+};
+
+/** Last known output of a node that is not part of the current run. */
+const readCachedOutput = (node: Node, wildcards: WildcardMap): NodeOutput | null => {
+  const { data } = node;
+  switch (node.type) {
+    case 'promptNode': {
+      // Reuse the last expansion so re-running downstream doesn't reroll it
+      if (data.expandedPrompt) return { prompt: data.expandedPrompt, template: data.prompt };
+      const { output, missing } = expandPromptNode(data, wildcards);
+      return missing.length > 0 ? null : output;
+    }
+    case 'imageNode':
+      return { images: data.images || [] };
+    case 'enhanceNode':
+      return data.outputPrompt ? { prompt: data.outputPrompt } : null;
+    case 'generatorNode':
+    case 'refineNode':
+      return data.outputImage
+        ? { image: data.outputImage, resolution: data.resolution, aspectRatio: data.aspectRatio, ratioFit: data.ratioFit || undefined, recordId: data.recordId }
+        : null;
+    case 'outputNode':
+      return data.image
+        ? { image: data.image, resolution: data.resolution, aspectRatio: data.aspectRatio, ratioFit: data.ratioFit || undefined, recordId: data.recordId }
+        : null;
+    default:
+      return null;
+  }
+};
+
+const resolveInputs = (
+  node: Node,
+  edges: Edge[],
+  outputs: Map<string, NodeOutput>
+): ResolvedInputs => {
+  const ports = INPUT_PORTS[node.type || ''] || {};
+  const inputs: ResolvedInputs = { prompt: [], template: [], images: [], image: [] };
+
+  for (const edge of edges) {
+    if (edge.target !== node.id) continue;
+    const kind = ports[edge.targetHandle || 'default'];
+    const source = outputs.get(edge.source);
+    if (!kind || !source) continue;
+
+    if (kind === 'prompt' && source.prompt) {
+      inputs.prompt.push(source.prompt);
+      inputs.template.push(source.template || source.prompt);
+    } else if (kind === 'images') {
+      inputs.images.push(...(source.images || (source.image ? [source.image] : [])));
+    } else if (kind === 'image') {
+      const image = source.image || source.images?.[0];
+      if (image) inputs.image.push({ ...source, image });
+    }
+  }
+  return inputs;
+};
+
+interface RecordDetails {
+  operation: ImageOperation;
+  prompt: string;
+  template?: string;
+  resolution: Resolution;
+  aspectRatio: AspectRatio;
+  inputImages: string[];
+  parentId: string | null;
+  startedAt: number;
+}
+
+/** Workflow results land in the shared history like any other generation. */
+const recordResult = async (result: ImageResult, details: RecordDetails): Promise<string> => {
+  const id = createHistoryId();
+  try {
+    const references = await Promise.all(details.inputImages.map(saveUpload));
+    await addHistoryRecord({
+      id,
+      url: result.url,
+      prompt: details.prompt,
+      timestamp: Date.now(),
+      operation: details.operation,
+      model: result.model,
+      resolution: details.resolution,
+      aspectRatio: details.aspectRatio,
+      references,
+      parentId: details.parentId,
+      durationMs: Math.round(performance.now() - details.startedAt),
+      modelText: result.text,
+      template: details.template,
+    });
+  } catch (e) {
+    console.warn("IDB Save Failed", e);
+  }
+  return id;
+};
+
+const runNode = async (
+  node: Node,
+  inputs: ResolvedInputs,
+  wildcards: WildcardMap,
+  { updateNodeData, t }: WorkflowRunOptions
+): Promise<NodeOutput> => {
+  switch (node.type) {
+    case 'promptNode': {
+      const { output, missing } = expandPromptNode(node.data, wildcards);
+      if (missing.length > 0) throw new Error(t('templateMissing').replace('{names}', missing.join(', ')));
+      if (output.template) {
+        // Move on to the next pick, so the node's preview shows the next run
+        updateNodeData(node.id, node.data.expansionMode === 'sequential'
+          ? { expandedPrompt: output.prompt, sequenceIndex: (node.data.sequenceIndex || 0) + 1 }
+          : { expandedPrompt: output.prompt, seed: randomSeed() });
+      }
+      return output;
+    }
+
+    case 'imageNode':
+      return { images: node.data.images || [] };
+
+    case 'enhanceNode': {
+      const source = inputs.prompt.join('\n').trim();
+      if (!source) throw new Error(t('wfErrNoPrompt'));
+      const { text } = await rewritePrompt(source, node.data.mode || 'enhance');
+      updateNodeData(node.id, { outputPrompt: text });
+      return { prompt: text };
+    }
+
+    case 'generatorNode': {
+      const prompt = inputs.prompt.join('\n').trim();
+      if (!prompt) throw new Error(t('wfErrNoPrompt'));
+      const template = inputs.template.join('\n').trim();
+
+      const { resolution, aspectRatio, ratioFit } = node.data;
+      // Every connected image is a reference; the service rejects more than the model takes
+      const referenceImages = inputs.images;
+      const startedAt = performance.now();
+      const { result } = await enqueueJob({
+        source: 'workflow',
+        prompt,
+        input: { operation: 'generate', referenceImages, resolution, aspectRatio, ratioFit: ratioFit || undefined },
+      });
+      const recordId = await recordResult(result, {
+        operation: 'generate',
+        prompt,
+        template: template !== prompt ? template : undefined,
+        resolution,
+        aspectRatio,
+        inputImages: referenceImages,
+        parentId: null,
+        startedAt,
+      });
+      updateNodeData(node.id, { outputImage: result.url, recordId });
+      return { image: result.url, resolution, aspectRatio, ratioFit: ratioFit || undefined, recordId };
+    }
+
+    case 'outputNode': {
+      const source = inputs.image[0];
+      if (!source?.image) throw new Error(t('wfErrNoInputImage'));
+      // Keep the settings so refine nodes downstream can inherit them
+      updateNodeData(node.id, { image: source.image, resolution: source.resolution, aspectRatio: source.aspectRatio, ratioFit: source.ratioFit, recordId: source.recordId });
+      return source;
+    }
+
+    case 'refineNode': {
+      const prompt = (node.data.prompt || '').trim();
+      if (!prompt) throw new Error(t('wfErrPromptRequired'));
+
+      const source = inputs.image[0];
+      if (!source?.image) throw new Error(t('wfErrNoSourceImage'));
+
+      const resolution: Resolution = source.resolution || '1K';
+      const aspectRatio: AspectRatio = source.aspectRatio || '1:1';
+      const ratioFit = source.ratioFit;
+      const startedAt = performance.now();
+      const { result } = await enqueueJob({
+        source: 'workflow',
+        prompt,
+        input: { operation: 'generate', referenceImages: [source.image], resolution, aspectRatio, ratioFit },
+      });
+      // Inputs that are history records are linked as the parent instead of
+      // being stored again as a reference image
+      const recordId = await recordResult(result, {
+        operation: 'refine',
+        prompt,
+        resolution,
+        aspectRatio,
+        inputImages: source.recordId ? [] : [source.image],
+        parentId: source.recordId || null,
+        startedAt,
+      });
+      updateNodeData(node.id, { outputImage: result.url, resolution, aspectRatio, ratioFit, recordId });
+      return { image: result.url, resolution, aspectRatio, ratioFit, recordId };
+    }
+
+    default:
+      return {};
+  }
+};
+
+/**
+ * Executes the graph in dependency order. Independent branches run in
+ * parallel; a failing node marks its error and blocks only its descendants.
+ * Returns false if the run could not start (e.g. the graph has a cycle).
+ */
+export const runWorkflow = async (
+  nodes: Node[],
+  edges: Edge[],
+  options: WorkflowRunOptions
+): Promise<boolean> => {
+  const { fromNodeId, updateNodeData, t } = options;
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+
+  const scope = new Set<string>(
+    fromNodeId ? [fromNodeId, ...getDescendants(fromNodeId, edges)] : nodes.map(n => n.id)
+  );
+  const scopedEdges = edges.filter(e => scope.has(e.source) && scope.has(e.target));
+  const { order, cycle } = topologicalSort(Array.from(scope), scopedEdges);
+
+  if (cycle.length > 0) {
+    cycle.forEach(id => updateNodeData(id, { loading: false, error: t('wfErrCycle') }));
+    return false;
+  }
+
+  const wildcards = await loadWildcardMap().catch((e): WildcardMap => {
+    console.warn("IDB Wildcards Load Failed", e);
+    return {};
+  });
+
+  // Nodes outside the run feed in whatever they produced last time
+  const outputs = new Map<string, NodeOutput>();
+  for (const node of nodes) {
+    if (scope.has(node.id)) continue;
+    const cached = readCachedOutput(node, wildcards);
+    if (cached) outputs.set(node.id, cached);
+  }
+
+  const pending = new Map<string, Promise<boolean>>();
+
+  const execute = async (id: string): Promise<boolean> => {
+    const parents = scopedEdges.filter(e => e.target === id).map(e => pending.get(e.source)!);
+    const parentResults = await Promise.all(parents);
+    const node = nodeById.get(id)!;
+
+    if (parentResults.some(ok => !ok)) {
+      updateNodeData(id, { loading: false, error: t('wfErrUpstreamFailed') });
+      return false;
+    }
+
+    updateNodeData(id, { loading: true, error: null });
+    try {
+      const output = await runNode(node, resolveInputs(node, edges, outputs), wildcards, options);
+      outputs.set(id, output);
+      return true;
+    } catch (error: any) {
+      const message = error instanceof JobCancelledError ? t('jobCancelled') : describeError(error, t);
+      updateNodeData(id, { error: message || t('wfErrGenFailed') });
+      return false;
+    } finally {
+      updateNodeData(id, { loading: false });
+    }
+  };
+
+  // `order` is topological, so every parent promise exists before its children
+  for (const id of order) {
+    pending.set(id, execute(id));
+  }
+  await Promise.all(pending.values());
+  return true;
+};
@@ -0,0 +1,63 @@
+import { WorkflowDocument } from '../lib/workflowDocument';
+import { initDB, promisifyRequest, transactionDone, STORES } from './db';
+
+export interface SavedWorkflow {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  document: WorkflowDocument;
+}
+
+/** Record holding the editor's working copy; hidden from the library. */
+export const AUTOSAVE_ID = '__autosave__';
+
+export interface AutosavedWorkflow extends SavedWorkflow {
+  /** Library entry the working copy was opened from, if any. */
+  sourceId: string | null;
+}
+
+export const createWorkflowId = () => `wf-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listWorkflows = async (): Promise<SavedWorkflow[]> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.workflows, 'readonly');
+  const index = tx.objectStore(STORES.workflows).index('updatedAt');
+  const all = await promisifyRequest(index.getAll() as IDBRequest<SavedWorkflow[]>);
+  return all.filter(w => w.id !== AUTOSAVE_ID).reverse();
+};
+
+export const getWorkflow = async <T extends SavedWorkflow = SavedWorkflow>(id: string): Promise<T | undefined> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.workflows, 'readonly');
+  return promisifyRequest(tx.objectStore(STORES.workflows).get(id) as IDBRequest<T | undefined>);
+};
+
+export const putWorkflow = async (workflow: SavedWorkflow | AutosavedWorkflow): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.workflows, 'readwrite');
+  tx.objectStore(STORES.workflows).put(workflow);
+  return transactionDone(tx);
+};
+
+export const deleteWorkflow = async (id: string): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction(STORES.workflows, 'readwrite');
+  tx.objectStore(STORES.workflows).delete(id);
+  return transactionDone(tx);
+};
+
+export const duplicateWorkflow = async (source: SavedWorkflow, name: string): Promise<SavedWorkflow> => {
+  const now = Date.now();
+  const copy: SavedWorkflow = {
+    id: createWorkflowId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    document: { ...source.document, name },
+  };
+  await putWorkflow(copy);
+  return copy;
+};
+
+export const getAutosave = () => getWorkflow<AutosavedWorkflow>(AUTOSAVE_ID);
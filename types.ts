@@ -1,10 +1,186 @@
+export type Resolution = '1K' | '2K' | '4K';
+export type AspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '4:5' | '5:4' | '9:16' | '16:9' | '21:9';
+
+/** How an image generated at a nearby ratio is brought to the requested one. */
+export type RatioFit = 'crop' | 'pad';
+
+export type ImageOperation = 'generate' | 'edit' | 'refine' | 'matrix' | 'postprocess';
+
+/** What a reference image should contribute to the generation. */
+export type ReferenceRole = 'subject' | 'style' | 'composition';
+
+export interface ReferenceImageInfo {
+  /** SHA-256 of the uploaded image; key into the uploads store. */
+  hash: string;
+  thumbnail: string;
+  role?: ReferenceRole;
+}
 
 export interface GeneratedImage {
+  /** Stable record id; never derive identity from `timestamp`. */
+  id: string;
+  /** Data URL for fresh results, object URL for records loaded from storage. */
+  url: string;
+  /**
+   * Object URL of the stored gallery thumbnail, if the record has one. The
+   * full image behind `url` is only read when something shows or fetches it.
+   */
+  thumbnailUrl?: string;
+  prompt: string;
+  timestamp: number;
+
+  // Generation metadata. Optional because records created before it was
+  // captured don't have it.
+  operation?: ImageOperation;
+  model?: string;
+  resolution?: Resolution;
+  aspectRatio?: AspectRatio;
+  references?: ReferenceImageInfo[];
+  /** Record this one was derived from (edits and refinements). */
+  parentId?: string | null;
+  durationMs?: number;
+  /** Any text the model returned alongside the image. */
+  modelText?: string;
+  /** Prompt as written, when `prompt` was expanded from wildcards/variables. */
+  template?: string;
+  /** Chat edit session that produced this record. */
+  sessionId?: string;
+
+  // Organization, set by the user after the fact
+  tags?: string[];
+  favorite?: boolean;
+  /** Collections (boards) the record has been added to. */
+  collectionIds?: string[];
+
+  /** Prompt matrix grids: the records of the cells, in grid order. */
+  cellIds?: string[];
+  /** Matrix cells: the grid they belong to. Cells stay out of the history list. */
+  gridId?: string;
+}
+
+/** What a provider hands back for a single image request. */
+export interface ImageResult {
   url: string;
+  model: string;
+  text?: string;
+}
+
+/** One message of a multi-turn edit conversation, as sent to a provider. */
+export interface ChatEditMessage {
+  role: 'user' | 'model';
+  text?: string;
+  /** Data URL. */
+  image?: string;
+}
+
+/** Prompt rewrites offered by the text model. */
+export type PromptRewriteMode = 'enhance' | 'toEnglish' | 'toChinese';
+
+export interface PromptRewriteResult {
+  text: string;
+  model: string;
+}
+
+export type ImageErrorKind =
+  | 'quota'
+  | 'safety'
+  | 'invalidArgument'
+  | 'network'
+  | 'timeout'
+  | 'noImage'
+  | 'unknown';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/** Which view queued a job; shown in the queue panel. */
+export type JobSource = 'simple' | 'workflow';
+
+export type JobInput =
+  | {
+      operation: 'generate';
+      referenceImages: string[];
+      /** Parallel to `referenceImages`; unlabeled references are left to the model. */
+      referenceRoles?: (ReferenceRole | undefined)[];
+      resolution: Resolution;
+      aspectRatio: AspectRatio;
+      seed?: number;
+      ratioFit?: RatioFit;
+    }
+  | { operation: 'edit'; inputImage: string; mask?: string }
+  | { operation: 'chat'; messages: ChatEditMessage[] };
+
+export interface GenerationJob {
+  id: string;
+  source: JobSource;
   prompt: string;
+  input: JobInput;
+  /**
+   * Set for jobs that must survive a reload. They are kept in IndexedDB
+   * until they finish and save their own history record, since the view
+   * that queued them may be gone by then.
+   */
+  record?: {
+    references?: ReferenceImageInfo[];
+    parentId?: string | null;
+    template?: string;
+  };
+  status: JobStatus;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  /** What a failed job threw, kept as is so it can be shown with `describeError`. */
+  error?: unknown;
+  /** History record written for a successful `record` job. */
+  resultId?: string;
+}
+
+/** A named term list, referenced from prompts as `__name__`. */
+export interface Wildcard {
+  name: string;
+  values: string[];
+  updatedAt: number;
+}
+
+/** An entry in the prompt library. */
+export interface SavedPrompt {
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+  /** Preferred settings, applied along with the prompt when set. */
+  resolution?: Resolution;
+  aspectRatio?: AspectRatio;
+  references?: ReferenceImageInfo[];
+  favorite: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A turn of a stored edit session. Images are history records, referenced
+ * by id so a session stays small; the thumbnail keeps the timeline usable
+ * if the record is deleted later.
+ */
+export interface EditSessionTurn {
+  role: 'user' | 'model';
+  text?: string;
+  imageId?: string;
+  thumbnail?: string;
   timestamp: number;
 }
 
-export interface GeminiError {
-  message: string;
+export interface EditSession {
+  id: string;
+  /** History record the conversation started from. */
+  baseId: string;
+  turns: EditSessionTurn[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A named board that history records can be added to. */
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: number;
 }